@@ -1,6 +1,30 @@
-import { TrackPoint, TrackStatistics } from "../util/types.ts";
+import {
+  HeartRateConfig,
+  PreprocessingConfig,
+  TrackPoint,
+  TrackStatistics,
+} from "../util/types.ts";
+
+/** Per request input that is not part of the track itself */
+export type AnalysisOptions = {
+  /** Direction the wind comes from in degrees, overrides the estimate */
+  windDirection?: number;
+  /** Width of the true wind angle bins of the polar diagram (default: 10°) */
+  polarBinSize?: number;
+  /** Length of the best runs leaderboards (default: 5) */
+  topRuns?: number;
+  /** Changes to the default preprocessing of the recorded points */
+  preprocessing?: Partial<PreprocessingConfig>;
+  /** Max and resting heart rate and zones of the athlete */
+  heartRate?: Partial<HeartRateConfig>;
+};
 
 export interface Analysis {
-  getStatistics(points: TrackPoint[]): TrackStatistics;
+  getStatistics(
+    points: TrackPoint[],
+    options?: AnalysisOptions,
+  ): TrackStatistics;
   getConfig(): any;
+  /** Version of the algorithm, stored with the results it produced */
+  getVersion(): string;
 }
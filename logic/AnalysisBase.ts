@@ -1,9 +1,19 @@
 import {
+  JibeInfo,
   TrackPoint,
   RawTrackStatistics,
   TrackStatistics,
+  WindInfo,
 } from "../util/types.ts";
-import { Analysis } from "./Analysis.ts";
+import { isSegmentBreak } from "../util/utils.ts";
+import { Analysis, AnalysisOptions } from "./Analysis.ts";
+import { WindEstimator } from "./WindEstimator.ts";
+import { PolarAnalysis } from "./PolarAnalysis.ts";
+import { VmgAnalysis } from "./VmgAnalysis.ts";
+import { RankingAnalysis } from "./RankingAnalysis.ts";
+import { Timeline, TimelineManeuver } from "./Timeline.ts";
+import { RunAnalysis } from "./RunAnalysis.ts";
+import { InsufficientDataError } from "../util/errors.ts";
 
 export interface AnalysisConfig {
   /** Minimum speed to be considered "flying" (default: 6 km/h) */
@@ -14,26 +24,69 @@ export interface AnalysisConfig {
   jibeAngleThreshold?: number;
   /** Minimum angle change to be considered a tack (upwind turn, default: 80°) */
   tackAngleThreshold?: number;
-  /** Maximum time window to detect maneuvers (default: 15 seconds) */
+  /** Maximum time window to detect maneuvers (default: 10 seconds) */
   maneuverTimeWindowSeconds?: number;
   /** Minimum segment duration to count as valid flying (default: 5 seconds) */
   minFlyingSegmentSeconds?: number;
+  /** Minimum confidence of an estimated wind direction to classify maneuvers by it (default: 0.5) */
+  minWindConfidence?: number;
 }
 export class AnalysisBase implements Analysis {
-  private config = {
-    flyingJibeSpeedThresholdKmh: 8,
-    flyingSpeedThresholdKmh: 8,
-    jibeAngleThreshold: 70,
-    maneuverTimeWindowSeconds: 15,
-    minFlyingSegmentSeconds: 2,
-    tackAngleThreshold: 70,
-  };
+  /** Bump when a change alters the results for the same track */
+  static readonly VERSION = "1.3.0";
+
+  private config: Required<AnalysisConfig>;
+
+  constructor(config?: Partial<AnalysisConfig>) {
+    this.config = {
+      flyingJibeSpeedThresholdKmh: 8,
+      flyingSpeedThresholdKmh: 8,
+      jibeAngleThreshold: 140,
+      maneuverTimeWindowSeconds: 10,
+      minFlyingSegmentSeconds: 2,
+      minWindConfidence: 0.5,
+      tackAngleThreshold: 80,
+      ...config,
+    };
+  }
 
   getConfig() {
     return this.config;
   }
-  getStatistics(points: TrackPoint[]): TrackStatistics {
-    const rawStats = getAnalysisData(points, this.config);
+
+  getVersion(): string {
+    return AnalysisBase.VERSION;
+  }
+  getStatistics(
+    points: TrackPoint[],
+    options: AnalysisOptions = {}
+  ): TrackStatistics {
+    const wind: WindInfo | null =
+      options.windDirection !== undefined
+        ? { direction: options.windDirection, source: "request" }
+        : WindEstimator.estimate(points, this.config.flyingSpeedThresholdKmh);
+    const rawStats = getAnalysisData(points, this.config, wind);
+    if (wind && isWindReliable(wind, this.config)) {
+      rawStats.polar = PolarAnalysis.compute(
+        points,
+        wind.direction,
+        this.config.flyingSpeedThresholdKmh,
+        options.polarBinSize
+      );
+      rawStats.vmg = VmgAnalysis.compute(
+        points,
+        wind.direction,
+        this.config.flyingSpeedThresholdKmh
+      );
+    }
+    rawStats.rankings = RankingAnalysis.compute(points);
+    rawStats.runs = RunAnalysis.compute(
+      points,
+      rawStats.segments ?? [],
+      this.config.flyingSpeedThresholdKmh,
+      options.topRuns,
+      wind?.direction
+    );
     return this.formatStatistics(rawStats);
   }
 
@@ -68,6 +121,7 @@ export class AnalysisBase implements Analysis {
         tacks: rawStats.tackCount,
         flyingJibes: rawStats.flyingJibeCount,
         flyingJibePercentage: parseFloat(flyingJibePercentage),
+        jibesList: rawStats.jibes,
       },
       distance: {
         total: parseFloat((rawStats.totalDistance / 1000).toFixed(2)),
@@ -75,6 +129,12 @@ export class AnalysisBase implements Analysis {
           (rawStats.maxDistanceFromStart / 1000).toFixed(2)
         ),
       },
+      wind: rawStats.wind,
+      polar: rawStats.polar,
+      vmg: rawStats.vmg,
+      rankings: rawStats.rankings,
+      segments: rawStats.segments,
+      runs: rawStats.runs,
     };
   }
 
@@ -106,25 +166,40 @@ export class AnalysisBase implements Analysis {
   }
 }
 
+/**
+ * Only wind directions that are given or estimated with enough confidence
+ * are used to tell tacks from jibes and for the polar and VMG
+ */
+const isWindReliable = (
+  wind: WindInfo,
+  config: Required<AnalysisConfig>
+): boolean =>
+  wind.source === "request" ||
+  (wind.confidence ?? 0) >= config.minWindConfidence;
+
 const getAnalysisData = (
   points: TrackPoint[],
-  config: AnalysisConfig
+  config: Required<AnalysisConfig>,
+  wind: WindInfo | null
 ): RawTrackStatistics => {
   if (!points || points.length < 2) {
-    throw Error();
+    throw new InsufficientDataError("Insufficient data points for analysis");
   }
 
   // Calculate total distance (sum of all point distances)
+  // Gaps between track segments count neither as distance nor as time
   let totalDistance = 0;
+  let totalTimeMs = 0;
   for (let i = 1; i < points.length; i++) {
+    if (isSegmentBreak(points[i - 1], points[i])) continue;
     const distance = calculateDistance(points[i - 1], points[i]);
     totalDistance += distance;
+    totalTimeMs +=
+      new Date(points[i].time).getTime() -
+      new Date(points[i - 1].time).getTime();
   }
 
   // Calculate total time
-  const startTime = new Date(points[0].time);
-  const endTime = new Date(points[points.length - 1].time);
-  const totalTimeMs = endTime.getTime() - startTime.getTime();
   const totalTimeSeconds = totalTimeMs / 1000;
 
   // Calculate speeds
@@ -137,6 +212,7 @@ const getAnalysisData = (
   for (let i = 1; i < points.length; i++) {
     const prevPoint = points[i - 1];
     const currentPoint = points[i];
+    if (isSegmentBreak(prevPoint, currentPoint)) continue;
 
     const prevSpeedKmh = (prevPoint.speed || 0) * 3.6; // Convert m/s to km/h
     const currentSpeedKmh = (currentPoint.speed || 0) * 3.6;
@@ -178,8 +254,10 @@ const getAnalysisData = (
 
   for (let i = 0; i < points.length; i++) {
     const speedKmh = (points[i].speed || 0) * 3.6;
+    const continuesSegment =
+      i === 0 || !isSegmentBreak(points[i - 1], points[i]);
 
-    if (speedKmh > config.flyingSpeedThresholdKmh) {
+    if (speedKmh > config.flyingSpeedThresholdKmh && continuesSegment) {
       // Start or continue a sequence
       if (sequenceStartIndex === -1) {
         sequenceStartIndex = i;
@@ -207,7 +285,9 @@ const getAnalysisData = (
         longestSequenceTime = currentSequenceTime;
       }
 
-      sequenceStartIndex = -1;
+      // A new segment may start right away with flying speed
+      sequenceStartIndex =
+        speedKmh > config.flyingSpeedThresholdKmh ? i : -1;
     }
   }
 
@@ -215,17 +295,27 @@ const getAnalysisData = (
   // For this example, we'll use a simple bearing change detection
   // In a real app, you might want to use more sophisticated algorithms
 
-  const MIN_JIBE_ANGLE = 140; // Minimum angle change for a jibe
-  const MIN_TACK_ANGLE = 80; // Minimum angle change for a tack
+  const MIN_JIBE_ANGLE = config.jibeAngleThreshold; // Minimum angle for a jibe
+  const MIN_TACK_ANGLE = config.tackAngleThreshold; // Minimum angle for a tack
   const FLY_JIBE_THRESHOLD = 10; // km/h
 
   let jibeCount = 0;
   let tackCount = 0;
   let flyingJibeCount = 0;
+  const jibes: JibeInfo[] = [];
+  const timeline: TimelineManeuver[] = [];
+
+  const windDirection =
+    wind && isWindReliable(wind, config) ? wind.direction : undefined;
 
   // Calculate bearings
   const bearings: number[] = [];
   for (let i = 0; i < points.length - 1; i++) {
+    // Keep the previous heading across a segment gap
+    if (i > 0 && isSegmentBreak(points[i], points[i + 1])) {
+      bearings.push(bearings[i - 1]);
+      continue;
+    }
     bearings.push(calculateBearing(points[i], points[i + 1]));
   }
   bearings.push(bearings[bearings.length - 1]); // Add last bearing
@@ -233,11 +323,14 @@ const getAnalysisData = (
   // Detect maneuvers
   for (let i = 1; i < points.length - 1; i++) {
     // Look ahead for significant direction changes within a time window
-    const MAX_MANEUVER_TIME = 10; // seconds
+    const MAX_MANEUVER_TIME = config.maneuverTimeWindowSeconds; // seconds
     let maxAngleChange = 0;
     let maneuverEndIndex = -1;
 
     for (let j = i + 1; j < points.length; j++) {
+      // Maneuvers don't span a gap between track segments
+      if (isSegmentBreak(points[j - 1], points[j])) break;
+
       // Check if we're still within the time window
       const timeDiff =
         (new Date(points[j].time).getTime() -
@@ -254,8 +347,24 @@ const getAnalysisData = (
       }
     }
 
-    // Classify the maneuver
-    if (maxAngleChange >= MIN_JIBE_ANGLE) {
+    // Classify the maneuver, by the wind if known, else by angle only
+    let type: "jibe" | "tack" | null = null;
+    if (windDirection !== undefined) {
+      if (maxAngleChange >= MIN_TACK_ANGLE) {
+        type = WindEstimator.classifyTurn(
+          bearings,
+          i - 1,
+          maneuverEndIndex - 1,
+          windDirection
+        );
+      }
+    } else if (maxAngleChange >= MIN_JIBE_ANGLE) {
+      type = "jibe";
+    } else if (maxAngleChange >= MIN_TACK_ANGLE) {
+      type = "tack";
+    }
+
+    if (type === "jibe") {
       jibeCount++;
 
       // Check if it's a flying jibe
@@ -270,11 +379,20 @@ const getAnalysisData = (
       if (isFlying) {
         flyingJibeCount++;
       }
+      jibes.push(
+        createJibeInfo(points, i, maneuverEndIndex, maxAngleChange, isFlying)
+      );
+      timeline.push({
+        type: isFlying ? "flightjibe" : "jibe",
+        startIndex: i,
+        endIndex: maneuverEndIndex,
+      });
 
       // Skip ahead to after the jibe
       i = maneuverEndIndex;
-    } else if (maxAngleChange >= MIN_TACK_ANGLE) {
+    } else if (type === "tack") {
       tackCount++;
+      timeline.push({ type: "tack", startIndex: i, endIndex: maneuverEndIndex });
 
       // Skip ahead to after the tack
       i = maneuverEndIndex;
@@ -293,6 +411,9 @@ const getAnalysisData = (
     jibeCount,
     tackCount,
     flyingJibeCount,
+    jibes,
+    wind: wind ?? undefined,
+    segments: Timeline.build(points, timeline, config.flyingSpeedThresholdKmh),
   };
 
   return stats;
@@ -317,6 +438,7 @@ function averageSpeedWeighted(points: TrackPoint[]): number {
     const p2 = points[i + 1];
 
     if (p1.speed === undefined || p2.speed === undefined) continue;
+    if (isSegmentBreak(p1, p2)) continue;
 
     const t1 = new Date(p1.time).getTime();
     const t2 = new Date(p2.time).getTime();
@@ -337,66 +459,56 @@ function averageSpeedWeighted(points: TrackPoint[]): number {
   return totalTime > 0 ? totalWeighted / totalTime : 0;
 }
 
-// If speeds are in km/h, either convert to m/s at input (s / 3.6)
-// or set jumpMps = 7.2 for "2 m/s" equivalent.
-const DEFAULT_JUMP_MPS = 2; // 2 m/s
-
-function toMs(t: string | number | Date): number {
-  return typeof t === "number" ? t : new Date(t).getTime();
-}
-
 /**
- * Keep only points whose speed does not jump by more than `jumpMps`
- * compared to the last *kept* speed. Also enforces strictly increasing time.
+ * Details of a jibe for the lists, exports and heart rate. Flying is decided
+ * by the caller like for the count, a stop during the jibe is a crash.
  */
-function filterBySpeedJump(points: TrackPoint[], jumpMps = DEFAULT_JUMP_MPS) {
-  const kept: { t: number; s: number }[] = [];
-  let lastKeptSpeed: number | null = null;
-  let prevT = -Infinity;
-
-  for (const p of points) {
-    const s = p.speed;
-    if (typeof s !== "number" || !isFinite(s)) continue;
-
-    const t = toMs(p.time);
-    if (!(t > prevT)) continue; // enforce strictly increasing time
-
-    if (lastKeptSpeed === null || Math.abs(s - lastKeptSpeed) <= jumpMps) {
-      kept.push({ t, s });
-      lastKeptSpeed = s;
-      prevT = t;
-    }
-    // else: drop spike point
-  }
-  return kept;
-}
-
-/** Time-weighted average speed using the filtered GPX speeds. Returns m/s. */
-function _averageSpeedWeightedFromGpx(
+function createJibeInfo(
   points: TrackPoint[],
-  jumpMps = DEFAULT_JUMP_MPS
-): number {
-  const pts = filterBySpeedJump(points, jumpMps);
-  if (pts.length < 2) return 0;
-
-  let num = 0; // sum( avgSegmentSpeed * dt )
-  let den = 0; // sum( dt )
-
-  for (let i = 0; i < pts.length - 1; i++) {
-    const dt = (pts[i + 1].t - pts[i].t) / 1000; // seconds
-    if (dt <= 0) continue;
-    const segSpeed = (pts[i].s + pts[i + 1].s) / 2; // trapezoid
-    num += segSpeed * dt;
-    den += dt;
+  startIndex: number,
+  endIndex: number,
+  angleChange: number,
+  isFlying: boolean
+): JibeInfo {
+  let minSpeed = Infinity;
+  let maxSpeed = 0;
+  let totalSpeed = 0;
+  for (let i = startIndex; i <= endIndex; i++) {
+    const speed = points[i].speed || 0;
+    minSpeed = Math.min(minSpeed, speed);
+    maxSpeed = Math.max(maxSpeed, speed);
+    totalSpeed += speed;
   }
-  return den ? num / den : 0;
+  const avgSpeed = totalSpeed / (endIndex - startIndex + 1);
+
+  const startTime = points[startIndex].time;
+  const endTime = points[endIndex].time;
+  const toKmh = (speed: number) => parseFloat((speed * 3.6).toFixed(1));
+
+  return {
+    type: isFlying ? "flying" : minSpeed < 0.1 ? "crash" : "regular",
+    startIndex,
+    endIndex,
+    startTime,
+    endTime,
+    durationSeconds:
+      (new Date(endTime).getTime() - new Date(startTime).getTime()) / 1000,
+    angleChange: parseFloat(angleChange.toFixed(1)),
+    minSpeed: toKmh(minSpeed),
+    maxSpeed: toKmh(maxSpeed),
+    avgSpeed: toKmh(avgSpeed),
+  };
 }
 
-/** Maximum speed after spike filtering. Returns m/s. */
-function getMaxSpeed(points: TrackPoint[], jumpMps = DEFAULT_JUMP_MPS): number {
-  const pts = filterBySpeedJump(points, jumpMps);
+/**
+ * Maximum speed in m/s. Spikes are repaired by the preprocessing before
+ * any analysis.
+ */
+function getMaxSpeed(points: TrackPoint[]): number {
   let max = 0;
-  for (const p of pts) if (p.s > max) max = p.s;
+  for (const p of points) {
+    if (typeof p.speed === "number" && p.speed > max) max = p.speed;
+  }
   return max;
 }
 
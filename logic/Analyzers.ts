@@ -0,0 +1,176 @@
+import { Session, SportInfo, TrackPoint } from "../util/types.ts";
+import { Analysis, AnalysisOptions } from "./Analysis.ts";
+import { AnalysisBase } from "./AnalysisBase.ts";
+import { KIAnalysis } from "./KIAnalysis.ts";
+import { SportProfiles, SportSelection } from "./SportProfiles.ts";
+import { Preprocessing } from "./Preprocessing.ts";
+import { HeartRateAnalysis } from "./HeartRateAnalysis.ts";
+
+export type AnalyzerName = "base" | "KI";
+
+/** Accepted range of each config option, shared by all analyzers */
+const CONFIG_LIMITS: Record<string, [number, number]> = {
+  flyingSpeedThresholdKmh: [1, 60],
+  flyingJibeSpeedThresholdKmh: [1, 60],
+  jibeAngleThreshold: [30, 180],
+  tackAngleThreshold: [30, 180],
+  maneuverTimeWindowSeconds: [2, 60],
+  minFlyingSegmentSeconds: [0, 60],
+  minMaxSpeedDurationSeconds: [0, 60],
+  minWindConfidence: [0, 1],
+};
+
+/** The part of a session an analyzer run produces */
+export type AnalysisResult = Pick<
+  Session,
+  | "points"
+  | "rawPoints"
+  | "preprocessing"
+  | "statistics"
+  | "segments"
+  | "config"
+>;
+
+/**
+ * Creates the analyzers by name and runs them. The session config records
+ * which analyzer, version, settings and options produced the statistics, so
+ * stored sessions can be analyzed again the same way or with changes. The
+ * points are preprocessed before any analyzer sees them, the heart rate is
+ * analyzed the same way for every analyzer.
+ */
+export class Analyzers {
+  static readonly names: AnalyzerName[] = ["base", "KI"];
+
+  static isName(name: unknown): name is AnalyzerName {
+    return this.names.includes(name as AnalyzerName);
+  }
+
+  static create(
+    name: AnalyzerName,
+    config: Record<string, number> = {},
+  ): Analysis {
+    return name === "KI" ? new KIAnalysis(config) : new AnalysisBase(config);
+  }
+
+  /**
+   * Checks a partial config for the given analyzer, returns an error message
+   * or null if it is fine
+   */
+  static validateConfig(name: AnalyzerName, config: unknown): string | null {
+    if (config === undefined) return null;
+    if (!config || typeof config !== "object" || Array.isArray(config)) {
+      return "config must be an object";
+    }
+    const defaults = this.create(name).getConfig();
+    for (const [key, value] of Object.entries(config)) {
+      if (!(key in defaults)) return `Unknown config option ${key}`;
+      if (typeof value !== "number" || !isFinite(value)) {
+        return `${key} must be a number`;
+      }
+      const [min, max] = CONFIG_LIMITS[key] ?? [-Infinity, Infinity];
+      if (value < min || value > max) {
+        return `${key} must be between ${min} and ${max}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Config options of the analyzer given as query parameters, values that
+   * are not numbers are kept as strings to fail the validation
+   */
+  static getConfigFromQuery(
+    name: AnalyzerName,
+    query: Record<string, string | undefined>,
+  ): Record<string, unknown> {
+    const config: Record<string, unknown> = {};
+    for (const key of Object.keys(this.create(name).getConfig())) {
+      const value = query[key];
+      if (value === undefined || value === "") continue;
+      config[key] = isFinite(Number(value)) ? Number(value) : value;
+    }
+    return config;
+  }
+
+  /**
+   * Sport of a stored session: the requested one, the one of the last run,
+   * or detected from the metadata
+   */
+  static getSport(session: Session, requested?: string): SportSelection {
+    const requestedProfile = requested && SportProfiles.get(requested);
+    if (requestedProfile) {
+      return { profile: requestedProfile, source: "request" };
+    }
+
+    const { sport, sportSource } = session.config;
+    const previous = typeof sport === "string" && SportProfiles.get(sport);
+    if (previous) {
+      return {
+        profile: previous,
+        source: sportSource as SportInfo["source"] ?? "detected",
+      };
+    }
+    return SportProfiles.detect(session.metadata);
+  }
+
+  /** Name of the analyzer a stored session was analyzed with */
+  static getName(session: Session): AnalyzerName {
+    const { algorithm, type } = session.config;
+    if (this.isName(algorithm)) return algorithm;
+    return type === "KIAnalysis" ? "KI" : "base";
+  }
+
+  static run(
+    points: TrackPoint[],
+    name: AnalyzerName,
+    config: Record<string, number> = {},
+    options: AnalysisOptions = {},
+    sport: SportSelection = {
+      profile: SportProfiles.get("wingfoil")!,
+      source: "default",
+    },
+  ): AnalysisResult {
+    // Speeds above the limit of the sport are spikes unless told otherwise
+    const preprocessed = Preprocessing.run(points, {
+      maxSpeedKmh: sport.profile.maxSpeedKmh,
+      ...options.preprocessing,
+    });
+
+    // The sport sets the defaults, the given config wins
+    const algo = this.create(name, { ...sport.profile.config, ...config });
+    const { segments, ...statistics } = algo.getStatistics(
+      preprocessed.points,
+      options,
+    );
+    const heartRate = HeartRateAnalysis.compute(
+      preprocessed.points,
+      {
+        jibes: statistics.maneuvers.jibesList,
+        runs: statistics.runs?.runs ?? [],
+        segments: segments ?? [],
+      },
+      algo.getConfig().flyingSpeedThresholdKmh,
+      options.heartRate,
+    );
+    if (heartRate) statistics.heartRate = heartRate;
+
+    return {
+      points: preprocessed.points,
+      // Kept to analyze again from the recording
+      rawPoints: preprocessed.points === points ? undefined : points,
+      preprocessing: preprocessed.report,
+      statistics: SportProfiles.apply(statistics, sport.profile, sport.source),
+      segments,
+      config: {
+        type: algo.constructor.name,
+        algorithm: name,
+        sport: sport.profile.name,
+        sportSource: sport.source,
+        version: algo.getVersion(),
+        settings: algo.getConfig(),
+        options,
+        analyzedAt: new Date().toISOString(),
+      },
+    };
+  }
+}
@@ -0,0 +1,226 @@
+import { sign, verify } from "hono/jwt";
+import { PublicUser, Session, SessionVisibility, User } from "../util/types.ts";
+import { UnauthorizedError, ValidationError } from "../util/errors.ts";
+
+/** PBKDF2 with SHA-256, the iterations are stored with every hash */
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const MIN_PASSWORD_LENGTH = 8;
+/** PBKDF2 hashes the password on every round, so its length is capped */
+const MAX_PASSWORD_LENGTH = 256;
+const MAX_NAME_LENGTH = 100;
+
+const TOKEN_LIFETIME = 7 * 24 * 60 * 60;
+
+const VISIBILITIES: SessionVisibility[] = ["private", "public"];
+
+/** Stored sessions and their summaries both tell who may read them */
+type Access = Pick<Session, "ownerId" | "visibility" | "shareToken">;
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+/** 256 random bits */
+const randomToken = () =>
+  toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(
+    atob(value.replace(/-/g, "+").replace(/_/g, "/")),
+    (c) => c.charCodeAt(0),
+  );
+
+const deriveKey = async (
+  password: string,
+  salt: BufferSource,
+  iterations: number,
+): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    HASH_BITS,
+  );
+  return new Uint8Array(bits);
+};
+
+/** Compares all bytes, so the time taken tells nothing about the hash */
+const timingSafeEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a[i] ^ b[i];
+  return difference === 0;
+};
+
+const toObject = (body: unknown): Record<string, unknown> => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ValidationError("Expected a JSON object");
+  }
+  return body as Record<string, unknown>;
+};
+
+const parseEmail = (value: unknown): string => {
+  const email = typeof value === "string" ? value.trim().toLowerCase() : "";
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new ValidationError("email must be an email address");
+  }
+  return email;
+};
+
+const parsePassword = (value: unknown): string => {
+  if (
+    typeof value !== "string" || value.length < MIN_PASSWORD_LENGTH ||
+    value.length > MAX_PASSWORD_LENGTH
+  ) {
+    throw new ValidationError(
+      `password must have ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters`,
+    );
+  }
+  return value;
+};
+
+/**
+ * Accounts and access to stored sessions. Passwords are kept as salted
+ * PBKDF2 hashes, logins are JWTs signed with the server secret. A session
+ * can be read by its owner, by anyone if it is public or stored before
+ * there were accounts, and by anyone with its share token.
+ */
+export class Auth {
+  /** Lifetime of a login token, in seconds */
+  static readonly tokenLifetime = TOKEN_LIFETIME;
+
+  static async hashPassword(password: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = await deriveKey(password, salt, ITERATIONS);
+    return `pbkdf2$${ITERATIONS}$${toBase64Url(salt)}$${toBase64Url(hash)}`;
+  }
+
+  static async verifyPassword(
+    password: string,
+    stored: string,
+  ): Promise<boolean> {
+    const [scheme, iterations, salt, hash] = stored.split("$");
+    if (scheme !== "pbkdf2" || !(Number(iterations) > 0) || !hash) {
+      return false;
+    }
+    const expected = fromBase64Url(hash);
+    const actual = await deriveKey(
+      password,
+      fromBase64Url(salt),
+      Number(iterations),
+    );
+    return timingSafeEqual(actual, expected);
+  }
+
+  static parseRegistration(
+    body: unknown,
+  ): { email: string; name: string; password: string } {
+    const values = toObject(body);
+    const email = parseEmail(values.email);
+    const password = parsePassword(values.password);
+    const name = values.name ?? email.slice(0, email.indexOf("@"));
+    if (
+      typeof name !== "string" || !name.trim() ||
+      name.length > MAX_NAME_LENGTH
+    ) {
+      throw new ValidationError(
+        `name must be a text of up to ${MAX_NAME_LENGTH} characters`,
+      );
+    }
+    return { email, name: name.trim(), password };
+  }
+
+  static parseLogin(body: unknown): { email: string; password: string } {
+    const values = toObject(body);
+    if (
+      typeof values.email !== "string" || typeof values.password !== "string"
+    ) {
+      throw new ValidationError("email and password are required");
+    }
+    return {
+      email: values.email.trim().toLowerCase(),
+      password: values.password,
+    };
+  }
+
+  static toPublicUser({ passwordHash: _, ...user }: User): PublicUser {
+    return user;
+  }
+
+  /** A signed login token for the user, valid for a week */
+  static async createToken(userId: string, secret: string): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    return await sign(
+      { sub: userId, iat: now, exp: now + TOKEN_LIFETIME },
+      secret,
+      "HS256",
+    );
+  }
+
+  /** The user id of a valid login token */
+  static async verifyToken(token: string, secret: string): Promise<string> {
+    try {
+      const payload = await verify(token, secret, "HS256");
+      if (typeof payload.sub === "string") return payload.sub;
+    } catch {
+      // Expired, tampered with or not a JWT at all
+    }
+    throw new UnauthorizedError("Invalid or expired token, please log in");
+  }
+
+  /** A random secret for signing tokens */
+  static createSecret(): string {
+    return randomToken();
+  }
+
+  /** For share links nobody can guess */
+  static createShareToken(): string {
+    return randomToken();
+  }
+
+  static parseVisibility(value: unknown): SessionVisibility {
+    if (!VISIBILITIES.includes(value as SessionVisibility)) {
+      throw new ValidationError(
+        `visibility must be one of ${VISIBILITIES.join(", ")}`,
+      );
+    }
+    return value as SessionVisibility;
+  }
+
+  static isOwner(session: Access, userId: string | null): boolean {
+    return userId !== null && session.ownerId === userId;
+  }
+
+  static canRead(
+    session: Access,
+    userId: string | null,
+    shareToken?: string,
+  ): boolean {
+    if (!session.ownerId || session.visibility === "public") return true;
+    if (Auth.isOwner(session, userId)) return true;
+    return Auth.matchesToken(shareToken, session.shareToken);
+  }
+
+  /** Compares a given share token or invite code to the stored one */
+  static matchesToken(
+    given: string | undefined,
+    expected: string | undefined,
+  ): boolean {
+    return !!given && !!expected &&
+      timingSafeEqual(
+        new TextEncoder().encode(given),
+        new TextEncoder().encode(expected),
+      );
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  ComparedSession,
+  ComparisonDelta,
+  ComparisonHistogram,
+  ComparisonMetrics,
+  JibeInfo,
+  SessionComparison,
+  StoredSession,
+} from "../util/types.ts";
+import { InsufficientDataError, ValidationError } from "../util/errors.ts";
+
+const MAX_COMPARED_SESSIONS = 10;
+
+/** Lower bin edges, jibes above the last edge share the last bin */
+const DURATION_EDGES = [0, 4, 6, 8, 10, 12, 15, 20]; // seconds
+const MIN_SPEED_EDGES = [0, 5, 10, 15, 20, 25]; // km/h
+
+const round = (value: number, decimals: number) =>
+  parseFloat(value.toFixed(decimals));
+
+const getTime = (session: StoredSession) =>
+  session.metadata.time || session.createdAt;
+
+const toMetrics = (session: StoredSession): ComparisonMetrics => {
+  const { statistics } = session;
+  if (!statistics) {
+    throw new InsufficientDataError(`Session ${session.id} is not analyzed`);
+  }
+  const activity = statistics[statistics.sport?.activity ?? "flying"];
+  return {
+    maxSpeed: statistics.speed.max,
+    avgSpeed: statistics.speed.avg,
+    flyingPercentage: activity?.percentage ?? 0,
+    flyingJibePercentage: statistics.maneuvers.flyingJibePercentage,
+    distance: statistics.distance.total,
+    jibes: statistics.maneuvers.jibes,
+    twoSeconds: statistics.rankings?.twoSeconds?.speed ?? null,
+  };
+};
+
+const toHistogram = (
+  sessions: StoredSession[],
+  edges: number[],
+  unit: string,
+  value: (jibe: JibeInfo) => number,
+): ComparisonHistogram => ({
+  unit,
+  bins: edges.map((min, i) => ({ min, max: edges[i + 1] ?? null })),
+  sessions: sessions.map((session) => {
+    const jibes = session.statistics?.maneuvers.jibesList ?? [];
+    const counts = edges.map(() => 0);
+    for (const jibe of jibes) {
+      const bin = edges.findLastIndex((edge) => value(jibe) >= edge);
+      counts[Math.max(0, bin)]++;
+    }
+    return {
+      id: session.id,
+      counts,
+      percentages: counts.map((count) =>
+        jibes.length > 0 ? round((count / jibes.length) * 100, 1) : 0
+      ),
+    };
+  }),
+});
+
+/**
+ * Lines up stored sessions oldest first, with the change of the key numbers
+ * to the session before and the jibe quality as histograms with the same
+ * bins for every session.
+ */
+export class Comparison {
+  /** Session ids of a comma separated list, without duplicates */
+  static parseIds(value: string | undefined): string[] {
+    const ids = [
+      ...new Set((value ?? "").split(",").map((id) => id.trim())),
+    ].filter(Boolean);
+    if (ids.length < 2 || ids.length > MAX_COMPARED_SESSIONS) {
+      throw new ValidationError(
+        `ids must list 2 to ${MAX_COMPARED_SESSIONS} session ids`,
+      );
+    }
+    return ids;
+  }
+
+  static compare(stored: StoredSession[]): SessionComparison {
+    const sessions = [...stored].sort((a, b) =>
+      getTime(a).localeCompare(getTime(b))
+    );
+    const compared: ComparedSession[] = sessions.map((session) => ({
+      id: session.id,
+      name: session.metadata.name,
+      time: getTime(session),
+      sport: session.statistics?.sport?.profile,
+      metrics: toMetrics(session),
+    }));
+
+    const deltas = compared.slice(1).map((session, i): ComparisonDelta => {
+      const previous = compared[i];
+      const metrics = {} as ComparisonDelta["metrics"];
+      for (const key of Object.keys(session.metrics)) {
+        const name = key as keyof ComparisonMetrics;
+        const value = session.metrics[name];
+        const before = previous.metrics[name];
+        metrics[name] = value === null || before === null
+          ? null
+          : round(value - before, 2);
+      }
+      return { id: session.id, previousId: previous.id, metrics };
+    });
+
+    return {
+      sessions: compared,
+      deltas,
+      jibes: {
+        duration: toHistogram(
+          sessions,
+          DURATION_EDGES,
+          "s",
+          (jibe) => jibe.durationSeconds,
+        ),
+        minSpeed: toHistogram(
+          sessions,
+          MIN_SPEED_EDGES,
+          "km/h",
+          (jibe) => jibe.minSpeed,
+        ),
+      },
+    };
+  }
+}
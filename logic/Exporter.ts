@@ -0,0 +1,111 @@
+import { JibeType, Session, TrackPoint } from "../util/types.ts";
+import { isSegmentBreak } from "../util/utils.ts";
+
+export interface Exporter {
+  /** Short format name, accepted as `?format=` on /sessions/:id/export */
+  name: string;
+  contentType: string;
+  extension: string;
+  export(session: Session): string;
+}
+
+/** Jibes get the style of their type, tacks and top runs one each */
+export type AnnotationStyle = JibeType | "tack" | "run";
+
+/** A maneuver or top run, shown as a waypoint or placemark */
+export type Annotation = {
+  style: AnnotationStyle;
+  name: string;
+  description: string;
+  point: TrackPoint; // where the annotation is placed
+  speed: number; // km/h, the average of the maneuver or run
+};
+
+export const annotationStyles: Record<
+  AnnotationStyle,
+  { label: string; color: string; symbol: string }
+> = {
+  flying: { label: "Flying jibe", color: "#2e7d32", symbol: "Flag, Green" },
+  regular: { label: "Jibe", color: "#1565c0", symbol: "Flag, Blue" },
+  crash: { label: "Crash jibe", color: "#c62828", symbol: "Flag, Red" },
+  tack: { label: "Tack", color: "#6a1b9a", symbol: "Triangle, Blue" },
+  run: { label: "Top run", color: "#ef6c00", symbol: "Pin, Red" },
+};
+
+/**
+ * Jibes and tacks are placed in the middle of the maneuver, runs at their
+ * start. Sorted by time, like the track.
+ */
+export function getAnnotations(session: Session): Annotation[] {
+  const { points, statistics } = session;
+  const middle = (startIndex: number, endIndex: number) =>
+    points[Math.round((startIndex + endIndex) / 2)];
+  const annotations: { index: number; annotation: Annotation }[] = [];
+
+  for (const jibe of statistics?.maneuvers.jibesList ?? []) {
+    annotations.push({
+      index: jibe.startIndex,
+      annotation: {
+        style: jibe.type,
+        name: annotationStyles[jibe.type].label,
+        description: `${jibe.durationSeconds} s, ${
+          Math.round(jibe.angleChange)
+        }°, min ${jibe.minSpeed} km/h`,
+        point: middle(jibe.startIndex, jibe.endIndex),
+        speed: jibe.avgSpeed,
+      },
+    });
+  }
+
+  for (const segment of session.segments ?? []) {
+    if (segment.type !== "tack") continue;
+    annotations.push({
+      index: segment.startIndex,
+      annotation: {
+        style: "tack",
+        name: annotationStyles.tack.label,
+        description:
+          `${segment.durationSeconds} s, min ${segment.minSpeed} km/h`,
+        point: middle(segment.startIndex, segment.endIndex),
+        speed: segment.avgSpeed,
+      },
+    });
+  }
+
+  (statistics?.runs?.top.speed ?? []).forEach((run, rank) => {
+    annotations.push({
+      index: run.startIndex,
+      annotation: {
+        style: "run",
+        name: `${annotationStyles.run.label} ${rank + 1}`,
+        description: `${(run.distance / 1000).toFixed(2)} km in ${
+          Math.round(run.durationSeconds)
+        } s, max ${run.maxSpeed} km/h`,
+        point: points[run.startIndex],
+        speed: run.avgSpeed,
+      },
+    });
+  });
+
+  return annotations
+    .filter(({ annotation }) => annotation.point)
+    .sort((a, b) => a.index - b.index)
+    .map(({ annotation }) => annotation);
+}
+
+/** The points of every track segment, gaps are not drawn as lines */
+export function splitSegments(points: TrackPoint[]): TrackPoint[][] {
+  const segments: TrackPoint[][] = [];
+  points.forEach((point, i) => {
+    if (i === 0 || isSegmentBreak(points[i - 1], point)) segments.push([]);
+    segments[segments.length - 1].push(point);
+  });
+  return segments;
+}
+
+/** Speed of a point in km/h with one decimal, as in the statistics */
+export function toKmh(point: TrackPoint): number | undefined {
+  return point.speed === undefined
+    ? undefined
+    : Math.round(point.speed * 36) / 10;
+}
@@ -0,0 +1,73 @@
+import { Session } from "../util/types.ts";
+import {
+  Annotation,
+  annotationStyles,
+  Exporter,
+  getAnnotations,
+  splitSegments,
+} from "./Exporter.ts";
+
+const toFeature = (annotation: Annotation) => ({
+  type: "Feature",
+  geometry: {
+    type: "Point",
+    coordinates: [annotation.point.lon, annotation.point.lat],
+  },
+  properties: {
+    annotation: annotation.style,
+    name: annotation.name,
+    description: annotation.description,
+    time: annotation.point.time,
+    speed: annotation.speed, // km/h
+    "marker-color": annotationStyles[annotation.style].color,
+  },
+});
+
+/**
+ * A FeatureCollection with the track as MultiLineString, one line per track
+ * segment, and the per coordinate values in `coordinateProperties` like the
+ * importer reads them (speeds in m/s). Maneuvers and top runs are Point
+ * features marked by an `annotation` property and styled with simplestyle
+ * colors.
+ */
+export default class ExporterGeoJson implements Exporter {
+  name = "geojson";
+  contentType = "application/geo+json";
+  extension = "geojson";
+
+  export(session: Session): string {
+    const { metadata } = session;
+    const segments = splitSegments(session.points);
+    const hasHeartRate = session.points.some((p) => p.hr !== undefined);
+    const track = {
+      type: "Feature",
+      geometry: {
+        type: "MultiLineString",
+        coordinates: segments.map((points) =>
+          points.map((p) =>
+            p.ele === undefined ? [p.lon, p.lat] : [p.lon, p.lat, p.ele]
+          )
+        ),
+      },
+      properties: {
+        name: metadata.name,
+        type: metadata.type,
+        time: metadata.time,
+        coordinateProperties: {
+          coordTimes: segments.map((points) => points.map((p) => p.time)),
+          speeds: segments.map((points) => points.map((p) => p.speed ?? null)),
+          ...(hasHeartRate && {
+            heartRates: segments.map((points) =>
+              points.map((p) => p.hr ?? null)
+            ),
+          }),
+        },
+      },
+    };
+
+    return JSON.stringify({
+      type: "FeatureCollection",
+      features: [track, ...getAnnotations(session).map(toFeature)],
+    });
+  }
+}
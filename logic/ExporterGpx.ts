@@ -0,0 +1,90 @@
+import { XMLBuilder } from "fast-xml-parser";
+import { Session, TrackPoint } from "../util/types.ts";
+import {
+  Annotation,
+  annotationStyles,
+  Exporter,
+  getAnnotations,
+  splitSegments,
+} from "./Exporter.ts";
+
+const TRACKPOINT_EXTENSION_V2 =
+  "http://www.garmin.com/xmlschemas/TrackPointExtension/v2";
+
+const builder = new XMLBuilder({
+  ignoreAttributes: false,
+  format: true,
+  suppressEmptyNode: true,
+});
+
+/** Speed (m/s), heart rate and course in the Garmin TrackPointExtension */
+const toExtensions = (
+  { hr, speed, course }: Pick<TrackPoint, "hr" | "speed" | "course">,
+) => {
+  if (hr === undefined && speed === undefined && course === undefined) {
+    return undefined;
+  }
+  return {
+    "gpxtpx:TrackPointExtension": {
+      "gpxtpx:hr": hr,
+      "gpxtpx:speed": speed === undefined
+        ? undefined
+        : Math.round(speed * 100) / 100,
+      "gpxtpx:course": course,
+    },
+  };
+};
+
+const toWaypoint = (annotation: Annotation) => ({
+  "@_lat": annotation.point.lat,
+  "@_lon": annotation.point.lon,
+  ele: annotation.point.ele,
+  time: annotation.point.time,
+  name: annotation.name,
+  desc: `${annotation.description}, avg ${annotation.speed} km/h`,
+  sym: annotationStyles[annotation.style].symbol,
+  type: annotation.style,
+  extensions: toExtensions({ speed: annotation.speed / 3.6 }),
+});
+
+const toTrackPoint = (point: TrackPoint) => ({
+  "@_lat": point.lat,
+  "@_lon": point.lon,
+  ele: point.ele,
+  time: point.time,
+  extensions: toExtensions(point),
+});
+
+/**
+ * GPX 1.1 with one track segment per recorded segment. Maneuvers and top runs
+ * are waypoints, their style is the `type` and a Garmin symbol. The speed of
+ * points and waypoints is in the TrackPointExtension, like the importer reads
+ * it.
+ */
+export default class ExporterGpx implements Exporter {
+  name = "gpx";
+  contentType = "application/gpx+xml";
+  extension = "gpx";
+
+  export(session: Session): string {
+    const { metadata } = session;
+    return builder.build({
+      "?xml": { "@_version": "1.0", "@_encoding": "UTF-8" },
+      gpx: {
+        "@_version": "1.1",
+        "@_creator": "wingfoil-api",
+        "@_xmlns": "http://www.topografix.com/GPX/1/1",
+        "@_xmlns:gpxtpx": TRACKPOINT_EXTENSION_V2,
+        metadata: { name: metadata.name, time: metadata.time || undefined },
+        wpt: getAnnotations(session).map(toWaypoint),
+        trk: {
+          name: metadata.name,
+          type: metadata.type,
+          trkseg: splitSegments(session.points).map((points) => ({
+            trkpt: points.map(toTrackPoint),
+          })),
+        },
+      },
+    });
+  }
+}
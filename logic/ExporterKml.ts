@@ -0,0 +1,115 @@
+import { XMLBuilder } from "fast-xml-parser";
+import { Session, TrackPoint } from "../util/types.ts";
+import {
+  Annotation,
+  AnnotationStyle,
+  annotationStyles,
+  Exporter,
+  getAnnotations,
+  splitSegments,
+  toKmh,
+} from "./Exporter.ts";
+
+const ICON = "https://maps.google.com/mapfiles/kml/paddle/wht-blank.png";
+const TRACK_COLOR = "#0288d1";
+
+const builder = new XMLBuilder({
+  ignoreAttributes: false,
+  format: true,
+  suppressEmptyNode: true,
+});
+
+/** KML colors are aabbggrr */
+const toKmlColor = (hex: string) =>
+  "ff" + hex.slice(5, 7) + hex.slice(3, 5) + hex.slice(1, 3);
+
+const toStyle = ([id, { color }]: [string, { color: string }]) => ({
+  "@_id": id,
+  IconStyle: { color: toKmlColor(color), Icon: { href: ICON } },
+});
+
+const toCoord = (point: TrackPoint) =>
+  [point.lon, point.lat, point.ele ?? 0].join(" ");
+
+/** A gx:Track with the speed in km/h as extended data per point */
+const toTrack = (points: TrackPoint[]) => ({
+  when: points.map((point) => point.time),
+  "gx:coord": points.map(toCoord),
+  ExtendedData: {
+    SchemaData: {
+      "@_schemaUrl": "#trackData",
+      "gx:SimpleArrayData": {
+        "@_name": "speed",
+        "gx:value": points.map((point) => toKmh(point) ?? ""),
+      },
+    },
+  },
+});
+
+const toPlacemark = (annotation: Annotation) => ({
+  name: annotation.name,
+  description: annotation.description,
+  TimeStamp: { when: annotation.point.time },
+  styleUrl: `#${annotation.style}`,
+  ExtendedData: {
+    Data: { "@_name": "speed", value: annotation.speed },
+  },
+  Point: {
+    coordinates: `${annotation.point.lon},${annotation.point.lat}`,
+  },
+});
+
+/**
+ * KML for Google Earth: the track as gx:MultiTrack, so the speed shows in
+ * the elevation profile, and one folder of placemarks for maneuvers and top
+ * runs with a colored icon per style.
+ */
+export default class ExporterKml implements Exporter {
+  name = "kml";
+  contentType = "application/vnd.google-earth.kml+xml";
+  extension = "kml";
+
+  export(session: Session): string {
+    const { metadata } = session;
+    const styles = Object.entries(annotationStyles) as [
+      AnnotationStyle,
+      { color: string },
+    ][];
+    return builder.build({
+      "?xml": { "@_version": "1.0", "@_encoding": "UTF-8" },
+      kml: {
+        "@_xmlns": "http://www.opengis.net/kml/2.2",
+        "@_xmlns:gx": "http://www.google.com/kml/ext/2.2",
+        Document: {
+          name: metadata.name,
+          Style: [
+            ...styles.map(toStyle),
+            {
+              "@_id": "track",
+              LineStyle: { color: toKmlColor(TRACK_COLOR), width: 3 },
+            },
+          ],
+          Schema: {
+            "@_id": "trackData",
+            "gx:SimpleArrayField": {
+              "@_name": "speed",
+              "@_type": "float",
+              displayName: "Speed (km/h)",
+            },
+          },
+          Placemark: {
+            name: metadata.name,
+            styleUrl: "#track",
+            "gx:MultiTrack": {
+              "gx:Track": splitSegments(session.points).map(toTrack),
+            },
+          },
+          Folder: {
+            name: "Maneuvers and top runs",
+            Placemark: getAnnotations(session).map(toPlacemark),
+          },
+        },
+      },
+    });
+  }
+}
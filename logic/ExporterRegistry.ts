@@ -0,0 +1,40 @@
+import { Exporter } from "./Exporter.ts";
+import ExporterGeoJson from "./ExporterGeoJson.ts";
+import ExporterGpx from "./ExporterGpx.ts";
+import ExporterKml from "./ExporterKml.ts";
+import { ValidationError } from "../util/errors.ts";
+
+/**
+ * Keeps the known session exporters, picked by `?format=`. GPX is the
+ * default, it opens in the most tools.
+ */
+export class ExporterRegistry {
+  private static exporters: Exporter[] = [
+    new ExporterGpx(),
+    new ExporterKml(),
+    new ExporterGeoJson(),
+  ];
+
+  static register(exporter: Exporter): void {
+    this.exporters = [
+      exporter,
+      ...this.exporters.filter((e) => e.name !== exporter.name),
+    ];
+  }
+
+  static getFormats(): string[] {
+    return this.exporters.map((e) => e.name);
+  }
+
+  static find(format = "gpx"): Exporter {
+    const exporter = this.exporters.find((e) => e.name === format);
+    if (!exporter) {
+      throw new ValidationError(
+        `Unknown format "${format}", expected one of ${
+          this.getFormats().join(", ")
+        }`,
+      );
+    }
+    return exporter;
+  }
+}
@@ -0,0 +1,185 @@
+import { TrackPoint } from "../util/types.ts";
+
+/** An element as parsed by fast-xml-parser, attributes included */
+type XmlElement = Record<string, unknown>;
+
+const isElement = (value: unknown): value is XmlElement =>
+  !!value && typeof value === "object";
+
+/**
+ * Describes one vendor specific GPX extension schema and how its values end
+ * up on a TrackPoint. Schemas are matched by namespace URI, so the prefix a
+ * vendor picks (ns3, gpxtpx, ...) does not matter.
+ */
+export interface ExtensionSchema {
+  name: string;
+  /** Namespace URIs handled by this schema ("" for unqualified elements) */
+  namespaces: string[];
+  /** Prefixes assumed when a file uses them without declaring the namespace */
+  defaultPrefixes: string[];
+  /**
+   * Copy the values of the schema's elements onto the point.
+   * `read` resolves a local element name within the schema's namespace.
+   */
+  map(
+    read: (element: unknown, localName: string) => unknown,
+    ext: XmlElement,
+    point: TrackPoint,
+  ): void;
+}
+
+const TRACKPOINT_EXTENSION_V1 =
+  "http://www.garmin.com/xmlschemas/TrackPointExtension/v1";
+const TRACKPOINT_EXTENSION_V2 =
+  "http://www.garmin.com/xmlschemas/TrackPointExtension/v2";
+const CLUETRUST_GPXDATA = "http://www.cluetrust.com/XML/GPXDATA/1/0";
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const num = typeof value === "number" ? value : parseFloat(String(value));
+  return isFinite(num) ? num : undefined;
+};
+
+/**
+ * Garmin TrackPointExtension v1 (hr, cad, temperatures) and v2 (adds speed
+ * and course). Used by Garmin Connect and the Suunto app.
+ */
+export const trackPointExtensionSchema: ExtensionSchema = {
+  name: "TrackPointExtension",
+  namespaces: [TRACKPOINT_EXTENSION_V1, TRACKPOINT_EXTENSION_V2],
+  defaultPrefixes: ["gpxtpx", "ns3"],
+  map(read, ext, point) {
+    const container = read(ext, "TrackPointExtension");
+    if (!container) return;
+
+    point.hr ??= toNumber(read(container, "hr"));
+    point.speed ??= toNumber(read(container, "speed"));
+    point.course ??= toNumber(read(container, "course"));
+  },
+};
+
+/**
+ * ClueTrust GPXDATA, written by COROS and a couple of older tools.
+ */
+export const gpxDataSchema: ExtensionSchema = {
+  name: "gpxdata",
+  namespaces: [CLUETRUST_GPXDATA],
+  defaultPrefixes: ["gpxdata"],
+  map(read, ext, point) {
+    point.hr ??= toNumber(read(ext, "hr"));
+    point.distance ??= toNumber(read(ext, "distance"));
+    point.speed ??= toNumber(read(ext, "speed"));
+    point.ele ??= toNumber(read(ext, "altitude"));
+  },
+};
+
+/**
+ * Unqualified speed/course elements as exported by Suunto (Movescount,
+ * Ambit) directly below <extensions>.
+ */
+export const suuntoSchema: ExtensionSchema = {
+  name: "suunto",
+  namespaces: [""],
+  defaultPrefixes: [],
+  map(read, ext, point) {
+    point.speed ??= toNumber(read(ext, "speed"));
+    point.course ??= toNumber(read(ext, "course"));
+    point.hr ??= toNumber(read(ext, "hr"));
+    point.ele ??= toNumber(read(ext, "altitude"));
+  },
+};
+
+const registry: ExtensionSchema[] = [
+  trackPointExtensionSchema,
+  gpxDataSchema,
+  suuntoSchema,
+];
+
+/**
+ * Maps the <extensions> block of a track point onto TrackPoint fields using
+ * the registered schemas and the namespace declarations of the document.
+ */
+export class ExtensionMapper {
+  /** prefix → namespace URI, as declared on the <gpx> root element */
+  private namespaces: Map<string, string>;
+
+  constructor(namespaces: Map<string, string>) {
+    this.namespaces = namespaces;
+  }
+
+  /**
+   * Register an additional extension schema. Later registrations win when
+   * two schemas write the same field, because values are never overwritten.
+   */
+  static register(schema: ExtensionSchema): void {
+    registry.unshift(schema);
+  }
+
+  static getSchemas(): ExtensionSchema[] {
+    return [...registry];
+  }
+
+  /**
+   * Build a mapper from the parsed <gpx> element (attributes included).
+   */
+  static fromDocument(gpx: unknown): ExtensionMapper {
+    const namespaces = new Map<string, string>();
+    for (const [key, value] of Object.entries(isElement(gpx) ? gpx : {})) {
+      if (key === "xmlns") {
+        namespaces.set("", String(value));
+      } else if (key.startsWith("xmlns:")) {
+        namespaces.set(key.substring("xmlns:".length), String(value));
+      }
+    }
+    return new ExtensionMapper(namespaces);
+  }
+
+  apply(extensions: unknown, point: TrackPoint): TrackPoint {
+    if (!isElement(extensions)) return point;
+
+    for (const schema of registry) {
+      const prefixes = this.getPrefixes(schema);
+      if (prefixes.length === 0) continue;
+
+      const read = (element: unknown, localName: string): unknown => {
+        if (!isElement(element)) return undefined;
+        for (const prefix of prefixes) {
+          const key = prefix === "" ? localName : `${prefix}:${localName}`;
+          if (element[key] !== undefined) return element[key];
+        }
+        return undefined;
+      };
+
+      schema.map(read, extensions, point);
+    }
+
+    return point;
+  }
+
+  /**
+   * Prefixes under which the schema's elements can appear in this document.
+   */
+  private getPrefixes(schema: ExtensionSchema): string[] {
+    const prefixes: string[] = [];
+
+    for (const [prefix, uri] of this.namespaces) {
+      // The default namespace is GPX itself, unprefixed extension elements
+      // are only handled by schemas that ask for the empty namespace.
+      if (prefix !== "" && schema.namespaces.includes(uri)) {
+        prefixes.push(prefix);
+      }
+    }
+
+    if (schema.namespaces.includes("")) {
+      prefixes.push("");
+    }
+
+    for (const prefix of schema.defaultPrefixes) {
+      if (!this.namespaces.has(prefix) && !prefixes.includes(prefix)) {
+        prefixes.push(prefix);
+      }
+    }
+
+    return prefixes;
+  }
+}
@@ -0,0 +1,454 @@
+import { SessionMetadata, TrackPoint } from "../util/types.ts";
+import { Parser } from "./Parser.ts";
+import { ParseError } from "../util/errors.ts";
+
+/** Seconds between the unix epoch and the FIT epoch (1989-12-31T00:00:00Z) */
+const FIT_EPOCH_OFFSET = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const MESG_FILE_ID = 0;
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+
+type FieldDefinition = {
+  num: number;
+  size: number;
+  baseType: number;
+};
+
+type MessageDefinition = {
+  globalMessage: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+};
+
+/** Decoded message, keyed by field definition number */
+export type FitMessage = Record<number, number | number[] | string>;
+
+export type FitFile = {
+  fileId: FitMessage[];
+  sessions: FitMessage[];
+  laps: FitMessage[];
+  records: FitMessage[];
+};
+
+/** Subset of the FIT "sport" enum relevant for us */
+const SPORTS: Record<number, string> = {
+  0: "generic",
+  1: "running",
+  2: "cycling",
+  5: "swimming",
+  19: "paddling",
+  23: "boating",
+  32: "sailing",
+  37: "stand_up_paddleboarding",
+  38: "surfing",
+  39: "wakeboarding",
+  40: "water_skiing",
+  41: "kayaking",
+  43: "windsurfing",
+  44: "kitesurfing",
+};
+
+const MANUFACTURERS: Record<number, string> = {
+  1: "Garmin",
+  23: "Suunto",
+  32: "Wahoo",
+  89: "Tacx",
+  260: "Zwift",
+  265: "Strava",
+  294: "COROS",
+};
+
+/**
+ * Decoder for binary FIT activity files (Garmin, COROS, Suunto, ...).
+ * Only record, lap, session and file_id messages are kept, everything else
+ * is skipped using its definition message.
+ */
+export class FitDecoder {
+  /**
+   * Check the ".FIT" signature in the file header
+   */
+  static isFit(data: Uint8Array): boolean {
+    if (data.length < 12) return false;
+    const headerSize = data[0];
+    return (
+      (headerSize === 12 || headerSize === 14) &&
+      data[8] === 0x2e && // .
+      data[9] === 0x46 && // F
+      data[10] === 0x49 && // I
+      data[11] === 0x54 // T
+    );
+  }
+
+  static decode(data: Uint8Array): FitFile {
+    if (!this.isFit(data)) {
+      throw new ParseError("Not a FIT file");
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const headerSize = data[0];
+    const dataSize = view.getUint32(4, true);
+    const end = Math.min(headerSize + dataSize, data.length);
+
+    const result: FitFile = { fileId: [], sessions: [], laps: [], records: [] };
+    const definitions = new Map<number, MessageDefinition>();
+    let lastTimestamp = 0;
+    let offset = headerSize;
+
+    while (offset < end) {
+      const recordHeader = data[offset++];
+
+      if (recordHeader & 0x80) {
+        // Compressed timestamp header: data message with a 5 bit time offset
+        const localType = (recordHeader >> 5) & 0x03;
+        const timeOffset = recordHeader & 0x1f;
+        lastTimestamp += (timeOffset - (lastTimestamp & 0x1f)) & 0x1f;
+
+        const definition = this.getDefinition(definitions, localType);
+        const message = this.readMessage(view, offset, definition);
+        offset += this.getMessageSize(definition);
+        message[253] ??= lastTimestamp;
+        this.store(result, definition.globalMessage, message);
+        continue;
+      }
+
+      const localType = recordHeader & 0x0f;
+
+      if (recordHeader & 0x40) {
+        const hasDeveloperData = (recordHeader & 0x20) !== 0;
+        const littleEndian = data[offset + 1] === 0;
+        const globalMessage = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = data[offset + 4];
+        offset += 5;
+
+        const fields: FieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++) {
+          fields.push({
+            num: data[offset],
+            size: data[offset + 1],
+            baseType: data[offset + 2],
+          });
+          offset += 3;
+        }
+
+        let developerDataSize = 0;
+        if (hasDeveloperData) {
+          const developerFieldCount = data[offset++];
+          for (let i = 0; i < developerFieldCount; i++) {
+            developerDataSize += data[offset + 1];
+            offset += 3;
+          }
+        }
+
+        definitions.set(localType, {
+          globalMessage,
+          littleEndian,
+          fields,
+          developerDataSize,
+        });
+      } else {
+        const definition = this.getDefinition(definitions, localType);
+        const message = this.readMessage(view, offset, definition);
+        offset += this.getMessageSize(definition);
+
+        if (typeof message[253] === "number") {
+          lastTimestamp = message[253];
+        }
+        this.store(result, definition.globalMessage, message);
+      }
+    }
+
+    return result;
+  }
+
+  static getPointsFromFit(fit: FitFile): TrackPoint[] {
+    const points: TrackPoint[] = [];
+
+    for (const record of fit.records) {
+      const lat = record[0];
+      const lon = record[1];
+      const timestamp = record[253];
+      if (
+        typeof lat !== "number" ||
+        typeof lon !== "number" ||
+        typeof timestamp !== "number"
+      ) {
+        continue; // Records without a GPS fix
+      }
+
+      const point: TrackPoint = {
+        lat: lat * SEMICIRCLES_TO_DEGREES,
+        lon: lon * SEMICIRCLES_TO_DEGREES,
+        time: this.toIsoString(timestamp),
+      };
+
+      const speed = this.scaled(record[73] ?? record[6], 1000);
+      if (speed !== undefined) point.speed = speed;
+
+      const ele = this.scaled(record[78] ?? record[2], 5, 500);
+      if (ele !== undefined) point.ele = ele;
+
+      const distance = this.scaled(record[5], 100);
+      if (distance !== undefined) point.distance = distance;
+
+      if (typeof record[3] === "number") point.hr = record[3];
+
+      points.push(point);
+    }
+
+    return Parser.calculateMissingSpeed(points);
+  }
+
+  static async getMetadata(fit: FitFile): Promise<SessionMetadata> {
+    const session = fit.sessions[0] ?? {};
+    const fileId = fit.fileId[0] ?? {};
+
+    const sportId = session[5];
+    const sport = typeof sportId === "number"
+      ? SPORTS[sportId] ?? `sport_${sportId}`
+      : "generic";
+
+    const startTimestamp = session[2] ?? fileId[4] ?? fit.records[0]?.[253];
+    const time = typeof startTimestamp === "number"
+      ? this.toIsoString(startTimestamp)
+      : "";
+
+    const manufacturerId = fileId[1];
+    const manufacturer = typeof manufacturerId === "number"
+      ? MANUFACTURERS[manufacturerId] ?? `manufacturer_${manufacturerId}`
+      : undefined;
+    const product = fileId[2];
+
+    const firstRecord = fit.records.find((r) =>
+      typeof r[0] === "number" && typeof r[1] === "number"
+    );
+    const location = firstRecord
+      ? await Parser.getLocationMetadata({
+        lat: (firstRecord[0] as number) * SEMICIRCLES_TO_DEGREES,
+        lon: (firstRecord[1] as number) * SEMICIRCLES_TO_DEGREES,
+        time,
+      })
+      : {};
+
+    return {
+      name: `${sport} ${time.substring(0, 10)}`.trim(),
+      type: sport,
+      time,
+      device: manufacturer
+        ? `${manufacturer}${typeof product === "number" ? ` ${product}` : ""}`
+        : undefined,
+      ...location,
+    };
+  }
+
+  private static getDefinition(
+    definitions: Map<number, MessageDefinition>,
+    localType: number,
+  ): MessageDefinition {
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new ParseError(
+        `Missing definition for local message ${localType}`,
+      );
+    }
+    return definition;
+  }
+
+  private static getMessageSize(definition: MessageDefinition): number {
+    return definition.fields.reduce((sum, f) => sum + f.size, 0) +
+      definition.developerDataSize;
+  }
+
+  private static store(
+    result: FitFile,
+    globalMessage: number,
+    message: FitMessage,
+  ): void {
+    switch (globalMessage) {
+      case MESG_FILE_ID:
+        result.fileId.push(message);
+        break;
+      case MESG_SESSION:
+        result.sessions.push(message);
+        break;
+      case MESG_LAP:
+        result.laps.push(message);
+        break;
+      case MESG_RECORD:
+        result.records.push(message);
+        break;
+    }
+  }
+
+  private static readMessage(
+    view: DataView,
+    start: number,
+    definition: MessageDefinition,
+  ): FitMessage {
+    const message: FitMessage = {};
+    let offset = start;
+
+    for (const field of definition.fields) {
+      const value = this.readField(
+        view,
+        offset,
+        field,
+        definition.littleEndian,
+      );
+      if (value !== undefined) {
+        message[field.num] = value;
+      }
+      offset += field.size;
+    }
+
+    return message;
+  }
+
+  /**
+   * Read one field; invalid values (as defined per base type) are dropped
+   */
+  private static readField(
+    view: DataView,
+    offset: number,
+    field: FieldDefinition,
+    littleEndian: boolean,
+  ): number | number[] | string | undefined {
+    const baseType = field.baseType & 0x1f;
+
+    if (baseType === 0x07) {
+      const bytes = new Uint8Array(
+        view.buffer,
+        view.byteOffset + offset,
+        field.size,
+      );
+      const nul = bytes.indexOf(0);
+      const text = new TextDecoder().decode(
+        nul === -1 ? bytes : bytes.subarray(0, nul),
+      );
+      return text.length > 0 ? text : undefined;
+    }
+
+    const size = BASE_TYPE_SIZES[baseType] ?? 1;
+    const count = Math.floor(field.size / size);
+    const values: number[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const value = readBaseType(
+        view,
+        offset + i * size,
+        baseType,
+        littleEndian,
+      );
+      if (value !== undefined) values.push(value);
+    }
+
+    if (values.length === 0) return undefined;
+    return count === 1 ? values[0] : values;
+  }
+
+  private static scaled(
+    value: number | number[] | string | undefined,
+    scale: number,
+    offset = 0,
+  ): number | undefined {
+    return typeof value === "number" ? value / scale - offset : undefined;
+  }
+
+  private static toIsoString(fitTimestamp: number): string {
+    return new Date((fitTimestamp + FIT_EPOCH_OFFSET) * 1000).toISOString();
+  }
+}
+
+/** Size in bytes per base type number (lower 5 bits of the base type) */
+const BASE_TYPE_SIZES: Record<number, number> = {
+  0x00: 1, // enum
+  0x01: 1, // sint8
+  0x02: 1, // uint8
+  0x03: 2, // sint16
+  0x04: 2, // uint16
+  0x05: 4, // sint32
+  0x06: 4, // uint32
+  0x07: 1, // string
+  0x08: 4, // float32
+  0x09: 8, // float64
+  0x0a: 1, // uint8z
+  0x0b: 2, // uint16z
+  0x0c: 4, // uint32z
+  0x0d: 1, // byte
+  0x0e: 8, // sint64
+  0x0f: 8, // uint64
+  0x10: 8, // uint64z
+};
+
+function readBaseType(
+  view: DataView,
+  offset: number,
+  baseType: number,
+  littleEndian: boolean,
+): number | undefined {
+  let value: number;
+  let invalid: number;
+
+  switch (baseType) {
+    case 0x00:
+    case 0x02:
+    case 0x0d:
+      value = view.getUint8(offset);
+      invalid = 0xff;
+      break;
+    case 0x01:
+      value = view.getInt8(offset);
+      invalid = 0x7f;
+      break;
+    case 0x03:
+      value = view.getInt16(offset, littleEndian);
+      invalid = 0x7fff;
+      break;
+    case 0x04:
+      value = view.getUint16(offset, littleEndian);
+      invalid = 0xffff;
+      break;
+    case 0x05:
+      value = view.getInt32(offset, littleEndian);
+      invalid = 0x7fffffff;
+      break;
+    case 0x06:
+      value = view.getUint32(offset, littleEndian);
+      invalid = 0xffffffff;
+      break;
+    case 0x08:
+      value = view.getFloat32(offset, littleEndian);
+      return isFinite(value) ? value : undefined;
+    case 0x09:
+      value = view.getFloat64(offset, littleEndian);
+      return isFinite(value) ? value : undefined;
+    case 0x0a:
+      value = view.getUint8(offset);
+      invalid = 0;
+      break;
+    case 0x0b:
+      value = view.getUint16(offset, littleEndian);
+      invalid = 0;
+      break;
+    case 0x0c:
+      value = view.getUint32(offset, littleEndian);
+      invalid = 0;
+      break;
+    case 0x0e:
+      value = Number(view.getBigInt64(offset, littleEndian));
+      invalid = Number(0x7fffffffffffffffn);
+      break;
+    case 0x0f:
+    case 0x10:
+      value = Number(view.getBigUint64(offset, littleEndian));
+      invalid = baseType === 0x10 ? 0 : Number(0xffffffffffffffffn);
+      break;
+    default:
+      return undefined;
+  }
+
+  return value === invalid ? undefined : value;
+}
@@ -0,0 +1,11 @@
+import { Group } from "../util/types.ts";
+
+/** Groups (clubs) with their members and leaderboards */
+export default interface GroupStore {
+  list(): Promise<Group[]>;
+  get(id: string): Promise<Group | null>;
+  /** Insert or replace the group with the same id */
+  save(group: Group): Promise<void>;
+  /** Returns false if there was no such group */
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,39 @@
+import { Group } from "../util/types.ts";
+import GroupStore from "./GroupStore.ts";
+
+/** All groups in one JSON file, for local development */
+export default class GroupStoreFile implements GroupStore {
+  constructor(private path: string) {}
+
+  async list(): Promise<Group[]> {
+    try {
+      return JSON.parse(await Deno.readTextFile(this.path));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return [];
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<Group | null> {
+    return (await this.list()).find((group) => group.id === id) ?? null;
+  }
+
+  async save(group: Group): Promise<void> {
+    const groups = (await this.list()).filter((g) => g.id !== group.id);
+    await this.write([...groups, group]);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const groups = await this.list();
+    const remaining = groups.filter((group) => group.id !== id);
+    if (remaining.length === groups.length) return false;
+    await this.write(remaining);
+    return true;
+  }
+
+  private async write(groups: Group[]): Promise<void> {
+    const directory = this.path.slice(0, this.path.lastIndexOf("/"));
+    if (directory) await Deno.mkdir(directory, { recursive: true });
+    await Deno.writeTextFile(this.path, JSON.stringify(groups));
+  }
+}
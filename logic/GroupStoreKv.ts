@@ -0,0 +1,30 @@
+import { Group } from "../util/types.ts";
+import GroupStore from "./GroupStore.ts";
+
+/** Groups in Deno KV under ["groups", id] */
+export default class GroupStoreKv implements GroupStore {
+  constructor(private kv: Deno.Kv) {}
+
+  async list(): Promise<Group[]> {
+    const groups: Group[] = [];
+    for await (const entry of this.kv.list<Group>({ prefix: ["groups"] })) {
+      groups.push(entry.value);
+    }
+    return groups;
+  }
+
+  async get(id: string): Promise<Group | null> {
+    return (await this.kv.get<Group>(["groups", id])).value;
+  }
+
+  async save(group: Group): Promise<void> {
+    await this.kv.set(["groups", group.id], group);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const key = ["groups", id];
+    if (!(await this.kv.get(key)).value) return false;
+    await this.kv.delete(key);
+    return true;
+  }
+}
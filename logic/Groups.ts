@@ -0,0 +1,44 @@
+import { Group } from "../util/types.ts";
+import { ValidationError } from "../util/errors.ts";
+import { Auth } from "./Auth.ts";
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Groups (clubs) of users. The user who creates a group owns it, others
+ * join with its invite code.
+ */
+export class Groups {
+  static create(body: unknown, ownerId: string): Group {
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      throw new ValidationError("Expected a JSON object");
+    }
+    const { name } = body as Record<string, unknown>;
+    if (
+      typeof name !== "string" || !name.trim() ||
+      name.length > MAX_NAME_LENGTH
+    ) {
+      throw new ValidationError(
+        `name must be a text of up to ${MAX_NAME_LENGTH} characters`,
+      );
+    }
+    return {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      ownerId,
+      memberIds: [ownerId],
+      inviteCode: Auth.createShareToken(),
+      leaderboards: [],
+      disqualified: [],
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  static isMember(group: Group, userId: string | null): boolean {
+    return userId !== null && group.memberIds.includes(userId);
+  }
+
+  static isOwner(group: Group, userId: string | null): boolean {
+    return userId !== null && group.ownerId === userId;
+  }
+}
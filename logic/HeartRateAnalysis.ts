@@ -0,0 +1,253 @@
+import {
+  HeartRateActivity,
+  HeartRateConfig,
+  HeartRateStatistics,
+  HeartRateZone,
+  JibeInfo,
+  RunInfo,
+  Segment,
+  TrackPoint,
+} from "../util/types.ts";
+import { isSegmentBreak } from "../util/utils.ts";
+import { ValidationError } from "../util/errors.ts";
+
+/** Zones at 50, 60, 70, 80 and 90 % of the max heart rate by default */
+const DEFAULT_ZONE_SHARES = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+/** Longer steps are pauses of the recording and count this long at most */
+const MAX_STEP_SECONDS = 30;
+
+/** The peak after a crash is searched this long after the crash jibe */
+const CRASH_PEAK_SECONDS = 30;
+const RECOVERY_SECONDS = 60;
+
+/** Banister's weighting factors, the values for men are the common default */
+const TRIMP_A = 0.64;
+const TRIMP_B = 1.92;
+
+const LIMITS: [keyof HeartRateConfig, number, number][] = [
+  ["maxHeartRate", 100, 240],
+  ["restingHeartRate", 30, 120],
+];
+
+type Step = { hr: number; seconds: number; speed: number };
+
+const hasHeartRate = (point: TrackPoint) =>
+  point.hr !== undefined && point.hr > 0;
+
+const toMs = (point: TrackPoint) => new Date(point.time).getTime();
+
+const round = (value: number) => Math.round(value);
+
+/**
+ * Heart rate of the recording: zones, active vs inactive, recovery after
+ * crash jibes and the training load. The heart rate of a step between two
+ * points is the one of its first point, like the speed of the timeline.
+ */
+export class HeartRateAnalysis {
+  static readonly defaults: HeartRateConfig = {
+    maxHeartRate: 190,
+    restingHeartRate: 60,
+    zones: [],
+  };
+
+  /**
+   * The heart rate section, undefined without heart rate data. Jibes, runs
+   * and segments get their average heart rate, crash jibes their recovery.
+   */
+  static compute(
+    points: TrackPoint[],
+    lists: { jibes: JibeInfo[]; runs: RunInfo[]; segments: Segment[] },
+    flyingSpeedKmh: number,
+    changes: Partial<HeartRateConfig> = {},
+  ): HeartRateStatistics | undefined {
+    if (!points.some(hasHeartRate)) return undefined;
+
+    const config = { ...this.defaults, ...changes };
+    const bounds = config.zones.length > 0
+      ? [...config.zones].sort((a, b) => a - b)
+      : DEFAULT_ZONE_SHARES.map((share) => round(share * config.maxHeartRate));
+    const steps = this.getSteps(points, 0, points.length - 1);
+    const flyingSpeedMs = flyingSpeedKmh / 3.6;
+
+    for (const item of [...lists.jibes, ...lists.runs, ...lists.segments]) {
+      const avg = this.getAverage(
+        this.getSteps(points, item.startIndex, item.endIndex),
+      );
+      if (avg !== null) item.avgHeartRate = avg;
+    }
+    const recoveries = lists.jibes
+      .filter((jibe) => jibe.type === "crash")
+      .map((jibe) => this.getRecovery(points, jibe))
+      .filter((recovery) => recovery !== null);
+    for (const { jibe, drop } of recoveries) jibe.heartRateRecovery = drop;
+
+    const totalTime = steps.reduce((sum, step) => sum + step.seconds, 0);
+    const zones: HeartRateZone[] = bounds.map((min, i) => {
+      const max = bounds[i + 1] ?? null;
+      const time = steps
+        .filter((step) => step.hr >= min && (max === null || step.hr < max))
+        .reduce((sum, step) => sum + step.seconds, 0);
+      return {
+        zone: i + 1,
+        min,
+        max,
+        time: round(time),
+        percentage: totalTime > 0
+          ? parseFloat(((time / totalTime) * 100).toFixed(1))
+          : 0,
+      };
+    });
+
+    const toActivity = (selected: Step[]): HeartRateActivity => ({
+      avg: this.getAverage(selected),
+      time: round(selected.reduce((sum, step) => sum + step.seconds, 0)),
+    });
+
+    return {
+      avg: this.getAverage(steps) ??
+        round(this.mean(points.filter(hasHeartRate).map((p) => p.hr!))),
+      // Spreading 100k+ values into Math.max overflows the call stack
+      max: points.reduce(
+        (max, point) => hasHeartRate(point) ? Math.max(max, point.hr!) : max,
+        0,
+      ),
+      zones,
+      active: toActivity(steps.filter((step) => step.speed >= flyingSpeedMs)),
+      inactive: toActivity(steps.filter((step) => step.speed < flyingSpeedMs)),
+      crashRecovery: recoveries.length > 0
+        ? {
+          count: recoveries.length,
+          avgPeak: round(this.mean(recoveries.map((r) => r.peak))),
+          avgDrop: round(this.mean(recoveries.map((r) => r.drop))),
+        }
+        : null,
+      trimp: round(this.getTrimp(steps, config)),
+      config,
+    };
+  }
+
+  /** Heart rate options from query or JSON values */
+  static parse(values: Record<string, unknown>): Partial<HeartRateConfig> {
+    const config: Partial<HeartRateConfig> = {};
+
+    for (const [key, min, max] of LIMITS) {
+      if (values[key] === undefined) continue;
+      const value = values[key] === "" ? NaN : Number(values[key]);
+      if (!(value >= min && value <= max)) {
+        throw new ValidationError(`${key} must be between ${min} and ${max}`);
+      }
+      (config as Record<string, number>)[key] = value;
+    }
+    if (
+      config.maxHeartRate !== undefined &&
+      config.restingHeartRate !== undefined &&
+      config.restingHeartRate >= config.maxHeartRate
+    ) {
+      throw new ValidationError(
+        "restingHeartRate must be below maxHeartRate",
+      );
+    }
+
+    const zones = values.heartRateZones;
+    if (zones !== undefined) {
+      const list = Array.isArray(zones) ? zones : String(zones).split(",");
+      const bounds = list.map((value) => value === "" ? NaN : Number(value));
+      if (
+        bounds.length === 0 ||
+        !bounds.every((bound) => bound >= 30 && bound <= 240)
+      ) {
+        throw new ValidationError(
+          "heartRateZones must be a list of bpm values between 30 and 240",
+        );
+      }
+      config.zones = bounds;
+    }
+    return config;
+  }
+
+  /** Steps between the given points that have a heart rate */
+  private static getSteps(
+    points: TrackPoint[],
+    startIndex: number,
+    endIndex: number,
+  ): Step[] {
+    const steps: Step[] = [];
+    for (let i = startIndex; i < endIndex; i++) {
+      const point = points[i];
+      if (!hasHeartRate(point) || isSegmentBreak(point, points[i + 1])) {
+        continue;
+      }
+      const seconds = Math.min(
+        (toMs(points[i + 1]) - toMs(point)) / 1000,
+        MAX_STEP_SECONDS,
+      );
+      if (seconds > 0) {
+        steps.push({ hr: point.hr!, seconds, speed: point.speed ?? 0 });
+      }
+    }
+    return steps;
+  }
+
+  /** Time weighted average in bpm, null without heart rate */
+  private static getAverage(steps: Step[]): number | null {
+    const time = steps.reduce((sum, step) => sum + step.seconds, 0);
+    if (time === 0) return null;
+    return round(
+      steps.reduce((sum, step) => sum + step.hr * step.seconds, 0) / time,
+    );
+  }
+
+  /**
+   * Peak heart rate up to 30 s after a crash jibe and how far it dropped a
+   * minute later. Null if the recording does not last that long.
+   */
+  private static getRecovery(
+    points: TrackPoint[],
+    jibe: JibeInfo,
+  ): { jibe: JibeInfo; peak: number; drop: number } | null {
+    const peakUntil = toMs(points[jibe.endIndex]) + CRASH_PEAK_SECONDS * 1000;
+    let peakIndex = -1;
+    for (let i = jibe.startIndex; i < points.length; i++) {
+      if (i > jibe.startIndex && isSegmentBreak(points[i - 1], points[i])) {
+        break;
+      }
+      if (toMs(points[i]) > peakUntil) break;
+      if (
+        hasHeartRate(points[i]) &&
+        (peakIndex < 0 || points[i].hr! > points[peakIndex].hr!)
+      ) {
+        peakIndex = i;
+      }
+    }
+    if (peakIndex < 0) return null;
+
+    const peak = points[peakIndex].hr!;
+    const recoveredAt = toMs(points[peakIndex]) + RECOVERY_SECONDS * 1000;
+    for (let i = peakIndex + 1; i < points.length; i++) {
+      if (isSegmentBreak(points[i - 1], points[i])) return null;
+      if (toMs(points[i]) >= recoveredAt && hasHeartRate(points[i])) {
+        return { jibe, peak, drop: peak - points[i].hr! };
+      }
+    }
+    return null;
+  }
+
+  /** Banister TRIMP: minutes weighted by the heart rate reserve used */
+  private static getTrimp(steps: Step[], config: HeartRateConfig): number {
+    const reserve = config.maxHeartRate - config.restingHeartRate;
+    if (reserve <= 0) return 0;
+    return steps.reduce((sum, { hr, seconds }) => {
+      const ratio = Math.min(
+        1,
+        Math.max(0, (hr - config.restingHeartRate) / reserve),
+      );
+      return sum + (seconds / 60) * ratio * TRIMP_A *
+          Math.exp(TRIMP_B * ratio);
+    }, 0);
+  }
+
+  private static mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+}
@@ -0,0 +1,24 @@
+import { SessionMetadata, TrackPoint } from "../util/types.ts";
+
+export type ImportResult = {
+  points: TrackPoint[];
+  metadata: SessionMetadata;
+};
+
+/** Importer specific options, e.g. the column mapping of a CSV upload */
+export type ImportOptions = Record<string, string | undefined>;
+
+export interface Importer {
+  /** Short format name, also accepted as `?format=` on /analyze */
+  name: string;
+  /** Whether the upload looks like something this importer can read */
+  canImport(body: Uint8Array, contentType: string): boolean;
+  import(body: Uint8Array, options?: ImportOptions): Promise<ImportResult>;
+}
+
+/**
+ * Decode the beginning of an upload for content sniffing
+ */
+export function sniffText(body: Uint8Array, length = 1024): string {
+  return new TextDecoder().decode(body.subarray(0, length));
+}
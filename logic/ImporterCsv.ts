@@ -0,0 +1,222 @@
+import { TrackPoint } from "../util/types.ts";
+import { Importer, ImportOptions, ImportResult } from "./Importer.ts";
+import { Parser } from "./Parser.ts";
+import { ParseError } from "../util/errors.ts";
+
+export type CsvField =
+  | "lat"
+  | "lon"
+  | "time"
+  | "speed"
+  | "hr"
+  | "ele"
+  | "distance";
+
+export type SpeedUnit = "ms" | "kmh" | "knots";
+
+export interface CsvImporterConfig {
+  /** Column name (or 0-based index) per field; unset fields are detected */
+  columns: Partial<Record<CsvField, string>>;
+  /** Unit of the speed column (default: m/s) */
+  speedUnit: SpeedUnit;
+  /** Field delimiter, detected from the header line when not set */
+  delimiter?: string;
+}
+
+/** Header names recognized when no explicit column mapping is given */
+const COLUMN_ALIASES: Record<CsvField, string[]> = {
+  lat: ["lat", "latitude", "lat_deg"],
+  lon: ["lon", "lng", "long", "longitude", "lon_deg"],
+  time: ["time", "timestamp", "datetime", "date_time", "utc", "gps_time"],
+  speed: ["speed", "sog", "speed_ms", "velocity"],
+  hr: ["hr", "heartrate", "heart_rate", "bpm"],
+  ele: ["ele", "alt", "altitude", "elevation"],
+  distance: ["distance", "dist"],
+};
+
+const SPEED_FACTORS: Record<SpeedUnit, number> = {
+  ms: 1,
+  kmh: 1 / 3.6,
+  knots: 1852 / 3600,
+};
+
+/**
+ * CSV logs from simple GPS loggers. Columns are mapped by header name,
+ * either configured per upload or detected from common names.
+ *
+ * Options on /analyze: `columns=lat:Latitude,lon:Longitude,time:UTC`,
+ * `speedUnit=kmh|knots|ms` and `delimiter=;`.
+ */
+export default class ImporterCsv implements Importer {
+  name = "csv";
+  private config: CsvImporterConfig;
+
+  constructor(config?: Partial<CsvImporterConfig>) {
+    this.config = {
+      columns: {},
+      speedUnit: "ms",
+      ...config,
+    };
+  }
+
+  canImport(_body: Uint8Array, contentType: string): boolean {
+    // CSV can't be sniffed reliably, it has to be asked for explicitly
+    return contentType.includes("csv");
+  }
+
+  async import(
+    body: Uint8Array,
+    options: ImportOptions = {},
+  ): Promise<ImportResult> {
+    const config = this.getEffectiveConfig(options);
+    const lines = new TextDecoder()
+      .decode(body)
+      .split(/\r?\n/)
+      .filter((line) => line.trim().length > 0);
+
+    if (lines.length < 2) {
+      throw new ParseError("CSV file has no data rows");
+    }
+
+    const delimiter = config.delimiter ?? detectDelimiter(lines[0]);
+    const header = splitLine(lines[0], delimiter);
+    const indices = this.resolveColumns(header, config.columns);
+
+    if (
+      indices.lat === undefined ||
+      indices.lon === undefined ||
+      indices.time === undefined
+    ) {
+      throw new ParseError(
+        "CSV file needs latitude, longitude and time columns",
+      );
+    }
+
+    const speedFactor = SPEED_FACTORS[config.speedUnit];
+    const points: TrackPoint[] = [];
+
+    for (const line of lines.slice(1)) {
+      const cells = splitLine(line, delimiter);
+      const lat = parseFloat(cells[indices.lat]);
+      const lon = parseFloat(cells[indices.lon]);
+      const time = parseTime(cells[indices.time]);
+      if (!isFinite(lat) || !isFinite(lon) || !time) continue;
+
+      const point: TrackPoint = { lat, lon, time };
+      const speed = readNumber(cells, indices.speed);
+      if (speed !== undefined) point.speed = speed * speedFactor;
+      const hr = readNumber(cells, indices.hr);
+      if (hr !== undefined) point.hr = hr;
+      const ele = readNumber(cells, indices.ele);
+      if (ele !== undefined) point.ele = ele;
+      const distance = readNumber(cells, indices.distance);
+      if (distance !== undefined) point.distance = distance;
+
+      points.push(point);
+    }
+
+    const location = points.length > 0
+      ? await Parser.getLocationMetadata(points[0])
+      : {};
+
+    return {
+      points: Parser.calculateMissingSpeed(points),
+      metadata: {
+        name: options.name ?? "CSV import",
+        type: options.type ?? "Other",
+        time: points[0]?.time ?? "",
+        ...location,
+      },
+    };
+  }
+
+  /**
+   * Merge the per upload options over the importer defaults
+   */
+  private getEffectiveConfig(options: ImportOptions): CsvImporterConfig {
+    const columns = { ...this.config.columns };
+    for (const entry of (options.columns ?? "").split(",")) {
+      const [field, column] = entry.split(":").map((s) => s.trim());
+      if (field in COLUMN_ALIASES && column) {
+        columns[field as CsvField] = column;
+      }
+    }
+
+    const speedUnit = options.speedUnit && options.speedUnit in SPEED_FACTORS
+      ? options.speedUnit as SpeedUnit
+      : this.config.speedUnit;
+
+    return {
+      columns,
+      speedUnit,
+      delimiter: options.delimiter ?? this.config.delimiter,
+    };
+  }
+
+  private resolveColumns(
+    header: string[],
+    columns: Partial<Record<CsvField, string>>,
+  ): Partial<Record<CsvField, number>> {
+    const normalized = header.map((h) => h.trim().toLowerCase());
+    const indices: Partial<Record<CsvField, number>> = {};
+
+    for (const field of Object.keys(COLUMN_ALIASES) as CsvField[]) {
+      const configured = columns[field];
+      if (configured !== undefined) {
+        const byName = normalized.indexOf(configured.toLowerCase());
+        const byIndex = /^\d+$/.test(configured) ? parseInt(configured) : -1;
+        const index = byName !== -1 ? byName : byIndex;
+        if (index >= 0 && index < header.length) indices[field] = index;
+        continue;
+      }
+
+      const index = normalized.findIndex((h) =>
+        COLUMN_ALIASES[field].includes(h)
+      );
+      if (index !== -1) indices[field] = index;
+    }
+
+    return indices;
+  }
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [",", ";", "\t", "|"];
+  let best = ",";
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = headerLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function splitLine(line: string, delimiter: string): string[] {
+  return line.split(delimiter).map((cell) => cell.trim().replace(/^"|"$/g, ""));
+}
+
+function readNumber(
+  cells: string[],
+  index: number | undefined,
+): number | undefined {
+  if (index === undefined || cells[index] === undefined) return undefined;
+  const value = parseFloat(cells[index]);
+  return isFinite(value) ? value : undefined;
+}
+
+/**
+ * Accepts ISO dates and unix timestamps in seconds or milliseconds
+ */
+function parseTime(value: string | undefined): string | null {
+  if (!value) return null;
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const num = parseFloat(value);
+    const ms = num > 1e12 ? num : num * 1000;
+    return new Date(ms).toISOString();
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
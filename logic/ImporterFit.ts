@@ -0,0 +1,17 @@
+import { Importer, ImportResult } from "./Importer.ts";
+import { FitDecoder } from "./FitDecoder.ts";
+
+export default class ImporterFit implements Importer {
+  name = "fit";
+
+  canImport(body: Uint8Array, contentType: string): boolean {
+    return contentType.includes("fit") || FitDecoder.isFit(body);
+  }
+
+  async import(body: Uint8Array): Promise<ImportResult> {
+    const fit = FitDecoder.decode(body);
+    const points = FitDecoder.getPointsFromFit(fit);
+    const metadata = await FitDecoder.getMetadata(fit);
+    return { points, metadata };
+  }
+}
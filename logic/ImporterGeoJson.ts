@@ -0,0 +1,169 @@
+import { TrackPoint } from "../util/types.ts";
+import { Importer, ImportResult, sniffText } from "./Importer.ts";
+import { Parser } from "./Parser.ts";
+import { ParseError } from "../util/errors.ts";
+
+type Properties = Record<string, unknown>;
+
+/** The parts of a GeoJSON object the importer reads, nothing is trusted */
+type Feature = {
+  type?: string;
+  geometry?: { type?: string; coordinates?: unknown } | null;
+  properties?: Properties | null;
+};
+
+type PointValues = { time?: unknown; speed?: unknown; hr?: unknown };
+
+const text = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined;
+
+/**
+ * GeoJSON LineString / MultiLineString features. Per coordinate values are
+ * read from the properties in the layout used by togeojson and most apps:
+ * `coordTimes`/`times`, `speeds` and `heartRates`, or the same names below
+ * `coordinateProperties`. A FeatureCollection of Point features with
+ * `time`/`speed` properties is accepted as well.
+ */
+export default class ImporterGeoJson implements Importer {
+  name = "geojson";
+
+  canImport(body: Uint8Array, contentType: string): boolean {
+    if (contentType.includes("geo+json")) return true;
+    const text = sniffText(body).trimStart();
+    return text.startsWith("{") && text.includes('"type"');
+  }
+
+  async import(body: Uint8Array): Promise<ImportResult> {
+    const geojson: Feature & { features?: Feature[] } = JSON.parse(
+      new TextDecoder().decode(body),
+    );
+    const allFeatures: Feature[] = geojson.type === "FeatureCollection"
+      ? geojson.features ?? []
+      : geojson.type === "Feature"
+      ? [geojson]
+      : [{ type: "Feature", geometry: geojson, properties: {} }];
+    // Maneuvers and top runs of our own export are not track points
+    const features = allFeatures.filter((feature) =>
+      feature?.properties?.annotation === undefined
+    );
+
+    // Every line is a track segment, consecutive Point features share one
+    const points: TrackPoint[] = [];
+    let segment = 0;
+    for (const feature of features) {
+      const featurePoints = this.getPointsFromFeature(feature, segment);
+      // Spreading a long line would put every point on the call stack
+      for (const point of featurePoints) points.push(point);
+      if (feature?.geometry?.type !== "Point" && featurePoints.length > 0) {
+        segment = featurePoints[featurePoints.length - 1].segment! + 1;
+      }
+    }
+
+    if (points.some((p) => !p.time)) {
+      throw new ParseError("GeoJSON track has coordinates without a time");
+    }
+
+    const properties: Properties = features[0]?.properties ?? {};
+    const location = points.length > 0
+      ? await Parser.getLocationMetadata(points[0])
+      : {};
+
+    return {
+      points: Parser.calculateMissingSpeed(points),
+      metadata: {
+        name: text(properties.name) ?? "GeoJSON import",
+        type: text(properties.type) ?? text(properties.sport) ?? "Other",
+        time: text(properties.time) ?? points[0]?.time ?? "",
+        ...location,
+      },
+    };
+  }
+
+  private getPointsFromFeature(
+    feature: Feature,
+    segment: number,
+  ): TrackPoint[] {
+    const geometry = feature?.geometry;
+    const properties: Properties = feature?.properties ?? {};
+    if (!geometry || !Array.isArray(geometry.coordinates)) return [];
+
+    if (geometry.type === "Point") {
+      const [lon, lat, ele] = geometry.coordinates as number[];
+      return [
+        this.toTrackPoint(lat, lon, ele, segment, {
+          time: properties.time,
+          speed: properties.speed,
+          hr: properties.hr ?? properties.heartRate,
+        }),
+      ];
+    }
+
+    const lines = geometry.type === "LineString"
+      ? [geometry.coordinates as number[][]]
+      : geometry.type === "MultiLineString"
+      ? geometry.coordinates as number[][][]
+      : [];
+
+    const perCoordinate =
+      (properties.coordinateProperties as Properties | undefined) ??
+        properties;
+    const times = perCoordinate.coordTimes ?? perCoordinate.times;
+    const speeds = perCoordinate.speeds ?? perCoordinate.speed;
+    const heartRates = perCoordinate.heartRates ?? perCoordinate.heart;
+
+    const points: TrackPoint[] = [];
+    lines.forEach((line, lineIndex) => {
+      line.forEach(([lon, lat, ele], i) => {
+        const flatIndex = points.length;
+        points.push(
+          this.toTrackPoint(lat, lon, ele, segment + lineIndex, {
+            time: pick(times, lineIndex, i, flatIndex),
+            speed: pick(speeds, lineIndex, i, flatIndex),
+            hr: pick(heartRates, lineIndex, i, flatIndex),
+          }),
+        );
+      });
+    });
+
+    return points;
+  }
+
+  private toTrackPoint(
+    lat: number,
+    lon: number,
+    ele: number | undefined,
+    segment: number,
+    values: PointValues,
+  ): TrackPoint {
+    const point: TrackPoint = {
+      lat,
+      lon,
+      time: values.time as string,
+      segment,
+    };
+    if (typeof ele === "number") point.ele = ele;
+    if (values.speed !== undefined && values.speed !== null) {
+      point.speed = Number(values.speed);
+    }
+    if (values.hr !== undefined && values.hr !== null) {
+      point.hr = Number(values.hr);
+    }
+    return point;
+  }
+}
+
+/**
+ * Read a per coordinate value. MultiLineString properties are either nested
+ * per line or one flat array over all coordinates.
+ */
+function pick(
+  values: unknown,
+  lineIndex: number,
+  index: number,
+  flatIndex: number,
+): unknown {
+  if (!Array.isArray(values)) return undefined;
+  return Array.isArray(values[lineIndex])
+    ? values[lineIndex][index]
+    : values[flatIndex];
+}
@@ -0,0 +1,21 @@
+import { Importer, ImportResult, sniffText } from "./Importer.ts";
+import { Parser } from "./Parser.ts";
+import { ParseError } from "../util/errors.ts";
+
+export default class ImporterGpx implements Importer {
+  name = "gpx";
+
+  canImport(body: Uint8Array, contentType: string): boolean {
+    return contentType.includes("gpx") || sniffText(body).includes("<gpx");
+  }
+
+  async import(body: Uint8Array): Promise<ImportResult> {
+    const json = Parser.parseXMLtoJSON(new TextDecoder().decode(body));
+    if (!json?.gpx) {
+      throw new ParseError("Not a GPX file");
+    }
+    const points = Parser.getPointsFromRawJson(json);
+    const metadata = await Parser.getMetadata(json);
+    return { points, metadata };
+  }
+}
@@ -0,0 +1,104 @@
+import { Importer, ImportOptions, ImportResult } from "./Importer.ts";
+import ImporterCsv from "./ImporterCsv.ts";
+import ImporterFit from "./ImporterFit.ts";
+import ImporterGeoJson from "./ImporterGeoJson.ts";
+import ImporterGpx from "./ImporterGpx.ts";
+import ImporterTcx from "./ImporterTcx.ts";
+import { countSegments } from "../util/utils.ts";
+import {
+  ApiError,
+  InsufficientDataError,
+  ParseError,
+  ValidationError,
+} from "../util/errors.ts";
+
+/**
+ * Keeps the known track importers and picks one per upload, either by the
+ * requested format or by Content-Type / content sniffing. GPX is the
+ * fallback when nothing else matches.
+ */
+export class ImporterRegistry {
+  /** Longer tracks are rejected, analysis time grows with the point count */
+  static maxPoints = 200_000;
+
+  private static importers: Importer[] = [
+    new ImporterFit(),
+    new ImporterTcx(),
+    new ImporterGpx(),
+    new ImporterGeoJson(),
+    new ImporterCsv(),
+  ];
+
+  static register(importer: Importer): void {
+    this.importers = [
+      importer,
+      ...this.importers.filter((i) => i.name !== importer.name),
+    ];
+  }
+
+  static getFormats(): string[] {
+    return this.importers.map((i) => i.name);
+  }
+
+  static find(
+    body: Uint8Array,
+    contentType: string,
+    format?: string,
+  ): Importer {
+    if (format) {
+      const importer = this.importers.find((i) => i.name === format);
+      if (!importer) {
+        throw new ValidationError(
+          `Unknown format "${format}", expected one of ${
+            this.getFormats().join(", ")
+          }`,
+        );
+      }
+      return importer;
+    }
+
+    const type = contentType.toLowerCase();
+    return this.importers.find((i) => i.canImport(body, type)) ??
+      this.importers.find((i) => i.name === "gpx")!;
+  }
+
+  /**
+   * Import an upload. Errors of the importers that are not API errors mean
+   * the file could not be read and become ParseErrors.
+   */
+  static async import(
+    body: Uint8Array,
+    contentType: string,
+    options: ImportOptions = {},
+  ): Promise<ImportResult> {
+    if (body.length === 0) {
+      throw new ValidationError("The upload is empty");
+    }
+
+    const importer = this.find(body, contentType, options.format);
+    let result: ImportResult;
+    try {
+      result = await importer.import(body, options);
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ParseError(
+        `Could not read ${importer.name} file: ${(error as Error).message}`,
+      );
+    }
+
+    if (result.points.length < 2) {
+      throw new InsufficientDataError(
+        `The track has ${result.points.length} points, at least 2 are needed`,
+      );
+    }
+    if (result.points.length > this.maxPoints) {
+      throw new ValidationError(
+        `The track has ${result.points.length} points, at most ${this.maxPoints} are supported`,
+        413,
+      );
+    }
+
+    result.metadata.segmentCount = countSegments(result.points);
+    return result;
+  }
+}
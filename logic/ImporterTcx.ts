@@ -0,0 +1,118 @@
+import { TrackPoint } from "../util/types.ts";
+import { Importer, ImportResult, sniffText } from "./Importer.ts";
+import { Parser } from "./Parser.ts";
+import { toArray } from "../util/utils.ts";
+import { ParseError } from "../util/errors.ts";
+
+/** fast-xml-parser turns numeric text into numbers */
+type XmlValue = string | number;
+
+type TcxTrackpoint = {
+  Time?: XmlValue;
+  Position?: { LatitudeDegrees?: XmlValue; LongitudeDegrees?: XmlValue };
+  AltitudeMeters?: XmlValue;
+  DistanceMeters?: XmlValue;
+  HeartRateBpm?: { Value?: XmlValue };
+  Extensions?: unknown;
+};
+
+const toNumber = (value: unknown) => parseFloat(String(value));
+
+/**
+ * Garmin Training Center XML (TCX), as exported by Garmin Connect.
+ * Speed is read from the ActivityExtension TPX element when present.
+ */
+export default class ImporterTcx implements Importer {
+  name = "tcx";
+
+  canImport(body: Uint8Array, contentType: string): boolean {
+    return contentType.includes("tcx") ||
+      sniffText(body).includes("<TrainingCenterDatabase");
+  }
+
+  async import(body: Uint8Array): Promise<ImportResult> {
+    const json = Parser.parseXMLtoJSON(new TextDecoder().decode(body));
+    const database = json.TrainingCenterDatabase;
+    const activity = toArray(database?.Activities?.Activity)[0];
+    if (!activity) {
+      throw new ParseError("TCX file contains no activity");
+    }
+
+    // Devices start a new <Track> after a pause, so each one is a segment
+    const points: TrackPoint[] = [];
+    let segment = 0;
+    for (const lap of toArray(activity.Lap)) {
+      for (const track of toArray(lap.Track)) {
+        for (const raw of toArray(track.Trackpoint)) {
+          const point = this.toTrackPoint(raw, segment);
+          if (point) points.push(point);
+        }
+        segment++;
+      }
+    }
+
+    const location = points.length > 0
+      ? await Parser.getLocationMetadata(points[0])
+      : {};
+
+    return {
+      points: Parser.calculateMissingSpeed(points),
+      metadata: {
+        name: activity.Notes ??
+          `${activity.Sport ?? "Activity"} ${activity.Id}`,
+        type: activity.Sport ?? "Other",
+        time: String(activity.Id ?? points[0]?.time ?? ""),
+        device: activity.Creator?.Name,
+        ...location,
+      },
+    };
+  }
+
+  private toTrackPoint(
+    raw: TcxTrackpoint,
+    segment: number,
+  ): TrackPoint | null {
+    const position = raw.Position;
+    if (!position || position.LatitudeDegrees === undefined) {
+      return null; // Trackpoints without GPS fix (e.g. HR only)
+    }
+
+    const point: TrackPoint = {
+      lat: toNumber(position.LatitudeDegrees),
+      lon: toNumber(position.LongitudeDegrees),
+      time: String(raw.Time),
+      segment,
+    };
+
+    if (raw.AltitudeMeters !== undefined) {
+      point.ele = toNumber(raw.AltitudeMeters);
+    }
+    if (raw.DistanceMeters !== undefined) {
+      point.distance = toNumber(raw.DistanceMeters);
+    }
+    if (raw.HeartRateBpm?.Value !== undefined) {
+      point.hr = toNumber(raw.HeartRateBpm.Value);
+    }
+
+    const tpx = findByLocalName(raw.Extensions, "TPX");
+    const speed = findByLocalName(tpx, "Speed");
+    if (speed !== undefined) {
+      point.speed = toNumber(speed);
+    }
+
+    return point;
+  }
+}
+
+/**
+ * Look up a child element regardless of the namespace prefix in use
+ */
+function findByLocalName(element: unknown, localName: string): unknown {
+  if (!element || typeof element !== "object") return undefined;
+  for (const [key, value] of Object.entries(element)) {
+    if (key === localName || key.endsWith(`:${localName}`)) {
+      return value;
+    }
+  }
+  return undefined;
+}
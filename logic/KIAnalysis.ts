@@ -4,8 +4,17 @@ import {
   RawTrackStatistics,
   TrackPoint,
   TrackStatistics,
+  WindInfo,
 } from "../util/types.ts";
-import { Analysis } from "./Analysis.ts";
+import { isSegmentBreak } from "../util/utils.ts";
+import { InsufficientDataError } from "../util/errors.ts";
+import { Analysis, AnalysisOptions } from "./Analysis.ts";
+import { WindEstimator } from "./WindEstimator.ts";
+import { PolarAnalysis } from "./PolarAnalysis.ts";
+import { VmgAnalysis } from "./VmgAnalysis.ts";
+import { RankingAnalysis } from "./RankingAnalysis.ts";
+import { Timeline, TimelineManeuver } from "./Timeline.ts";
+import { RunAnalysis } from "./RunAnalysis.ts";
 
 export interface KIAnalysisConfig {
   /** Minimum speed to be considered "flying" (default: 6 km/h) */
@@ -22,9 +31,14 @@ export interface KIAnalysisConfig {
   minFlyingSegmentSeconds: number;
   /** Minimum duration a speed must be sustained to count as max speed (default: 5 seconds) */
   minMaxSpeedDurationSeconds: number;
+  /** Minimum confidence of an estimated wind direction to classify maneuvers by it (default: 0.5) */
+  minWindConfidence: number;
 }
 
 export class KIAnalysis implements Analysis {
+  /** Bump when a change alters the results for the same track */
+  static readonly VERSION = "1.3.0";
+
   private config: KIAnalysisConfig;
 
   constructor(config?: Partial<KIAnalysisConfig>) {
@@ -36,20 +50,27 @@ export class KIAnalysis implements Analysis {
       maneuverTimeWindowSeconds: 15,
       minFlyingSegmentSeconds: 5,
       minMaxSpeedDurationSeconds: 3,
+      minWindConfidence: 0.5,
       ...config,
     };
   }
 
-  getStatistics(points: TrackPoint[]): TrackStatistics {
+  getStatistics(
+    points: TrackPoint[],
+    options: AnalysisOptions = {},
+  ): TrackStatistics {
     console.log("Analyzing data...");
 
-    const rawStats = this.getKIAnalysisData(points);
+    const rawStats = this.getKIAnalysisData(points, options);
     return this.formatStatistics(rawStats);
   }
 
-  private getKIAnalysisData(points: TrackPoint[]): RawTrackStatistics {
+  private getKIAnalysisData(
+    points: TrackPoint[],
+    options: AnalysisOptions,
+  ): RawTrackStatistics {
     if (!points || points.length < 2) {
-      throw new Error("Insufficient data points for analysis");
+      throw new InsufficientDataError("Insufficient data points for analysis");
     }
 
     // Calculate basic metrics
@@ -65,8 +86,19 @@ export class KIAnalysis implements Analysis {
     const longestSequenceAbove10kmh =
       this.calculateLongestFlyingSequence(points);
 
+    // Wind direction from the request, or estimated from the track
+    const wind = this.getWind(points, options);
+    const windDirection = this.isWindReliable(wind)
+      ? wind!.direction
+      : undefined;
+
     // Detect maneuvers
-    const maneuvers = this.detectManeuvers(points);
+    const maneuvers = this.detectManeuvers(points, windDirection);
+    const segments = Timeline.build(
+      points,
+      maneuvers.timeline,
+      this.config.flyingSpeedThresholdKmh,
+    );
 
     return {
       totalDistance,
@@ -82,9 +114,54 @@ export class KIAnalysis implements Analysis {
       tackCount: maneuvers.tacks,
       flyingJibeCount: maneuvers.flyingJibes,
       jibes: maneuvers.jibesList,
+      wind: wind ?? undefined,
+      polar: windDirection !== undefined
+        ? PolarAnalysis.compute(
+          points,
+          windDirection,
+          this.config.flyingSpeedThresholdKmh,
+          options.polarBinSize,
+        )
+        : undefined,
+      vmg: windDirection !== undefined
+        ? VmgAnalysis.compute(
+          points,
+          windDirection,
+          this.config.flyingSpeedThresholdKmh,
+        )
+        : undefined,
+      rankings: RankingAnalysis.compute(points),
+      segments,
+      runs: RunAnalysis.compute(
+        points,
+        segments,
+        this.config.flyingSpeedThresholdKmh,
+        options.topRuns,
+        wind?.direction,
+      ),
     };
   }
 
+  private getWind(
+    points: TrackPoint[],
+    options: AnalysisOptions,
+  ): WindInfo | null {
+    if (options.windDirection !== undefined) {
+      return { direction: options.windDirection, source: "request" };
+    }
+    return WindEstimator.estimate(points, this.config.flyingSpeedThresholdKmh);
+  }
+
+  /**
+   * Only wind directions that are given or estimated with enough
+   * confidence are used to tell tacks from jibes and for the polar and VMG
+   */
+  private isWindReliable(wind: WindInfo | null): boolean {
+    if (!wind) return false;
+    return wind.source === "request" ||
+      (wind.confidence ?? 0) >= this.config.minWindConfidence;
+  }
+
   private formatStatistics(rawStats: RawTrackStatistics): TrackStatistics {
     const flyingPercentage = parseFloat(
       ((rawStats.timeAbove10kmh / rawStats.totalTime) * 100).toFixed(1),
@@ -125,6 +202,12 @@ export class KIAnalysis implements Analysis {
           (rawStats.maxDistanceFromStart / 1000).toFixed(2),
         ),
       },
+      wind: rawStats.wind,
+      polar: rawStats.polar,
+      vmg: rawStats.vmg,
+      rankings: rawStats.rankings,
+      segments: rawStats.segments,
+      runs: rawStats.runs,
     };
   }
 
@@ -145,20 +228,28 @@ export class KIAnalysis implements Analysis {
   private calculateTotalDistance(points: TrackPoint[]): number {
     let totalDistance = 0;
     for (let i = 1; i < points.length; i++) {
+      if (isSegmentBreak(points[i - 1], points[i])) continue;
       totalDistance += this.calculateDistance(points[i - 1], points[i]);
     }
     return totalDistance;
   }
 
+  /**
+   * Time on the water in seconds, without the gaps between track segments
+   */
   private calculateTotalTime(points: TrackPoint[]): number {
-    const startTime = new Date(points[0].time);
-    const endTime = new Date(points[points.length - 1].time);
-    return (endTime.getTime() - startTime.getTime()) / 1000;
+    let totalTime = 0;
+    for (let i = 1; i < points.length; i++) {
+      if (isSegmentBreak(points[i - 1], points[i])) continue;
+      totalTime += new Date(points[i].time).getTime() -
+        new Date(points[i - 1].time).getTime();
+    }
+    return totalTime / 1000;
   }
 
+  /** Spikes are repaired by the preprocessing before any analysis */
   private getMaxSpeed(points: TrackPoint[]): number {
-    const filteredPoints = this.filterSpeedOutliers(points);
-    return this.getMaxSustainedSpeed(filteredPoints);
+    return this.getMaxSustainedSpeed(points);
   }
 
   /**
@@ -212,6 +303,8 @@ export class KIAnalysis implements Analysis {
     for (let i = startIndex; i < points.length; i++) {
       const currentSpeed = points[i].speed || 0;
 
+      if (i > startIndex && isSegmentBreak(points[i - 1], points[i])) break;
+
       if (currentSpeed >= targetSpeed) {
         endTime = new Date(points[i].time).getTime();
       } else {
@@ -226,15 +319,15 @@ export class KIAnalysis implements Analysis {
   private calculateAverageSpeed(points: TrackPoint[]): number {
     if (points.length < 2) return 0;
 
-    const filteredPoints = this.filterSpeedOutliers(points);
     let totalWeighted = 0;
     let totalTime = 0;
 
-    for (let i = 0; i < filteredPoints.length - 1; i++) {
-      const p1 = filteredPoints[i];
-      const p2 = filteredPoints[i + 1];
+    for (let i = 0; i < points.length - 1; i++) {
+      const p1 = points[i];
+      const p2 = points[i + 1];
 
       if (p1.speed === undefined || p2.speed === undefined) continue;
+      if (isSegmentBreak(p1, p2)) continue;
 
       const dt =
         (new Date(p2.time).getTime() - new Date(p1.time).getTime()) / 1000;
@@ -262,6 +355,8 @@ export class KIAnalysis implements Analysis {
       const prevSpeed = prevPoint.speed || 0;
       const currentSpeed = currentPoint.speed || 0;
 
+      if (isSegmentBreak(prevPoint, currentPoint)) continue;
+
       if (prevSpeed > thresholdMs || currentSpeed > thresholdMs) {
         const segmentTime =
           new Date(currentPoint.time).getTime() -
@@ -305,8 +400,10 @@ export class KIAnalysis implements Analysis {
 
     for (let i = 0; i < points.length; i++) {
       const speed = points[i].speed || 0;
+      const continuesSegment = i === 0 ||
+        !isSegmentBreak(points[i - 1], points[i]);
 
-      if (speed > thresholdMs) {
+      if (speed > thresholdMs && continuesSegment) {
         if (currentSequenceStart === -1) {
           currentSequenceStart = i;
         }
@@ -333,7 +430,8 @@ export class KIAnalysis implements Analysis {
           longestSequence = Math.max(longestSequence, sequenceTime);
         }
 
-        currentSequenceStart = -1;
+        // A new segment may start right away with flying speed
+        currentSequenceStart = speed > thresholdMs ? i : -1;
       }
     }
 
@@ -341,22 +439,31 @@ export class KIAnalysis implements Analysis {
   }
 
   /**
-   * Detect jibes, tacks, and flying jibes based on bearing changes and speed
+   * Detect jibes, tacks, and flying jibes based on bearing changes and speed.
+   * With a known wind direction, tacks and jibes are told apart by turning
+   * through the wind or away from it, otherwise by the angle thresholds.
    */
-  private detectManeuvers(points: TrackPoint[]): {
+  private detectManeuvers(points: TrackPoint[], windDirection?: number): {
     jibes: number;
     tacks: number;
     flyingJibes: number;
     jibesList: JibeInfo[];
+    timeline: TimelineManeuver[];
   } {
     const bearings = this.calculateBearings(points);
     let jibes = 0;
     let tacks = 0;
     let flyingJibes = 0;
     const jibesList: JibeInfo[] = [];
+    const timeline: TimelineManeuver[] = [];
 
     for (let i = 1; i < points.length - 1; i++) {
-      const maneuver = this.detectManeuverAtPoint(points, bearings, i);
+      const maneuver = this.detectManeuverAtPoint(
+        points,
+        bearings,
+        i,
+        windDirection,
+      );
 
       if (maneuver) {
         if (maneuver.type === "jibe") {
@@ -373,22 +480,33 @@ export class KIAnalysis implements Analysis {
             maneuver.angleChange,
           );
           jibesList.push(jibeInfo);
+          timeline.push({
+            type: maneuver.isFlying ? "flightjibe" : "jibe",
+            startIndex: i,
+            endIndex: maneuver.endIndex,
+          });
 
           i = maneuver.endIndex; // Skip ahead to avoid double counting
         } else if (maneuver.type === "tack") {
           tacks++;
+          timeline.push({
+            type: "tack",
+            startIndex: i,
+            endIndex: maneuver.endIndex,
+          });
           i = maneuver.endIndex; // Skip ahead to avoid double counting
         }
       }
     }
 
-    return { jibes, tacks, flyingJibes, jibesList };
+    return { jibes, tacks, flyingJibes, jibesList, timeline };
   }
 
   private detectManeuverAtPoint(
     points: TrackPoint[],
     bearings: number[],
     startIndex: number,
+    windDirection?: number,
   ): {
     type: "jibe" | "tack";
     endIndex: number;
@@ -400,6 +518,9 @@ export class KIAnalysis implements Analysis {
 
     // Look ahead within the time window
     for (let j = startIndex + 1; j < points.length; j++) {
+      // Maneuvers don't span a gap between track segments
+      if (isSegmentBreak(points[j - 1], points[j])) break;
+
       const timeDiff =
         (new Date(points[j].time).getTime() -
           new Date(points[startIndex].time).getTime()) /
@@ -418,8 +539,28 @@ export class KIAnalysis implements Analysis {
       }
     }
 
-    // Classify the maneuver based on angle change
-    if (maxAngleChange >= this.config.jibeAngleThreshold) {
+    // Classify the maneuver based on the wind, or on angle change only
+    let type: "jibe" | "tack" | null = null;
+    if (windDirection !== undefined) {
+      const minAngle = Math.min(
+        this.config.jibeAngleThreshold,
+        this.config.tackAngleThreshold,
+      );
+      if (maxAngleChange >= minAngle) {
+        type = WindEstimator.classifyTurn(
+          bearings,
+          startIndex - 1,
+          maneuverEndIndex - 1,
+          windDirection,
+        );
+      }
+    } else if (maxAngleChange >= this.config.jibeAngleThreshold) {
+      type = "jibe";
+    } else if (maxAngleChange >= this.config.tackAngleThreshold) {
+      type = "tack";
+    }
+
+    if (type === "jibe") {
       // Check duration - jibes must take at least 4 seconds
       const duration =
         (new Date(points[maneuverEndIndex].time).getTime() -
@@ -442,7 +583,7 @@ export class KIAnalysis implements Analysis {
         isFlying,
         angleChange: maxAngleChange,
       };
-    } else if (maxAngleChange >= this.config.tackAngleThreshold) {
+    } else if (type === "tack") {
       return {
         type: "tack",
         endIndex: maneuverEndIndex,
@@ -535,6 +676,11 @@ export class KIAnalysis implements Analysis {
     const bearings: number[] = [];
 
     for (let i = 0; i < points.length - 1; i++) {
+      // Keep the previous heading across a segment gap
+      if (i > 0 && isSegmentBreak(points[i], points[i + 1])) {
+        bearings.push(bearings[i - 1]);
+        continue;
+      }
       bearings.push(this.calculateBearing(points[i], points[i + 1]));
     }
 
@@ -588,80 +734,6 @@ export class KIAnalysis implements Analysis {
     return R * c;
   }
 
-  /**
-   * Filter out speed outliers using multiple strategies:
-   * 1. Hard cap at maximum realistic speed (50 km/h)
-   * 2. Detect isolated spikes that don't match neighboring points
-   * 3. Check for physically impossible accelerations
-   */
-  private filterSpeedOutliers(
-    points: TrackPoint[],
-    maxSpeedKmh: number = 50,
-  ): TrackPoint[] {
-    if (points.length < 3) return points;
-
-    const maxSpeedMs = maxSpeedKmh / 3.6; // Convert km/h to m/s
-    const maxAcceleration = 5.0; // Max realistic acceleration in m/s² for wingfoiling
-
-    const filteredPoints: TrackPoint[] = [];
-
-    for (let i = 0; i < points.length; i++) {
-      const point = points[i];
-      const speed = point.speed || 0;
-
-      // Apply hard cap
-      if (speed > maxSpeedMs) {
-        continue; // Skip this point
-      }
-
-      // For first and last points, only apply hard cap
-      if (i === 0 || i === points.length - 1) {
-        filteredPoints.push(point);
-        continue;
-      }
-
-      // Check acceleration feasibility with previous and next points
-      const prevPoint = points[i - 1];
-      const nextPoint = points[i + 1];
-      const prevSpeed = prevPoint.speed || 0;
-      const nextSpeed = nextPoint.speed || 0;
-
-      const timeDiffPrev =
-        (new Date(point.time).getTime() - new Date(prevPoint.time).getTime()) /
-        1000;
-      const timeDiffNext =
-        (new Date(nextPoint.time).getTime() - new Date(point.time).getTime()) /
-        1000;
-
-      // Skip if time intervals are invalid
-      if (timeDiffPrev <= 0 || timeDiffNext <= 0) {
-        filteredPoints.push(point);
-        continue;
-      }
-
-      // Calculate accelerations
-      const accelFromPrev = Math.abs(speed - prevSpeed) / timeDiffPrev;
-      const accelToNext = Math.abs(nextSpeed - speed) / timeDiffNext;
-
-      // Check if this is an isolated spike
-      const avgNeighborSpeed = (prevSpeed + nextSpeed) / 2;
-      const speedDiff = Math.abs(speed - avgNeighborSpeed);
-      const isIsolatedSpike = speedDiff > 5.0; // 18 km/h difference from neighbors
-
-      // Filter out if acceleration is too high AND it's an isolated spike
-      if (
-        (accelFromPrev > maxAcceleration || accelToNext > maxAcceleration) &&
-        isIsolatedSpike
-      ) {
-        continue; // Skip this outlier
-      }
-
-      filteredPoints.push(point);
-    }
-
-    return filteredPoints;
-  }
-
   /**
    * Update configuration for the analysis
    */
@@ -675,4 +747,8 @@ export class KIAnalysis implements Analysis {
   public getConfig(): Record<string, unknown> {
     return { ...this.config };
   }
+
+  public getVersion(): string {
+    return KIAnalysis.VERSION;
+  }
 }
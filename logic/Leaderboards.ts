@@ -0,0 +1,276 @@
+import {
+  ExcludedSession,
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardStandings,
+  LeaderboardWindow,
+  PublicUser,
+  SessionHighlights,
+  SessionSummary,
+  SportProfileName,
+  Spot,
+} from "../util/types.ts";
+import { ValidationError } from "../util/errors.ts";
+import { Records } from "./Records.ts";
+import { SportProfiles } from "./SportProfiles.ts";
+import { Spots } from "./Spots.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MAX_NAME_LENGTH = 100;
+
+/** Unit of each metric and whether adding up sessions makes sense */
+const METRICS: Record<LeaderboardMetric, { unit: string; total: boolean }> = {
+  maxSpeed: { unit: "km/h", total: false },
+  distance: { unit: "km", total: true },
+  activityTime: { unit: "s", total: true },
+  longestActivity: { unit: "s", total: false },
+  jibes: { unit: "", total: true },
+  flyingJibes: { unit: "", total: true },
+  flyingJibePercentage: { unit: "%", total: false },
+  twoSeconds: { unit: "km/h", total: false },
+  tenSeconds: { unit: "km/h", total: false },
+  fiveByTenSeconds: { unit: "km/h", total: false },
+  fiveHundredMeters: { unit: "km/h", total: false },
+  nauticalMile: { unit: "km/h", total: false },
+  alpha500: { unit: "km/h", total: false },
+  oneHour: { unit: "km/h", total: false },
+};
+
+/** Speeds checked against the limit of the sport */
+const SPEEDS: (keyof SessionHighlights)[] = [
+  "maxSpeed",
+  "twoSeconds",
+  "tenSeconds",
+  "fiveByTenSeconds",
+  "fiveHundredMeters",
+  "nauticalMile",
+  "alpha500",
+  "oneHour",
+];
+
+const WINDOWS: LeaderboardWindow[] = ["week", "month", "year", "all"];
+
+const round = (value: number, decimals: number) =>
+  parseFloat(value.toFixed(decimals));
+
+const getTime = (summary: SessionSummary) =>
+  Date.parse(summary.metadata.time || summary.createdAt);
+
+const oneOf = <T extends string>(
+  name: string,
+  value: unknown,
+  values: readonly T[],
+  fallback?: T,
+): T => {
+  if (value === undefined && fallback) return fallback;
+  if (!values.includes(value as T)) {
+    throw new ValidationError(`${name} must be one of ${values.join(", ")}`);
+  }
+  return value as T;
+};
+
+/**
+ * Standings of group members for one metric over a calendar week, month or
+ * year. Only public sessions count, private ones are not even mentioned.
+ * Sessions of other sports, other spots or outside the window do not count
+ * either, disqualified sessions and sessions with impossible numbers are
+ * listed with the reason they were left out.
+ */
+export class Leaderboards {
+  static parse(body: unknown): Omit<Leaderboard, "id"> {
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      throw new ValidationError("Expected a JSON object");
+    }
+    const values = body as Record<string, unknown>;
+    const { name, sport, spotId } = values;
+    if (
+      typeof name !== "string" || !name.trim() ||
+      name.length > MAX_NAME_LENGTH
+    ) {
+      throw new ValidationError(
+        `name must be a text of up to ${MAX_NAME_LENGTH} characters`,
+      );
+    }
+    const metric = oneOf(
+      "metric",
+      values.metric,
+      Object.keys(METRICS) as LeaderboardMetric[],
+    );
+    const window = oneOf("window", values.window, WINDOWS, "month");
+    const aggregate = oneOf(
+      "aggregate",
+      values.aggregate,
+      ["best", "total"] as const,
+      "best",
+    );
+    if (aggregate === "total" && !METRICS[metric].total) {
+      throw new ValidationError(`${metric} cannot be added up`);
+    }
+    if (sport !== undefined && !SportProfiles.get(sport as string)) {
+      throw new ValidationError(
+        `sport must be one of ${SportProfiles.getNames().join(", ")}`,
+      );
+    }
+    if (spotId !== undefined && (typeof spotId !== "string" || !spotId)) {
+      throw new ValidationError("spotId must be a spot id");
+    }
+    return {
+      name: name.trim(),
+      metric,
+      window,
+      aggregate,
+      sport: sport as SportProfileName | undefined,
+      spotId,
+    };
+  }
+
+  /** The day the window is picked by, today if not given */
+  static parseDate(value: string | undefined): Date {
+    const date = value === undefined ? new Date() : new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new ValidationError("date must be an ISO date");
+    }
+    return date;
+  }
+
+  /** Start and (exclusive) end of the window around the date, in UTC */
+  static getWindow(
+    window: LeaderboardWindow,
+    date: Date,
+  ): { from: Date; to: Date } | null {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    switch (window) {
+      case "week": {
+        const day = Date.UTC(year, month, date.getUTCDate());
+        const weekday = (new Date(day).getUTCDay() + 6) % 7; // Monday = 0
+        const from = day - weekday * DAY_MS;
+        return { from: new Date(from), to: new Date(from + 7 * DAY_MS) };
+      }
+      case "month":
+        return {
+          from: new Date(Date.UTC(year, month, 1)),
+          to: new Date(Date.UTC(year, month + 1, 1)),
+        };
+      case "year":
+        return {
+          from: new Date(Date.UTC(year, 0, 1)),
+          to: new Date(Date.UTC(year + 1, 0, 1)),
+        };
+      case "all":
+        return null;
+    }
+  }
+
+  /** Why the numbers of a session cannot be right, null if they can */
+  static check(summary: SessionSummary): string | null {
+    const { highlights } = summary;
+    if (!highlights) return "not analyzed";
+
+    const profile = SportProfiles.get(summary.sport ?? "wingfoil")!;
+    for (const name of SPEEDS) {
+      const speed = highlights[name];
+      if (speed !== undefined && speed > profile.maxSpeedKmh) {
+        return `${name} of ${speed} km/h is faster than the ` +
+          `${profile.maxSpeedKmh} km/h limit for ${profile.label}`;
+      }
+    }
+    if (
+      highlights.totalTime !== undefined &&
+      highlights.activityTime > highlights.totalTime
+    ) {
+      return "activity time is longer than the session";
+    }
+    if ((highlights.flyingJibes ?? 0) > (highlights.jibes ?? 0)) {
+      return "more flying jibes than jibes";
+    }
+    return null;
+  }
+
+  static compute(
+    leaderboard: Leaderboard,
+    summaries: SessionSummary[],
+    members: PublicUser[],
+    options: { date: Date; disqualified: string[]; userSpots?: Spot[] },
+  ): LeaderboardStandings {
+    const { metric, aggregate, sport, spotId } = leaderboard;
+    const window = this.getWindow(leaderboard.window, options.date);
+    const memberIds = new Set(members.map((member) => member.id));
+
+    let sessions = summaries.filter((summary) => {
+      if (!summary.ownerId || !memberIds.has(summary.ownerId)) return false;
+      if (summary.visibility !== "public") return false;
+      if (sport && summary.sport !== sport) return false;
+      const time = getTime(summary);
+      return !window ||
+        (time >= window.from.getTime() && time < window.to.getTime());
+    });
+    if (spotId) {
+      const group = Spots.group(sessions, options.userSpots)
+        .find(({ spot }) => spot.id === spotId);
+      sessions = group?.sessions ?? [];
+    }
+
+    const excluded: ExcludedSession[] = [];
+    const entries = new Map<string, LeaderboardEntry>();
+    for (const summary of sessions) {
+      const userId = summary.ownerId!;
+      const reason = options.disqualified.includes(summary.id)
+        ? "disqualified"
+        : this.check(summary);
+      if (reason) {
+        excluded.push({ sessionId: summary.id, userId, reason });
+        continue;
+      }
+
+      const value = summary.highlights![metric];
+      if (value === undefined || value <= 0) continue;
+      if (
+        metric === "flyingJibePercentage" &&
+        (summary.highlights!.jibes ?? 0) < Records.minJibesForPercentage
+      ) {
+        continue;
+      }
+
+      const entry = entries.get(userId);
+      if (!entry) {
+        entries.set(userId, {
+          rank: 0,
+          userId,
+          name: members.find((member) => member.id === userId)!.name,
+          value,
+          sessionId: aggregate === "best" ? summary.id : undefined,
+          sessionCount: 1,
+        });
+        continue;
+      }
+      entry.sessionCount++;
+      if (aggregate === "total") {
+        entry.value = round(entry.value + value, 2);
+      } else if (value > entry.value) {
+        entry.value = value;
+        entry.sessionId = summary.id;
+      }
+    }
+
+    // Equal values share a rank, the next one skips the shared places
+    const standings = [...entries.values()].sort((a, b) =>
+      b.value - a.value || a.name.localeCompare(b.name)
+    );
+    standings.forEach((entry, i) => {
+      const before = standings[i - 1];
+      entry.rank = before?.value === entry.value ? before.rank : i + 1;
+    });
+
+    return {
+      leaderboard,
+      from: window?.from.toISOString() ?? null,
+      to: window?.to.toISOString() ?? null,
+      unit: METRICS[metric].unit,
+      standings,
+      excluded,
+    };
+  }
+}
@@ -1,5 +1,5 @@
-import { TrackPoint } from "../util/types.ts";
+import { LocationResult, TrackPoint } from "../util/types.ts";
 
 export default interface Location {
-  getLocation(point: TrackPoint): Promise<any>;
+  getLocation(point: TrackPoint): Promise<LocationResult>;
 }
@@ -0,0 +1,38 @@
+import { LocationResult, TrackPoint } from "../util/types.ts";
+import Location from "./Location.ts";
+
+/** Where cached locations are kept, by rounded coordinates */
+export interface LocationCacheStore {
+  get(key: string): Promise<LocationResult | null>;
+  set(key: string, location: LocationResult): Promise<void>;
+}
+
+/**
+ * Caches the results of another location, keyed by coordinates rounded to
+ * `precision` decimals (3 decimals are roughly 100 m). Sessions at the same
+ * spot reuse the address instead of asking the geocoder again.
+ */
+export default class LocationCache implements Location {
+  constructor(
+    private location: Location,
+    private store: LocationCacheStore,
+    private precision = 3,
+  ) {}
+
+  getKey(point: TrackPoint): string {
+    return `${point.lat.toFixed(this.precision)},${
+      point.lon.toFixed(this.precision)
+    }`;
+  }
+
+  async getLocation(point: TrackPoint): Promise<LocationResult> {
+    const key = this.getKey(point);
+    const cached = await this.store.get(key);
+    if (cached) return cached;
+
+    // Failures are not cached, the next upload asks again
+    const location = await this.location.getLocation(point);
+    await this.store.set(key, location);
+    return location;
+  }
+}
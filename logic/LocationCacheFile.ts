@@ -0,0 +1,32 @@
+import { LocationResult } from "../util/types.ts";
+import { LocationCacheStore } from "./LocationCache.ts";
+
+/** All cached locations in one JSON file, for local development */
+export default class LocationCacheFile implements LocationCacheStore {
+  private entries?: Record<string, LocationResult>;
+
+  constructor(private path: string) {}
+
+  async get(key: string): Promise<LocationResult | null> {
+    return (await this.load())[key] ?? null;
+  }
+
+  async set(key: string, location: LocationResult): Promise<void> {
+    const entries = await this.load();
+    entries[key] = location;
+    const directory = this.path.slice(0, this.path.lastIndexOf("/"));
+    if (directory) await Deno.mkdir(directory, { recursive: true });
+    await Deno.writeTextFile(this.path, JSON.stringify(entries));
+  }
+
+  private async load(): Promise<Record<string, LocationResult>> {
+    if (this.entries) return this.entries;
+    try {
+      this.entries = JSON.parse(await Deno.readTextFile(this.path));
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      this.entries = {};
+    }
+    return this.entries!;
+  }
+}
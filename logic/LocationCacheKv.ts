@@ -0,0 +1,15 @@
+import { LocationResult } from "../util/types.ts";
+import { LocationCacheStore } from "./LocationCache.ts";
+
+/** Cached locations in Deno KV under ["locations", key] */
+export default class LocationCacheKv implements LocationCacheStore {
+  constructor(private kv: Deno.Kv) {}
+
+  async get(key: string): Promise<LocationResult | null> {
+    return (await this.kv.get<LocationResult>(["locations", key])).value;
+  }
+
+  async set(key: string, location: LocationResult): Promise<void> {
+    await this.kv.set(["locations", key], location);
+  }
+}
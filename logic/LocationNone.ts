@@ -0,0 +1,9 @@
+import { LocationResult } from "../util/types.ts";
+import Location from "./Location.ts";
+
+/** No reverse geocoding, every address part ends up as "n.a." */
+export default class LocationNone implements Location {
+  getLocation(): Promise<LocationResult> {
+    return Promise.resolve({ address: {} });
+  }
+}
@@ -1,16 +1,51 @@
-import { TrackPoint } from "../util/types.ts";
+import { LocationResult, TrackPoint } from "../util/types.ts";
 import Location from "./Location.ts";
+import { UpstreamError } from "../util/errors.ts";
+
+/** Nominatim asks every application to identify itself */
+const DEFAULT_USER_AGENT = "wingfoil-api/1.0";
+
+/** Nominatim's usage policy allows one request per second */
+const MIN_REQUEST_INTERVAL_MS = 1000;
 
 export default class LocationOpenStreetmap implements Location {
-  async getLocation(point: TrackPoint): Promise<any> {
+  private lastRequest = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private userAgent: string = DEFAULT_USER_AGENT) {}
+
+  async getLocation(point: TrackPoint): Promise<LocationResult> {
+    await this.throttle();
+    let location: Response;
     try {
-      const location = await fetch(
-        `https://nominatim.openstreetmap.org/reverse?format=jsonv2&lat=${point.lat}&lon=${point.lon}`
+      location = await fetch(
+        `https://nominatim.openstreetmap.org/reverse?format=jsonv2&lat=${point.lat}&lon=${point.lon}`,
+        {
+          headers: {
+            "User-Agent": this.userAgent,
+            Accept: "application/json",
+          },
+        }
       );
-      const data = await location.json();
-      return data;
     } catch (error) {
-      throw new Error("xx");
+      throw new UpstreamError(`Geocoding request failed: ${error}`);
     }
+    if (!location.ok) {
+      throw new UpstreamError(`Geocoding failed with status ${location.status}`);
+    }
+    const result = await location.json();
+    return { address: result?.address ?? {} };
+  }
+
+  /** Concurrent uploads wait in line until their turn comes */
+  private throttle(): Promise<void> {
+    this.queue = this.queue.then(async () => {
+      const wait = this.lastRequest + MIN_REQUEST_INTERVAL_MS - Date.now();
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      this.lastRequest = Date.now();
+    });
+    return this.queue;
   }
 }
@@ -0,0 +1,28 @@
+import { LocationResult, Spot, TrackPoint } from "../util/types.ts";
+import { isInPolygon } from "../util/utils.ts";
+import Location from "./Location.ts";
+import { Spots } from "./Spots.ts";
+
+/**
+ * Reverse geocoding from the curated spot database, offline and the same
+ * for every upload. Points outside all spots go to the fallback, or get an
+ * empty address without one.
+ */
+export default class LocationSpots implements Location {
+  constructor(
+    private spots: Spot[] = Spots.curated,
+    private fallback?: Location,
+  ) {}
+
+  getSpot(point: TrackPoint): Spot | undefined {
+    return this.spots.find((spot) => isInPolygon(point, spot.polygon));
+  }
+
+  async getLocation(point: TrackPoint): Promise<LocationResult> {
+    const spot = this.getSpot(point);
+    if (spot) return { address: { leisure: spot.name, ...spot.address } };
+    return this.fallback
+      ? await this.fallback.getLocation(point)
+      : { address: {} };
+  }
+}
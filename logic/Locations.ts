@@ -0,0 +1,42 @@
+import Location from "./Location.ts";
+import LocationCache, { LocationCacheStore } from "./LocationCache.ts";
+import LocationNone from "./LocationNone.ts";
+import LocationOpenStreetmap from "./LocationOpenStreetmap.ts";
+import LocationSpots from "./LocationSpots.ts";
+
+export type LocationProvider = "nominatim" | "spots" | "none";
+
+export type LocationConfig = {
+  provider: LocationProvider;
+  /** Caches the Nominatim results */
+  cache?: LocationCacheStore;
+  userAgent?: string;
+};
+
+/**
+ * Creates the reverse geocoding of uploads. "nominatim" looks up the
+ * curated spots first and asks Nominatim for everything else, "spots" stays
+ * offline and "none" leaves the address empty.
+ */
+export class Locations {
+  static readonly providers: LocationProvider[] = [
+    "nominatim",
+    "spots",
+    "none",
+  ];
+
+  static isProvider(name: unknown): name is LocationProvider {
+    return this.providers.includes(name as LocationProvider);
+  }
+
+  static create({ provider, cache, userAgent }: LocationConfig): Location {
+    if (provider === "none") return new LocationNone();
+    if (provider === "spots") return new LocationSpots();
+
+    const nominatim = new LocationOpenStreetmap(userAgent);
+    return new LocationSpots(
+      undefined,
+      cache ? new LocationCache(nominatim, cache) : nominatim,
+    );
+  }
+}
@@ -1,50 +1,92 @@
 import { XMLParser } from "npm:fast-xml-parser";
-import { SessionMetadata, TrackPoint } from "../util/types.ts";
+import { LocationResult, SessionMetadata, TrackPoint } from "../util/types.ts";
 import LocationOpenStreetmap from "./LocationOpenStreetmap.ts";
 import Location from "./Location.ts";
+import { ExtensionMapper } from "./ExtensionMapper.ts";
+import { isSegmentBreak, toArray } from "../util/utils.ts";
+import { ParseError } from "../util/errors.ts";
 
 const parser = new XMLParser({
   ignoreAttributes: false, // 👈 keep attributes
   attributeNamePrefix: "", // 👈 remove @ prefix for cleaner keys
 });
+
+/** A parsed <trkpt>: attributes are strings, numeric elements numbers */
+type RawTrackPoint = {
+  lat: string;
+  lon: string;
+  time: string;
+  ele?: string | number;
+  extensions?: unknown;
+};
+type RawSegment = { trkpt?: RawTrackPoint | RawTrackPoint[] };
+type RawTrack = { trkseg?: RawSegment | RawSegment[] };
+type RawGpx = { gpx?: { trk?: RawTrack | RawTrack[] } };
+
 export class Parser {
+  /** Reverse geocoding of uploads, configured by the server */
+  static location: Location = new LocationOpenStreetmap();
+
   static parseXMLtoJSON(xml: string): any {
-    const data = parser.parse(xml); // parse XML → JS object
-    return data;
+    try {
+      return parser.parse(xml); // parse XML → JS object
+    } catch (error) {
+      throw new ParseError(`Invalid XML: ${(error as Error).message}`);
+    }
   }
   static getPointsFromRawJson(data: any): TrackPoint[] {
-    const points = data.gpx.trk.trkseg.trkpt;
-    const convertedPoints: TrackPoint[] = points.map((raw: any) => {
-      return {
-        lat: parseFloat(raw.lat),
-        lon: parseFloat(raw.lon),
-        time: raw.time,
-        hr: raw.extensions["gpxdata:hr"],
-        distance: raw.extensions["gpxdata:distance"],
-        speed: raw.extensions["gpxdata:speed"] ?? null, // Use null if no speed data
-      };
-    });
+    const mapper = ExtensionMapper.fromDocument(data.gpx);
+    const convertedPoints: TrackPoint[] = [];
+
+    // A file may contain several <trk> and <trkseg> elements (e.g. auto-pause
+    // splits); every non-empty segment gets its own index.
+    let segment = 0;
+    for (const rawSegment of this.getRawSegments(data)) {
+      for (const raw of rawSegment) {
+        const point: TrackPoint = {
+          lat: parseFloat(raw.lat),
+          lon: parseFloat(raw.lon),
+          time: raw.time,
+          segment,
+        };
+        if (raw.ele !== undefined && raw.ele !== "") {
+          point.ele = parseFloat(String(raw.ele));
+        }
+        convertedPoints.push(mapper.apply(raw.extensions, point));
+      }
+      segment++;
+    }
 
     // Calculate speed from GPS coordinates if not available
     return this.calculateMissingSpeed(convertedPoints);
   }
 
   /**
-   * Calculate speed from GPS coordinates for points that don't have speed data
+   * Calculate speed from GPS coordinates for points that don't have speed data.
+   * Such points are flagged with `speedFromPosition`, device (Doppler) speeds
+   * are left as they are.
    */
-  private static calculateMissingSpeed(points: TrackPoint[]): TrackPoint[] {
+  static calculateMissingSpeed(points: TrackPoint[]): TrackPoint[] {
     if (points.length < 2) return points;
 
     // Set first point speed to 0 if missing
-    if (points[0].speed === null) {
+    if (points[0].speed == null) {
       points[0].speed = 0;
+      points[0].speedFromPosition = true;
     }
 
     for (let i = 1; i < points.length; i++) {
       // Only calculate speed if it's missing
-      if (points[i].speed === null) {
+      if (points[i].speed == null) {
         const prevPoint = points[i - 1];
         const currentPoint = points[i];
+        currentPoint.speedFromPosition = true;
+
+        // No movement can be derived across a gap between segments
+        if (isSegmentBreak(prevPoint, currentPoint)) {
+          points[i].speed = 0;
+          continue;
+        }
 
         // Calculate distance between points using Haversine formula
         const distance = this.calculateDistance(prevPoint, currentPoint);
@@ -90,16 +132,62 @@ export class Parser {
     return R * c;
   }
 
-  static async getMetadata(rawJson: any): Promise<SessionMetadata> {
-    const location: Location = new LocationOpenStreetmap();
-    const loc: any = await location.getLocation(
-      rawJson.gpx.trk.trkseg.trkpt[0],
-    );
+  /**
+   * All <trkseg> point lists of all <trk> elements. fast-xml-parser returns an
+   * object instead of an array for single elements, so normalize every level.
+   */
+  private static getRawSegments(data: RawGpx): RawTrackPoint[][] {
+    const segments: RawTrackPoint[][] = [];
+    for (const trk of toArray(data?.gpx?.trk)) {
+      for (const trkseg of toArray(trk?.trkseg)) {
+        const trkpts = toArray(trkseg?.trkpt);
+        if (trkpts.length > 0) {
+          segments.push(trkpts);
+        }
+      }
+    }
+    return segments;
+  }
 
+  static async getMetadata(rawJson: any): Promise<SessionMetadata> {
+    const firstTrack = toArray(rawJson.gpx.trk)[0];
+    const firstPoint = this.getRawSegments(rawJson)[0]?.[0];
+    // Raw GPX attributes are strings
+    const location = firstPoint
+      ? await this.getLocationMetadata({
+          lat: Number(firstPoint.lat),
+          lon: Number(firstPoint.lon),
+          time: firstPoint.time,
+        })
+      : {};
+
+    // Not every device writes <metadata><time> (e.g. Suunto), the first
+    // point is the next best start time
     const metadata: SessionMetadata = {
-      name: rawJson.gpx.trk.name,
-      type: rawJson.gpx.trk.type,
-      time: rawJson.gpx.metadata.time,
+      name: firstTrack?.name ?? "",
+      type: firstTrack?.type ?? "",
+      time: rawJson.gpx.metadata?.time ?? firstPoint?.time ?? "",
+      ...location,
+    };
+
+    return metadata;
+  }
+
+  /**
+   * Reverse geocode the given point into the address part of the metadata.
+   * A failed lookup leaves the address "n.a." instead of failing the upload.
+   */
+  static async getLocationMetadata(
+    point: TrackPoint,
+  ): Promise<Partial<SessionMetadata>> {
+    const loc = await this.location
+      .getLocation(point)
+      .catch((error): LocationResult => {
+        console.warn(`Reverse geocoding failed: ${error}`);
+        return { address: {} };
+      });
+
+    return {
       city: loc.address.city || "n.a.",
       district: loc.address.city_district || "n.a.",
       hamlet: loc.address.hamlet || "n.a.",
@@ -111,7 +199,5 @@ export class Parser {
       state: loc.address.state || "n.a.",
       country_code: loc.address.country_code || "n.a.",
     };
-
-    return metadata;
   }
 }
@@ -0,0 +1,89 @@
+import { PolarBin, PolarDiagram, TrackPoint } from "../util/types.ts";
+import {
+  getTrackSteps,
+  signedAngleDifference,
+  weightedPercentile,
+} from "../util/utils.ts";
+
+/**
+ * Speed by true wind angle. Port and starboard are folded together, so the
+ * bins go from 0° (head to wind) to 180° (dead downwind).
+ */
+export class PolarAnalysis {
+  static compute(
+    points: TrackPoint[],
+    windDirection: number,
+    minSpeedKmh: number,
+    binSize = 10,
+  ): PolarDiagram {
+    const binCount = Math.ceil(180 / binSize);
+    const samples: [number, number][][] = Array.from(
+      { length: binCount },
+      () => [],
+    );
+    const minSpeedMs = minSpeedKmh / 3.6;
+
+    for (const step of getTrackSteps(points)) {
+      if (step.speed < minSpeedMs) continue;
+      const twa = Math.abs(signedAngleDifference(windDirection, step.course));
+      const bin = Math.min(Math.floor(twa / binSize), binCount - 1);
+      samples[bin].push([step.speed, step.dt]);
+    }
+
+    const bins: PolarBin[] = samples.map((binSamples, i) => {
+      let time = 0;
+      let weighted = 0;
+      let max = 0;
+      for (const [speed, dt] of binSamples) {
+        time += dt;
+        weighted += speed * dt;
+        max = Math.max(max, speed);
+      }
+      const avg = time > 0 ? weighted / time : 0;
+
+      return {
+        fromAngle: i * binSize,
+        toAngle: Math.min((i + 1) * binSize, 180),
+        time: parseFloat(time.toFixed(1)),
+        avgSpeed: parseFloat((avg * 3.6).toFixed(1)),
+        p90Speed: parseFloat(
+          (weightedPercentile(binSamples, 90) * 3.6).toFixed(1),
+        ),
+        maxSpeed: parseFloat((max * 3.6).toFixed(1)),
+      };
+    });
+
+    return {
+      windDirection,
+      binSize,
+      bins,
+      bestUpwindAngle: this.getSweetSpot(bins, "upwind"),
+      bestDownwindAngle: this.getSweetSpot(bins, "downwind"),
+    };
+  }
+
+  /**
+   * Center angle of the bin with the best average VMG in the given
+   * direction, only bins with at least 10 seconds of data count
+   */
+  private static getSweetSpot(
+    bins: PolarBin[],
+    direction: "upwind" | "downwind",
+  ): number | undefined {
+    let best: number | undefined;
+    let bestVmg = 0;
+
+    for (const bin of bins) {
+      if (bin.time < 10) continue;
+      const center = (bin.fromAngle + bin.toAngle) / 2;
+      const vmg = bin.avgSpeed * Math.cos((center * Math.PI) / 180);
+      const directedVmg = direction === "upwind" ? vmg : -vmg;
+      if (directedVmg > bestVmg) {
+        bestVmg = directedVmg;
+        best = center;
+      }
+    }
+
+    return best;
+  }
+}
@@ -0,0 +1,510 @@
+import {
+  PreprocessingConfig,
+  PreprocessingReport,
+  PreprocessingStageReport,
+  SmoothingMethod,
+  TrackPoint,
+} from "../util/types.ts";
+import { calculateDistance, isSegmentBreak } from "../util/utils.ts";
+import { ValidationError } from "../util/errors.ts";
+import { ImporterRegistry } from "./ImporterRegistry.ts";
+
+const DEFAULT_CONFIG: PreprocessingConfig = {
+  removeDuplicates: true,
+  removeSpikes: true,
+  maxSpeedKmh: 100,
+  maxAcceleration: 5,
+  smoothing: "none",
+  smoothingWindow: 5,
+  resampleSeconds: 0,
+};
+
+/** Accepted range of the numeric options */
+const LIMITS: [keyof PreprocessingConfig, number, number][] = [
+  ["maxSpeedKmh", 10, 300],
+  ["maxAcceleration", 0.5, 50],
+  ["smoothingWindow", 3, 51],
+  ["resampleSeconds", 0, 60],
+];
+
+const SMOOTHING_METHODS: SmoothingMethod[] = [
+  "none",
+  "kalman",
+  "savitzky-golay",
+];
+
+/** A speed this far above or below both neighbors (m/s, 18 km/h) is isolated */
+const ISOLATED_SPIKE_MPS = 5;
+
+/** Points shifted less than this by smoothing do not count as moved */
+const MOVED_METERS = 1;
+
+// Kalman noise: GPS positions are good to a few meters, Doppler speeds to
+// about half a meter per second
+const POSITION_VARIANCE = 3 ** 2;
+const POSITION_PROCESS_NOISE = 1;
+const SPEED_VARIANCE = 0.5 ** 2;
+const SPEED_PROCESS_NOISE = 0.5;
+
+const METERS_PER_DEGREE = 111320;
+
+type StageResult = {
+  points: TrackPoint[];
+  details?: Partial<PreprocessingStageReport>;
+};
+
+const toMs = (point: TrackPoint) => new Date(point.time).getTime();
+
+const secondsBetween = (a: TrackPoint, b: TrackPoint) =>
+  (toMs(b) - toMs(a)) / 1000;
+
+/** Consecutive points of the same track segment */
+const splitSegments = (points: TrackPoint[]): TrackPoint[][] => {
+  const segments: TrackPoint[][] = [];
+  for (let i = 0; i < points.length; i++) {
+    if (i === 0 || isSegmentBreak(points[i - 1], points[i])) {
+      segments.push([]);
+    }
+    segments[segments.length - 1].push(points[i]);
+  }
+  return segments;
+};
+
+/**
+ * Speeds derived from positions follow the positions they came from, the
+ * same way Parser.calculateMissingSpeed derived them
+ */
+const updatePositionSpeeds = (points: TrackPoint[]): TrackPoint[] =>
+  points.map((point, i) => {
+    if (!point.speedFromPosition) return point;
+    const prev = points[i - 1];
+    if (!prev || isSegmentBreak(prev, point)) return { ...point, speed: 0 };
+    const dt = secondsBetween(prev, point);
+    return {
+      ...point,
+      speed: dt > 0 ? calculateDistance(prev, point) / dt : prev.speed ?? 0,
+    };
+  });
+
+/** Drops points whose timestamp is not after the previous one */
+const removeDuplicates = (points: TrackPoint[]): StageResult => {
+  const kept: TrackPoint[] = [];
+  for (const point of points) {
+    const prev = kept[kept.length - 1];
+    if (!prev || isSegmentBreak(prev, point) || toMs(point) > toMs(prev)) {
+      kept.push(point);
+    }
+  }
+  if (kept.length === points.length) return { points, details: { removed: 0 } };
+  return {
+    points: updatePositionSpeeds(kept),
+    details: { removed: points.length - kept.length },
+  };
+};
+
+/**
+ * Drops position spikes, points the track jumps to and right back from
+ * faster than maxSpeedKmh or that are too fast to reach from both
+ * neighbors, and repairs speed spikes: speeds above the limit
+ * or isolated jumps needing more than maxAcceleration are replaced by the
+ * mean of their neighbors.
+ */
+const removeSpikes = (
+  points: TrackPoint[],
+  config: PreprocessingConfig,
+): StageResult => {
+  const maxSpeed = config.maxSpeedKmh / 3.6;
+  const isPlausible = (a: TrackPoint, b: TrackPoint) => {
+    const dt = secondsBetween(a, b);
+    const distance = calculateDistance(a, b);
+    return dt > 0 ? distance / dt <= maxSpeed : distance < MOVED_METERS;
+  };
+
+  const kept: TrackPoint[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const point = points[i];
+    const prev = kept[kept.length - 1];
+    if (!prev || isSegmentBreak(prev, point) || isPlausible(prev, point)) {
+      kept.push(point);
+      continue;
+    }
+
+    const next = points[i + 1];
+    const hasNext = next !== undefined && !isSegmentBreak(point, next);
+    // The track comes right back, this point is the spike
+    if (hasNext && isPlausible(prev, next)) continue;
+
+    // The point before may be the spike itself, e.g. the first point of a
+    // segment or a stale fix after a gap in the recording
+    const beforePrev = kept[kept.length - 2];
+    const prevStartsSegment = !beforePrev || isSegmentBreak(beforePrev, prev);
+    if (
+      hasNext && isPlausible(point, next) &&
+      (prevStartsSegment || isPlausible(beforePrev, point))
+    ) {
+      kept[kept.length - 1] = point;
+      continue;
+    }
+
+    // Too fast to and from its neighbors, this point is the spike
+    if (hasNext && !isPlausible(point, next)) continue;
+
+    // A real jump the following points confirm, e.g. after the GPS lost the
+    // fix for a while
+    kept.push(point);
+  }
+  const withSpeeds = kept.length === points.length
+    ? points
+    : updatePositionSpeeds(kept);
+
+  let speedsRepaired = 0;
+  const repaired = withSpeeds.map((point, i) => {
+    if (point.speed === undefined) return point;
+    const neighbors = [withSpeeds[i - 1], withSpeeds[i + 1]].filter(
+      (n): n is TrackPoint & { speed: number } =>
+        n !== undefined && n.speed !== undefined && !isSegmentBreak(n, point) &&
+        !isSegmentBreak(point, n),
+    );
+    if (neighbors.length === 0) return point;
+
+    const speed = point.speed;
+    const neighborSpeed = neighbors.reduce((sum, n) => sum + n.speed, 0) /
+      neighbors.length;
+    const isJump = neighbors.some((n) => {
+      const dt = Math.abs(secondsBetween(n, point));
+      return dt > 0 && Math.abs(speed - n.speed) / dt > config.maxAcceleration;
+    });
+    // Above or below both neighbors, not just next to a spike
+    const isIsolated = neighbors.every((n) =>
+      speed - n.speed > ISOLATED_SPIKE_MPS
+    ) || neighbors.every((n) => n.speed - speed > ISOLATED_SPIKE_MPS);
+
+    if (speed <= maxSpeed && !(isJump && isIsolated)) return point;
+    speedsRepaired++;
+    return { ...point, speed: Math.min(neighborSpeed, maxSpeed) };
+  });
+
+  return {
+    points: speedsRepaired > 0 ? repaired : withSpeeds,
+    details: { removed: points.length - kept.length, speedsRepaired },
+  };
+};
+
+/**
+ * Quadratic Savitzky–Golay smoothing. It assumes evenly spaced samples, so
+ * points with a gap in their window and the edges are left as they are.
+ */
+const savitzkyGolay = (
+  values: number[],
+  times: number[],
+  window: number,
+): number[] => {
+  const m = Math.floor(window / 2);
+  if (values.length < 2 * m + 1) return values;
+
+  const norm = (2 * m - 1) * (2 * m + 1) * (2 * m + 3);
+  const coefficients = Array.from(
+    { length: 2 * m + 1 },
+    (_, k) => (3 * (3 * m * m + 3 * m - 1) - 15 * (k - m) ** 2) / norm,
+  );
+  const isEven = (i: number) => {
+    const step = (times[i + m] - times[i - m]) / (2 * m);
+    for (let k = i - m; k < i + m; k++) {
+      const dt = times[k + 1] - times[k];
+      if (dt < step * 0.5 || dt > step * 1.5) return false;
+    }
+    return true;
+  };
+  return values.map((value, i) => {
+    if (i < m || i >= values.length - m || !isEven(i)) return value;
+    return coefficients.reduce((sum, c, k) => sum + c * values[i + k - m], 0);
+  });
+};
+
+/**
+ * Kalman filter with a constant velocity model, followed by a
+ * Rauch–Tung–Striebel pass so the result does not lag behind the track.
+ * `times` are in seconds, the variances in the unit of the values.
+ */
+const kalmanSmooth = (
+  values: number[],
+  times: number[],
+  measurementVariance: number,
+  processNoise: number,
+): number[] => {
+  const n = values.length;
+  if (n < 3) return values;
+
+  // Filtered and predicted [position, velocity] with covariances [a, b, d]
+  const filtered: [number, number][] = [[values[0], 0]];
+  const filteredCov: [number, number, number][] = [
+    [measurementVariance, 0, 100],
+  ];
+  const predicted: [number, number][] = [[values[0], 0]];
+  const predictedCov: [number, number, number][] = [filteredCov[0]];
+
+  for (let k = 1; k < n; k++) {
+    const dt = times[k] - times[k - 1];
+    const [x, v] = filtered[k - 1];
+    const [a, b, d] = filteredCov[k - 1];
+    const q = processNoise;
+
+    const xp: [number, number] = [x + dt * v, v];
+    const pa = a + 2 * dt * b + dt * dt * d + (q * dt ** 3) / 3;
+    const pb = b + dt * d + (q * dt ** 2) / 2;
+    const pd = d + q * dt;
+    predicted.push(xp);
+    predictedCov.push([pa, pb, pd]);
+
+    const s = pa + measurementVariance;
+    const k0 = pa / s;
+    const k1 = pb / s;
+    const residual = values[k] - xp[0];
+    filtered.push([xp[0] + k0 * residual, xp[1] + k1 * residual]);
+    filteredCov.push([(1 - k0) * pa, (1 - k0) * pb, pd - k1 * pb]);
+  }
+
+  const smoothed = [...filtered];
+  for (let k = n - 2; k >= 0; k--) {
+    const dt = times[k + 1] - times[k];
+    const [a, b, d] = filteredCov[k];
+    const [e, f, g] = predictedCov[k + 1];
+    const det = e * g - f * f;
+    if (!(det > 0)) continue;
+
+    // C = P_filtered * F' * P_predicted^-1
+    const c00 = ((a + b * dt) * g - b * f) / det;
+    const c01 = (b * e - (a + b * dt) * f) / det;
+    const c10 = ((b + d * dt) * g - d * f) / det;
+    const c11 = (d * e - (b + d * dt) * f) / det;
+    const dx = smoothed[k + 1][0] - predicted[k + 1][0];
+    const dv = smoothed[k + 1][1] - predicted[k + 1][1];
+    smoothed[k] = [
+      filtered[k][0] + c00 * dx + c01 * dv,
+      filtered[k][1] + c10 * dx + c11 * dv,
+    ];
+  }
+  return smoothed.map(([x]) => x);
+};
+
+/**
+ * Smooths positions, and device speeds where the whole segment has them.
+ * Speeds derived from positions are derived again from the smoothed ones.
+ */
+const smooth = (
+  points: TrackPoint[],
+  config: PreprocessingConfig,
+): StageResult => {
+  const result: TrackPoint[] = [];
+  for (const segment of splitSegments(points)) {
+    const lat0 = segment[0].lat;
+    const lon0 = segment[0].lon;
+    const lonScale = Math.cos((lat0 * Math.PI) / 180) * METERS_PER_DEGREE;
+    // Local meters, so the noise of both axes is comparable
+    const north = segment.map((p) => (p.lat - lat0) * METERS_PER_DEGREE);
+    const east = segment.map((p) => (p.lon - lon0) * lonScale);
+    const times = segment.map((p) => (toMs(p) - toMs(segment[0])) / 1000);
+    const hasDeviceSpeeds = segment.every((p) =>
+      p.speed !== undefined && !p.speedFromPosition
+    );
+    const speeds = segment.map((p) => p.speed ?? 0);
+
+    const filter = (values: number[], variance: number, noise: number) =>
+      config.smoothing === "kalman"
+        ? kalmanSmooth(values, times, variance, noise)
+        : savitzkyGolay(values, times, config.smoothingWindow);
+    const smoothNorth = filter(
+      north,
+      POSITION_VARIANCE,
+      POSITION_PROCESS_NOISE,
+    );
+    const smoothEast = filter(east, POSITION_VARIANCE, POSITION_PROCESS_NOISE);
+    const smoothSpeeds = hasDeviceSpeeds
+      ? filter(speeds, SPEED_VARIANCE, SPEED_PROCESS_NOISE)
+      : speeds;
+
+    segment.forEach((point, i) => {
+      result.push({
+        ...point,
+        lat: lat0 + smoothNorth[i] / METERS_PER_DEGREE,
+        lon: lon0 + smoothEast[i] / lonScale,
+        ...(hasDeviceSpeeds && { speed: Math.max(0, smoothSpeeds[i]) }),
+      });
+    });
+  }
+
+  const shifts = points.map((point, i) => calculateDistance(point, result[i]));
+  return {
+    points: updatePositionSpeeds(result),
+    details: {
+      moved: shifts.filter((shift) => shift > MOVED_METERS).length,
+      // Spreading every point into Math.max overflows the call stack
+      maxShift: parseFloat(
+        shifts.reduce((max, shift) => Math.max(max, shift), 0).toFixed(1),
+      ),
+    },
+  };
+};
+
+/** Linear interpolation of the optional numbers of two points */
+const interpolate = (
+  a: TrackPoint,
+  b: TrackPoint,
+  fraction: number,
+): Partial<TrackPoint> => {
+  const values: Partial<TrackPoint> = {};
+  for (const key of ["speed", "ele", "hr", "distance"] as const) {
+    const from = a[key];
+    const to = b[key];
+    if (from === undefined || to === undefined) continue;
+    values[key] = from + (to - from) * fraction;
+  }
+  if (values.hr !== undefined) values.hr = Math.round(values.hr);
+  return values;
+};
+
+/**
+ * Points at a fixed interval from the start of each segment. A short
+ * interval over a long recording would make more points than any upload may
+ * have, that is refused before the points are made.
+ */
+const resample = (
+  points: TrackPoint[],
+  intervalSeconds: number,
+): StageResult => {
+  const segments = splitSegments(points);
+  let count = 0;
+  for (const segment of segments) {
+    const seconds = secondsBetween(segment[0], segment[segment.length - 1]);
+    count += Math.floor(seconds / intervalSeconds) + 1;
+  }
+  if (count > ImporterRegistry.maxPoints) {
+    throw new ValidationError(
+      `Resampling every ${intervalSeconds} s makes ${count} points, at most ` +
+        `${ImporterRegistry.maxPoints} are supported`,
+      413,
+    );
+  }
+
+  const result: TrackPoint[] = [];
+  for (const segment of segments) {
+    const start = toMs(segment[0]);
+    const end = toMs(segment[segment.length - 1]);
+    let j = 0;
+    for (let t = start; t <= end; t += intervalSeconds * 1000) {
+      while (j < segment.length - 2 && toMs(segment[j + 1]) < t) j++;
+      const a = segment[j];
+      const b = segment[Math.min(j + 1, segment.length - 1)];
+      const span = toMs(b) - toMs(a);
+      const fraction = span > 0 ? Math.min(1, (t - toMs(a)) / span) : 0;
+
+      result.push({
+        ...(fraction < 0.5 ? a : b),
+        lat: a.lat + (b.lat - a.lat) * fraction,
+        lon: a.lon + (b.lon - a.lon) * fraction,
+        time: new Date(t).toISOString(),
+        ...interpolate(a, b, fraction),
+      });
+    }
+  }
+  return { points: updatePositionSpeeds(result) };
+};
+
+/**
+ * Cleans the recorded points before any analysis: duplicate timestamps,
+ * position and speed spikes, optional smoothing and resampling. Every
+ * stage reports what it changed. The recorded points are not modified and
+ * come back unchanged when no stage changed anything.
+ */
+export class Preprocessing {
+  static readonly defaults: PreprocessingConfig = DEFAULT_CONFIG;
+
+  static run(
+    points: TrackPoint[],
+    config: Partial<PreprocessingConfig> = {},
+  ): { points: TrackPoint[]; report: PreprocessingReport } {
+    const resolved = { ...DEFAULT_CONFIG, ...config };
+    const stages: PreprocessingStageReport[] = [];
+    let current = points;
+
+    const apply = (
+      stage: PreprocessingStageReport["stage"],
+      { points: next, details }: StageResult,
+    ) => {
+      stages.push({
+        stage,
+        pointsBefore: current.length,
+        pointsAfter: next.length,
+        ...details,
+      });
+      current = next;
+    };
+
+    if (resolved.removeDuplicates) {
+      apply("duplicates", removeDuplicates(current));
+    }
+    if (resolved.removeSpikes) {
+      apply("spikes", removeSpikes(current, resolved));
+    }
+    if (resolved.smoothing !== "none") {
+      apply("smoothing", smooth(current, resolved));
+    }
+    if (resolved.resampleSeconds > 0) {
+      apply("resampling", resample(current, resolved.resampleSeconds));
+    }
+
+    return { points: current, report: { config: resolved, stages } };
+  }
+
+  /**
+   * Preprocessing options from query or JSON values, only the given ones
+   * are returned
+   */
+  static parse(values: Record<string, unknown>): Partial<PreprocessingConfig> {
+    const config: Partial<PreprocessingConfig> = {};
+
+    for (const key of ["removeDuplicates", "removeSpikes"] as const) {
+      const value = values[key];
+      if (value === undefined) continue;
+      if (
+        value !== true && value !== false && value !== "true" &&
+        value !== "false"
+      ) {
+        throw new ValidationError(`${key} must be true or false`);
+      }
+      config[key] = value === true || value === "true";
+    }
+
+    if (values.smoothing !== undefined) {
+      const smoothing = values.smoothing as SmoothingMethod;
+      if (!SMOOTHING_METHODS.includes(smoothing)) {
+        throw new ValidationError(
+          `smoothing must be one of ${SMOOTHING_METHODS.join(", ")}`,
+        );
+      }
+      config.smoothing = smoothing;
+    }
+
+    for (const [key, min, max] of LIMITS) {
+      if (values[key] === undefined) continue;
+      const value = values[key] === "" ? NaN : Number(values[key]);
+      if (!(value >= min && value <= max)) {
+        throw new ValidationError(`${key} must be between ${min} and ${max}`);
+      }
+      (config as Record<string, number>)[key] = value;
+    }
+    // Below a second the points would only multiply
+    const interval = config.resampleSeconds;
+    if (interval !== undefined && interval > 0 && interval < 1) {
+      throw new ValidationError(
+        "resampleSeconds must be 0 (off) or at least 1",
+      );
+    }
+    const window = config.smoothingWindow;
+    if (window !== undefined && !(Number.isInteger(window) && window % 2)) {
+      throw new ValidationError("smoothingWindow must be an odd number");
+    }
+
+    return config;
+  }
+}
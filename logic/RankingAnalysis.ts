@@ -0,0 +1,243 @@
+import {
+  FiveByTenResult,
+  RankingResult,
+  Rankings,
+  TrackPoint,
+} from "../util/types.ts";
+import { calculateDistance, isSegmentBreak } from "../util/utils.ts";
+
+/** Steps longer than this end a run, the rider was not recorded (seconds) */
+const MAX_STEP_SECONDS = 10;
+const NAUTICAL_MILE = 1852;
+const ALPHA_DISTANCE = 500;
+/** Start and end of an alpha have to be this close together (meters) */
+const ALPHA_GATE = 50;
+/** Shorter "alphas" are just turning on the spot (meters) */
+const ALPHA_MIN_DISTANCE = 250;
+
+/** Uninterrupted part of the track with cumulative time and distance */
+type Run = {
+  indices: number[];
+  times: number[]; // seconds since the run start
+  distances: number[]; // meters since the run start
+};
+
+/**
+ * Result categories of GPS speedsurfing rankings (gps-speedsurfing.com).
+ *
+ * When the device recorded speeds (Doppler), distances are the integrated
+ * speeds like the rankings do it. Tracks without device speeds fall back to
+ * the distances between positions, which is noisier.
+ */
+export class RankingAnalysis {
+  static compute(points: TrackPoint[]): Rankings {
+    const method = this.getMethod(points);
+    const runs = this.getRuns(points, method);
+
+    return {
+      method,
+      twoSeconds: this.bestTimeWindow(points, runs, 2),
+      tenSeconds: this.bestTimeWindow(points, runs, 10),
+      fiveByTenSeconds: this.bestFiveByTen(points, runs),
+      fiveHundredMeters: this.bestDistanceWindow(points, runs, 500),
+      nauticalMile: this.bestDistanceWindow(points, runs, NAUTICAL_MILE),
+      alpha500: this.bestAlpha(points, runs),
+      oneHour: this.bestTimeWindow(points, runs, 3600),
+    };
+  }
+
+  private static getMethod(points: TrackPoint[]): Rankings["method"] {
+    const derived = points.filter((p) => p.speedFromPosition).length;
+    return points.length > 0 && derived < points.length / 2
+      ? "doppler"
+      : "position";
+  }
+
+  private static getRuns(
+    points: TrackPoint[],
+    method: Rankings["method"],
+  ): Run[] {
+    const runs: Run[] = [];
+    let run: Run | null = null;
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const p1 = points[i];
+      const p2 = points[i + 1];
+      const dt = (new Date(p2.time).getTime() - new Date(p1.time).getTime()) /
+        1000;
+
+      if (isSegmentBreak(p1, p2) || dt <= 0 || dt > MAX_STEP_SECONDS) {
+        if (run) runs.push(run);
+        run = null;
+        continue;
+      }
+
+      if (!run) run = { indices: [i], times: [0], distances: [0] };
+      const step = method === "doppler"
+        ? (((p1.speed || 0) + (p2.speed || 0)) / 2) * dt
+        : calculateDistance(p1, p2);
+      const last = run.indices.length - 1;
+      run.indices.push(i + 1);
+      run.times.push(run.times[last] + dt);
+      run.distances.push(run.distances[last] + step);
+    }
+    if (run) runs.push(run);
+
+    return runs;
+  }
+
+  /**
+   * All windows of at least `seconds` (and not stretched by long steps to
+   * more than 1.5 times that, or one second for short windows)
+   */
+  private static getTimeWindows(
+    points: TrackPoint[],
+    runs: Run[],
+    seconds: number,
+  ): RankingResult[] {
+    const maxDuration = Math.max(seconds * 1.5, seconds + 1);
+    const windows: RankingResult[] = [];
+
+    for (const run of runs) {
+      let j = 0;
+      for (let i = 0; i < run.indices.length; i++) {
+        if (j < i) j = i;
+        while (
+          j < run.indices.length - 1 && run.times[j] - run.times[i] < seconds
+        ) {
+          j++;
+        }
+        const duration = run.times[j] - run.times[i];
+        if (duration < seconds) break;
+        if (duration > maxDuration) continue;
+        windows.push(this.toResult(points, run, i, j));
+      }
+    }
+
+    return windows;
+  }
+
+  private static bestTimeWindow(
+    points: TrackPoint[],
+    runs: Run[],
+    seconds: number,
+  ): RankingResult | null {
+    return this.best(this.getTimeWindows(points, runs, seconds));
+  }
+
+  /** Average of the five best 10 second windows that do not overlap */
+  private static bestFiveByTen(
+    points: TrackPoint[],
+    runs: Run[],
+  ): FiveByTenResult | null {
+    const windows = this.getTimeWindows(points, runs, 10)
+      .sort((a, b) => b.speed - a.speed);
+    const selected: RankingResult[] = [];
+
+    for (const window of windows) {
+      const overlaps = selected.some((other) =>
+        window.startIndex < other.endIndex && other.startIndex < window.endIndex
+      );
+      if (!overlaps) selected.push(window);
+      if (selected.length === 5) break;
+    }
+
+    if (selected.length < 5) return null;
+    const speed = selected.reduce((sum, r) => sum + r.speed, 0) / 5;
+    return { speed: parseFloat(speed.toFixed(2)), runs: selected };
+  }
+
+  private static bestDistanceWindow(
+    points: TrackPoint[],
+    runs: Run[],
+    meters: number,
+  ): RankingResult | null {
+    const windows: RankingResult[] = [];
+
+    for (const run of runs) {
+      let j = 0;
+      for (let i = 0; i < run.indices.length; i++) {
+        if (j < i) j = i;
+        while (
+          j < run.indices.length - 1 &&
+          run.distances[j] - run.distances[i] < meters
+        ) {
+          j++;
+        }
+        if (run.distances[j] - run.distances[i] < meters) break;
+        windows.push(this.toResult(points, run, i, j));
+      }
+    }
+
+    return this.best(windows);
+  }
+
+  /**
+   * Alpha 500: at most 500 m (usually around a jibe) with the end point
+   * back within 50 m of the start point
+   */
+  private static bestAlpha(
+    points: TrackPoint[],
+    runs: Run[],
+  ): RankingResult | null {
+    const windows: RankingResult[] = [];
+
+    for (const run of runs) {
+      for (let i = 0; i < run.indices.length; i++) {
+        const start = points[run.indices[i]];
+        let best: RankingResult | null = null;
+
+        for (
+          let j = i + 1;
+          j < run.indices.length &&
+          run.distances[j] - run.distances[i] <= ALPHA_DISTANCE;
+          j++
+        ) {
+          if (run.distances[j] - run.distances[i] < ALPHA_MIN_DISTANCE) {
+            continue;
+          }
+          if (calculateDistance(start, points[run.indices[j]]) > ALPHA_GATE) {
+            continue;
+          }
+          const result = this.toResult(points, run, i, j);
+          if (!best || result.speed > best.speed) best = result;
+        }
+
+        if (best) windows.push(best);
+      }
+    }
+
+    return this.best(windows);
+  }
+
+  private static best(windows: RankingResult[]): RankingResult | null {
+    let best: RankingResult | null = null;
+    for (const window of windows) {
+      if (!best || window.speed > best.speed) best = window;
+    }
+    return best;
+  }
+
+  private static toResult(
+    points: TrackPoint[],
+    run: Run,
+    from: number,
+    to: number,
+  ): RankingResult {
+    const duration = run.times[to] - run.times[from];
+    const distance = run.distances[to] - run.distances[from];
+    const startIndex = run.indices[from];
+    const endIndex = run.indices[to];
+
+    return {
+      // Two decimals, rankings are decided by small differences
+      speed: parseFloat(((distance / duration) * 3.6).toFixed(2)),
+      startIndex,
+      endIndex,
+      startTime: points[startIndex].time,
+      endTime: points[endIndex].time,
+      distance: parseFloat(distance.toFixed(1)),
+      durationSeconds: parseFloat(duration.toFixed(1)),
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { PersonalRecords, RecordName, SessionSummary } from "../util/types.ts";
+
+/** A flying jibe percentage of fewer jibes is luck, not a record */
+const MIN_JIBES_FOR_PERCENTAGE = 5;
+
+const RECORD_NAMES: RecordName[] = [
+  "maxSpeed",
+  "longestActivity",
+  "flyingJibes",
+  "flyingJibePercentage",
+  "twoSeconds",
+  "tenSeconds",
+  "fiveByTenSeconds",
+  "fiveHundredMeters",
+  "nauticalMile",
+  "alpha500",
+  "oneHour",
+];
+
+const getTime = (summary: SessionSummary) =>
+  summary.metadata.time || summary.createdAt;
+
+/**
+ * Personal records from the highlights of the stored sessions. Sessions are
+ * gone through in the order they were recorded, so every record knows when
+ * it was set and which record it broke.
+ */
+export class Records {
+  static readonly minJibesForPercentage = MIN_JIBES_FOR_PERCENTAGE;
+
+  static compute(summaries: SessionSummary[]): PersonalRecords {
+    const records = Object.fromEntries(
+      RECORD_NAMES.map((name) => [name, null]),
+    ) as PersonalRecords;
+
+    const oldestFirst = [...summaries].sort((a, b) =>
+      getTime(a).localeCompare(getTime(b))
+    );
+    for (const summary of oldestFirst) {
+      const { highlights } = summary;
+      if (!highlights) continue;
+
+      for (const name of RECORD_NAMES) {
+        const value = highlights[name];
+        if (value === undefined || value <= 0) continue;
+        if (
+          name === "flyingJibePercentage" &&
+          (highlights.jibes ?? 0) < MIN_JIBES_FOR_PERCENTAGE
+        ) {
+          continue;
+        }
+
+        const record = records[name];
+        if (record && value <= record.value) continue;
+        records[name] = {
+          value,
+          sessionId: summary.id,
+          setAt: getTime(summary),
+          previous: record && {
+            value: record.value,
+            sessionId: record.sessionId,
+          },
+        };
+      }
+    }
+    return records;
+  }
+}
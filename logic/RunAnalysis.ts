@@ -0,0 +1,134 @@
+import { RunInfo, RunStatistics, Segment, TrackPoint } from "../util/types.ts";
+import {
+  calculateBearing,
+  calculateDistance,
+  normalizeAngle,
+  signedAngleDifference,
+} from "../util/utils.ts";
+
+/** Shorter runs are listed, but too short to compete in the leaderboards */
+const MIN_RANKED_RUN_SECONDS = 10;
+
+/**
+ * Runs are the straight and slow segments of the timeline between two
+ * maneuvers (or the start, the end and gaps of the track). Runs without any
+ * straight riding are breaks and not listed.
+ */
+export class RunAnalysis {
+  static compute(
+    points: TrackPoint[],
+    segments: Segment[],
+    flyingSpeedKmh: number,
+    topRuns = 5,
+    windDirection?: number,
+  ): RunStatistics {
+    const runs: RunInfo[] = [];
+    let group: Segment[] = [];
+
+    const close = () => {
+      if (group.some((segment) => segment.type === "straight")) {
+        runs.push(
+          this.createRunInfo(
+            points,
+            group[0].startIndex,
+            group[group.length - 1].endIndex,
+            flyingSpeedKmh,
+            windDirection,
+          ),
+        );
+      }
+      group = [];
+    };
+
+    for (const segment of segments) {
+      const isRun = segment.type === "straight" || segment.type === "slow";
+      const last = group[group.length - 1];
+      // A run ends at a maneuver or at a gap in the track
+      if (!isRun || (last && last.endIndex !== segment.startIndex)) close();
+      if (isRun) group.push(segment);
+    }
+    close();
+
+    const ranked = runs.filter((run) =>
+      run.durationSeconds >= MIN_RANKED_RUN_SECONDS
+    );
+    const top = (key: "distance" | "avgSpeed" | "foilTime") =>
+      [...ranked].sort((a, b) => b[key] - a[key]).slice(0, topRuns);
+
+    return {
+      count: runs.length,
+      runs,
+      top: {
+        distance: top("distance"),
+        speed: top("avgSpeed"),
+        foilTime: top("foilTime"),
+      },
+    };
+  }
+
+  private static createRunInfo(
+    points: TrackPoint[],
+    startIndex: number,
+    endIndex: number,
+    flyingSpeedKmh: number,
+    windDirection?: number,
+  ): RunInfo {
+    const flyingSpeedMs = flyingSpeedKmh / 3.6;
+    let distance = 0;
+    let foilTime = 0;
+    let maxSpeed = 0;
+    let onFoil = true;
+    // Mean course as the direction of the distance weighted course vectors
+    let east = 0;
+    let north = 0;
+
+    for (let i = startIndex; i <= endIndex; i++) {
+      const speed = points[i].speed || 0;
+      maxSpeed = Math.max(maxSpeed, speed);
+      if (speed < flyingSpeedMs) onFoil = false;
+      if (i === endIndex) break;
+
+      const step = calculateDistance(points[i], points[i + 1]);
+      const bearing = (calculateBearing(points[i], points[i + 1]) * Math.PI) /
+        180;
+      distance += step;
+      east += step * Math.sin(bearing);
+      north += step * Math.cos(bearing);
+
+      if (speed >= flyingSpeedMs) {
+        foilTime += (new Date(points[i + 1].time).getTime() -
+          new Date(points[i].time).getTime()) / 1000;
+      }
+    }
+
+    const startTime = points[startIndex].time;
+    const endTime = points[endIndex].time;
+    const durationSeconds =
+      (new Date(endTime).getTime() - new Date(startTime).getTime()) / 1000;
+    const heading = Math.round(
+      normalizeAngle((Math.atan2(east, north) * 180) / Math.PI),
+    );
+
+    const run: RunInfo = {
+      startIndex,
+      endIndex,
+      startTime,
+      endTime,
+      distance: parseFloat(distance.toFixed(1)),
+      durationSeconds,
+      avgSpeed: durationSeconds > 0
+        ? parseFloat(((distance / durationSeconds) * 3.6).toFixed(1))
+        : 0,
+      maxSpeed: parseFloat((maxSpeed * 3.6).toFixed(1)),
+      heading,
+      foilTime,
+      onFoil,
+    };
+    if (windDirection !== undefined) {
+      run.windAngle = Math.round(
+        Math.abs(signedAngleDifference(windDirection, heading)),
+      );
+    }
+    return run;
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  SessionHighlights,
+  SessionSummary,
+  StoredSession,
+  TrackStatistics,
+} from "../util/types.ts";
+
+export default interface SessionStore {
+  /** Summaries of all stored sessions, newest first */
+  list(): Promise<SessionSummary[]>;
+  get(id: string): Promise<StoredSession | null>;
+  /** Insert or replace the session with the same id */
+  save(session: StoredSession): Promise<void>;
+  /** Returns false if there was no such session */
+  delete(id: string): Promise<boolean>;
+}
+
+export const toSummary = (session: StoredSession): SessionSummary => {
+  const first = session.points[0];
+  return {
+    id: session.id,
+    createdAt: session.createdAt,
+    ownerId: session.ownerId,
+    visibility: session.visibility,
+    metadata: session.metadata,
+    start: first && { lat: first.lat, lon: first.lon },
+    sport: session.statistics?.sport?.profile,
+    highlights: session.statistics && getHighlights(session.statistics),
+  };
+};
+
+const getHighlights = (statistics: TrackStatistics): SessionHighlights => {
+  const { general, maneuvers, rankings, wind } = statistics;
+  const activity = statistics[statistics.sport?.activity ?? "flying"];
+  return {
+    distance: statistics.distance.total,
+    // Both analyzers keep start and end in ms, but not the total time
+    totalTime: Math.round((general.endTime - general.startTime) / 1000),
+    activityTime: activity?.time ?? 0,
+    longestActivity: activity?.longestSequence,
+    maxSpeed: statistics.speed.max,
+    jibes: maneuvers.jibes,
+    flyingJibes: maneuvers.flyingJibes,
+    flyingJibePercentage: maneuvers.flyingJibePercentage,
+    twoSeconds: rankings?.twoSeconds?.speed,
+    tenSeconds: rankings?.tenSeconds?.speed,
+    fiveByTenSeconds: rankings?.fiveByTenSeconds?.speed,
+    fiveHundredMeters: rankings?.fiveHundredMeters?.speed,
+    nauticalMile: rankings?.nauticalMile?.speed,
+    alpha500: rankings?.alpha500?.speed,
+    oneHour: rankings?.oneHour?.speed,
+    windDirection: wind?.direction,
+  };
+};
+
+/** Newest first, by the time the session was recorded */
+export const sortSummaries = (summaries: SessionSummary[]) =>
+  summaries.sort((a, b) =>
+    (b.metadata.time || b.createdAt).localeCompare(
+      a.metadata.time || a.createdAt,
+    )
+  );
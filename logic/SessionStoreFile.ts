@@ -0,0 +1,61 @@
+import { SessionSummary, StoredSession } from "../util/types.ts";
+import SessionStore, { sortSummaries, toSummary } from "./SessionStore.ts";
+
+/** One JSON file per session, for local development */
+export default class SessionStoreFile implements SessionStore {
+  constructor(private directory: string) {}
+
+  async list(): Promise<SessionSummary[]> {
+    const summaries: SessionSummary[] = [];
+    try {
+      for await (const entry of Deno.readDir(this.directory)) {
+        if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+        const session = await this.read(`${this.directory}/${entry.name}`);
+        if (session) summaries.push(toSummary(session));
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+    return sortSummaries(summaries);
+  }
+
+  async get(id: string): Promise<StoredSession | null> {
+    if (!this.isValidId(id)) return null;
+    return await this.read(this.getPath(id));
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    await Deno.mkdir(this.directory, { recursive: true });
+    await Deno.writeTextFile(this.getPath(session.id), JSON.stringify(session));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!this.isValidId(id)) return false;
+    try {
+      await Deno.remove(this.getPath(id));
+      return true;
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return false;
+      throw error;
+    }
+  }
+
+  private async read(path: string): Promise<StoredSession | null> {
+    try {
+      return JSON.parse(await Deno.readTextFile(path));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return null;
+      throw error;
+    }
+  }
+
+  /** Ids are used as file names, so nothing but plain ids is accepted */
+  private isValidId(id: string): boolean {
+    return /^[\w-]+$/.test(id);
+  }
+
+  private getPath(id: string): string {
+    if (!this.isValidId(id)) throw new Error(`Invalid session id: ${id}`);
+    return `${this.directory}/${id}.json`;
+  }
+}
@@ -0,0 +1,106 @@
+import { SessionSummary, StoredSession } from "../util/types.ts";
+import SessionStore, { sortSummaries, toSummary } from "./SessionStore.ts";
+
+/** KV values are limited to 64 KiB, sessions are stored in chunks */
+const CHUNK_SIZE = 60_000;
+
+/** Sessions stored before versions keep their chunks without one */
+type KvSummary = SessionSummary & { chunks: number; version?: string };
+
+/**
+ * Sessions in Deno KV. Every save writes the chunks of the JSON under a new
+ * version, ["session_chunks", id, version, n], and then switches the summary
+ * under ["sessions", id] to it in one atomic commit. Readers always see a
+ * complete version, the previous one is only deleted after the switch.
+ */
+export default class SessionStoreKv implements SessionStore {
+  constructor(private kv: Deno.Kv) {}
+
+  static async open(path?: string): Promise<SessionStoreKv> {
+    return new SessionStoreKv(await Deno.openKv(path));
+  }
+
+  async list(): Promise<SessionSummary[]> {
+    const summaries: SessionSummary[] = [];
+    for await (
+      const entry of this.kv.list<KvSummary>({ prefix: ["sessions"] })
+    ) {
+      const { chunks: _, version: __, ...summary } = entry.value;
+      summaries.push(summary);
+    }
+    return sortSummaries(summaries);
+  }
+
+  async get(id: string): Promise<StoredSession | null> {
+    const summary = await this.kv.get<KvSummary>(["sessions", id]);
+    if (!summary.value) return null;
+
+    const prefix = this.getChunkPrefix(id, summary.value.version);
+    const parts: Uint8Array[] = [];
+    for await (const entry of this.kv.list<Uint8Array>({ prefix })) {
+      // Without a version, the prefix also matches the versioned chunks
+      if (entry.key.length === prefix.length + 1) parts.push(entry.value);
+    }
+    if (parts.length !== summary.value.chunks) return null;
+
+    const bytes = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return JSON.parse(new TextDecoder().decode(bytes));
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    const bytes = new TextEncoder().encode(JSON.stringify(session));
+    const chunks = Math.ceil(bytes.length / CHUNK_SIZE);
+    const version = crypto.randomUUID();
+
+    const prefix = this.getChunkPrefix(session.id, version);
+    for (let i = 0; i < chunks; i++) {
+      await this.kv.set(
+        [...prefix, i],
+        bytes.subarray(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE),
+      );
+    }
+
+    // A save in between replaced the previous version, that one goes instead
+    const summary: KvSummary = { ...toSummary(session), chunks, version };
+    let previous = await this.kv.get<KvSummary>(["sessions", session.id]);
+    while (
+      !(await this.kv.atomic()
+        .check(previous)
+        .set(["sessions", session.id], summary)
+        .commit()).ok
+    ) {
+      previous = await this.kv.get<KvSummary>(["sessions", session.id]);
+    }
+
+    if (previous.value) await this.deleteChunks(session.id, previous.value);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const summary = await this.kv.get<KvSummary>(["sessions", id]);
+    if (!summary.value) return false;
+
+    await this.kv.delete(["sessions", id]);
+    await this.deleteChunks(id, summary.value);
+    return true;
+  }
+
+  close() {
+    this.kv.close();
+  }
+
+  private getChunkPrefix(id: string, version?: string): Deno.KvKey {
+    return version ? ["session_chunks", id, version] : ["session_chunks", id];
+  }
+
+  private async deleteChunks(id: string, summary: KvSummary): Promise<void> {
+    const prefix = this.getChunkPrefix(id, summary.version);
+    for (let i = 0; i < summary.chunks; i++) {
+      await this.kv.delete([...prefix, i]);
+    }
+  }
+}
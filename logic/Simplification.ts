@@ -0,0 +1,307 @@
+import {
+  Session,
+  SimplificationMethod,
+  SimplificationReport,
+  TrackPoint,
+} from "../util/types.ts";
+import { isSegmentBreak } from "../util/utils.ts";
+import { ValidationError } from "../util/errors.ts";
+
+export type SimplificationOptions = {
+  method: SimplificationMethod;
+  tolerance?: number; // meters
+  maxPoints?: number;
+};
+
+const METHODS: SimplificationMethod[] = ["rdp", "visvalingam"];
+
+const METERS_PER_DEGREE = 111320;
+
+/** Steps of the search for the RDP tolerance that meets maxPoints */
+const TOLERANCE_SEARCH_STEPS = 30;
+
+type XY = [number, number];
+
+/** Local meters around the first point, fine for the size of a session */
+const project = (points: TrackPoint[]): XY[] => {
+  const lat0 = points[0]?.lat ?? 0;
+  const lon0 = points[0]?.lon ?? 0;
+  const lonScale = Math.cos((lat0 * Math.PI) / 180) * METERS_PER_DEGREE;
+  return points.map((p) => [
+    (p.lon - lon0) * lonScale,
+    (p.lat - lat0) * METERS_PER_DEGREE,
+  ]);
+};
+
+/** Distance of p to the line segment from a to b */
+const distanceToSegment = (p: XY, a: XY, b: XY): number => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const length2 = dx * dx + dy * dy;
+  const t = length2 > 0
+    ? Math.max(
+      0,
+      Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / length2),
+    )
+    : 0;
+  return Math.hypot(p[0] - a[0] - t * dx, p[1] - a[1] - t * dy);
+};
+
+const triangleArea = (a: XY, b: XY, c: XY): number =>
+  Math.abs((b[0] - a[0]) * (c[1] - a[1]) - (c[0] - a[0]) * (b[1] - a[1])) / 2;
+
+/** Ramer–Douglas–Peucker between each pair of consecutive anchors */
+const rdp = (xy: XY[], anchors: number[], tolerance: number): boolean[] => {
+  const keep = xy.map(() => false);
+  for (const anchor of anchors) keep[anchor] = true;
+
+  for (let k = 1; k < anchors.length; k++) {
+    const stack: [number, number][] = [[anchors[k - 1], anchors[k]]];
+    while (stack.length > 0) {
+      const [from, to] = stack.pop()!;
+      let farthest = -1;
+      let maxDistance = tolerance;
+      for (let i = from + 1; i < to; i++) {
+        const distance = distanceToSegment(xy[i], xy[from], xy[to]);
+        if (distance > maxDistance) {
+          farthest = i;
+          maxDistance = distance;
+        }
+      }
+      if (farthest < 0) continue;
+      keep[farthest] = true;
+      stack.push([from, farthest], [farthest, to]);
+    }
+  }
+  return keep;
+};
+
+/** RDP with the smallest tolerance that leaves at most maxPoints */
+const rdpToCount = (
+  xy: XY[],
+  anchors: number[],
+  maxPoints: number,
+  minTolerance = 0,
+): boolean[] => {
+  const count = (keep: boolean[]) => keep.filter(Boolean).length;
+  let keep = rdp(xy, anchors, minTolerance);
+  if (count(keep) <= maxPoints) return keep;
+
+  let low = minTolerance;
+  let high = Math.max(1, minTolerance);
+  while (count(rdp(xy, anchors, high)) > maxPoints && high < 1e7) high *= 2;
+  keep = rdp(xy, anchors, high);
+  for (let step = 0; step < TOLERANCE_SEARCH_STEPS; step++) {
+    const middle = (low + high) / 2;
+    const candidate = rdp(xy, anchors, middle);
+    if (count(candidate) <= maxPoints) {
+      high = middle;
+      keep = candidate;
+    } else {
+      low = middle;
+    }
+  }
+  return keep;
+};
+
+/**
+ * Visvalingam–Whyatt: removes the point with the smallest triangle until
+ * all left are at least `minArea` and at most `maxPoints` are left. Anchors
+ * are never removed.
+ */
+const visvalingam = (
+  xy: XY[],
+  anchors: number[],
+  minArea: number,
+  maxPoints?: number,
+): boolean[] => {
+  const n = xy.length;
+  const keep = xy.map(() => true);
+  const isAnchor = xy.map(() => false);
+  for (const anchor of anchors) isAnchor[anchor] = true;
+
+  const prev = xy.map((_, i) => i - 1);
+  const next = xy.map((_, i) => i + 1);
+  const areas = xy.map(() => Infinity);
+  // Min heap of [area, index], entries with an outdated area are skipped
+  const heap: [number, number][] = [];
+  const push = (entry: [number, number]) => {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = (): [number, number] => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) {
+          smallest = left;
+        }
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  const update = (i: number, floor: number) => {
+    if (isAnchor[i] || prev[i] < 0 || next[i] >= n) return;
+    // Never below the area removed before, so the order stays stable
+    areas[i] = Math.max(floor, triangleArea(xy[prev[i]], xy[i], xy[next[i]]));
+    push([areas[i], i]);
+  };
+  for (let i = 0; i < n; i++) update(i, 0);
+
+  let remaining = n;
+  while (heap.length > 0) {
+    const [area, i] = pop();
+    if (!keep[i] || area !== areas[i]) continue;
+    if ((!maxPoints || remaining <= maxPoints) && area >= minArea) break;
+
+    keep[i] = false;
+    remaining--;
+    next[prev[i]] = next[i];
+    prev[next[i]] = prev[i];
+    update(prev[i], area);
+    update(next[i], area);
+  }
+  return keep;
+};
+
+/** Visits every object with startIndex and endIndex below value */
+const forEachIndexed = (
+  value: unknown,
+  visit: (item: { startIndex: number; endIndex: number }) => void,
+) => {
+  if (Array.isArray(value)) {
+    for (const item of value) forEachIndexed(item, visit);
+  } else if (value && typeof value === "object" && !(value instanceof Date)) {
+    const item = value as Record<string, unknown>;
+    if (
+      typeof item.startIndex === "number" && typeof item.endIndex === "number"
+    ) {
+      visit(item as { startIndex: number; endIndex: number });
+    }
+    for (const child of Object.values(item)) forEachIndexed(child, visit);
+  }
+};
+
+/**
+ * Thins out the points of a response. The start and end of every maneuver,
+ * segment, run and ranking, and of every track segment, are kept and their
+ * indices remapped to the returned points.
+ */
+export class Simplification {
+  /** Simplification options from the query, undefined without any */
+  static parse(
+    query: Record<string, string | undefined>,
+  ): SimplificationOptions | undefined {
+    const { simplify, tolerance, maxPoints } = query;
+    if (!simplify && !tolerance && !maxPoints) return undefined;
+
+    const method = (simplify || "rdp") as SimplificationMethod;
+    if (!METHODS.includes(method)) {
+      throw new ValidationError(
+        `simplify must be one of ${METHODS.join(", ")}`,
+      );
+    }
+    const options: SimplificationOptions = { method };
+    if (tolerance) {
+      options.tolerance = Number(tolerance);
+      if (!(options.tolerance > 0 && options.tolerance <= 1000)) {
+        throw new ValidationError("tolerance must be between 0 and 1000 m");
+      }
+    }
+    if (maxPoints) {
+      options.maxPoints = Number(maxPoints);
+      if (!(Number.isInteger(options.maxPoints) && options.maxPoints >= 2)) {
+        throw new ValidationError("maxPoints must be an integer of at least 2");
+      }
+    }
+    if (options.tolerance === undefined && options.maxPoints === undefined) {
+      throw new ValidationError("simplify needs a tolerance or maxPoints");
+    }
+    return options;
+  }
+
+  /** Indices of the points to keep, in order */
+  static simplify(
+    points: TrackPoint[],
+    options: SimplificationOptions,
+    required: Iterable<number> = [],
+  ): number[] {
+    const n = points.length;
+    const anchors = new Set<number>([0, n - 1]);
+    for (let i = 1; i < n; i++) {
+      if (isSegmentBreak(points[i - 1], points[i])) {
+        anchors.add(i - 1);
+        anchors.add(i);
+      }
+    }
+    for (const index of required) {
+      if (index >= 0 && index < n) anchors.add(index);
+    }
+    const sorted = [...anchors].sort((a, b) => a - b);
+    if (n <= 2) return sorted;
+
+    const xy = project(points);
+    const { tolerance = 0, maxPoints } = options;
+    const keep = options.method === "visvalingam"
+      ? visvalingam(xy, sorted, tolerance * tolerance, maxPoints)
+      : maxPoints
+      ? rdpToCount(xy, sorted, maxPoints, tolerance)
+      : rdp(xy, sorted, tolerance);
+
+    const result: number[] = [];
+    keep.forEach((kept, i) => kept && result.push(i));
+    return result;
+  }
+
+  /** The session with simplified points and remapped indices */
+  static apply(session: Session, options: SimplificationOptions): Session {
+    const { statistics, segments } = session;
+    const required: number[] = [];
+    forEachIndexed([statistics, segments], ({ startIndex, endIndex }) => {
+      required.push(startIndex, endIndex);
+    });
+
+    const kept = this.simplify(session.points, options, required);
+    const newIndex = new Map(kept.map((oldIndex, i) => [oldIndex, i]));
+    const remapped = structuredClone({ statistics, segments });
+    // Top runs are the same objects as in the list of runs, remap them once
+    const done = new Set<object>();
+    forEachIndexed(remapped, (item) => {
+      if (done.has(item)) return;
+      done.add(item);
+      item.startIndex = newIndex.get(item.startIndex) ?? item.startIndex;
+      item.endIndex = newIndex.get(item.endIndex) ?? item.endIndex;
+    });
+
+    const report: SimplificationReport = {
+      ...options,
+      pointsBefore: session.points.length,
+      pointsAfter: kept.length,
+    };
+    return {
+      ...session,
+      ...remapped,
+      points: kept.map((i) => session.points[i]),
+      simplification: report,
+    };
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  ActivityTerm,
+  ManeuverVocabulary,
+  SessionMetadata,
+  SportInfo,
+  SportProfileName,
+  TrackStatistics,
+} from "../util/types.ts";
+
+/** Optional statistics sections a sport may leave out */
+type MetricSection = "wind" | "polar" | "vmg" | "rankings" | "runs";
+
+export type SportProfile = {
+  name: SportProfileName;
+  label: string;
+  activity: ActivityTerm;
+  /**
+   * Faster is a GPS error or a boat ride, preprocessing removes it as a
+   * spike and leaderboards leave it out
+   */
+  maxSpeedKmh: number;
+  /** Analyzer config defaults, per request config still overrides them */
+  config: Record<string, number>;
+  vocabulary: ManeuverVocabulary;
+  metrics: MetricSection[];
+};
+
+/** Sport profile of a run and how it was chosen */
+export type SportSelection = {
+  profile: SportProfile;
+  source: SportInfo["source"];
+};
+
+const ALL_METRICS: MetricSection[] = [
+  "wind",
+  "polar",
+  "vmg",
+  "rankings",
+  "runs",
+];
+
+const profiles: SportProfile[] = [
+  {
+    name: "wingfoil",
+    label: "Wingfoil",
+    activity: "flying",
+    maxSpeedKmh: 60,
+    config: {
+      flyingSpeedThresholdKmh: 8,
+      flyingJibeSpeedThresholdKmh: 8,
+      jibeAngleThreshold: 140,
+      tackAngleThreshold: 80,
+    },
+    vocabulary: { jibe: "jibe", tack: "tack", flyingJibe: "foiling jibe" },
+    metrics: ALL_METRICS,
+  },
+  {
+    name: "windsurf",
+    label: "Windsurf",
+    activity: "planing",
+    maxSpeedKmh: 110,
+    config: {
+      flyingSpeedThresholdKmh: 15,
+      flyingJibeSpeedThresholdKmh: 12,
+      jibeAngleThreshold: 140,
+      tackAngleThreshold: 70,
+      maneuverTimeWindowSeconds: 20,
+    },
+    vocabulary: { jibe: "jibe", tack: "tack", flyingJibe: "planing jibe" },
+    metrics: ALL_METRICS,
+  },
+  {
+    name: "kitesurf",
+    label: "Kitesurf",
+    activity: "riding",
+    maxSpeedKmh: 120,
+    config: {
+      flyingSpeedThresholdKmh: 10,
+      flyingJibeSpeedThresholdKmh: 10,
+      jibeAngleThreshold: 140,
+      tackAngleThreshold: 80,
+      maneuverTimeWindowSeconds: 12,
+    },
+    vocabulary: {
+      jibe: "transition",
+      tack: "tack",
+      flyingJibe: "carved transition",
+    },
+    metrics: ALL_METRICS,
+  },
+  {
+    name: "pumpfoil",
+    label: "Pumpfoil",
+    activity: "flying",
+    maxSpeedKmh: 40,
+    config: {
+      flyingSpeedThresholdKmh: 9,
+      flyingJibeSpeedThresholdKmh: 9,
+      jibeAngleThreshold: 120,
+      tackAngleThreshold: 80,
+    },
+    vocabulary: { jibe: "turn", tack: "turn", flyingJibe: "foiling turn" },
+    // No wind to work with
+    metrics: ["runs"],
+  },
+  {
+    name: "sup",
+    label: "Stand up paddle",
+    activity: "paddling",
+    maxSpeedKmh: 30,
+    config: {
+      flyingSpeedThresholdKmh: 4,
+      flyingJibeSpeedThresholdKmh: 4,
+      jibeAngleThreshold: 140,
+      tackAngleThreshold: 80,
+      maneuverTimeWindowSeconds: 20,
+    },
+    vocabulary: { jibe: "turn", tack: "turn", flyingJibe: "paddled turn" },
+    metrics: ["runs"],
+  },
+];
+
+/** Keywords in the track type or name, most specific first */
+const detection: [RegExp, SportProfileName][] = [
+  [/wing/i, "wingfoil"],
+  [/pump/i, "pumpfoil"],
+  [/wind\s*surf/i, "windsurf"],
+  [/kite/i, "kitesurf"],
+  [/\bsup\b|stand.?up|paddl/i, "sup"],
+];
+
+/**
+ * Sport profiles with their own thresholds, maneuver vocabulary and
+ * statistics. Wingfoil is the default when nothing else matches.
+ */
+export class SportProfiles {
+  static getNames(): SportProfileName[] {
+    return profiles.map((profile) => profile.name);
+  }
+
+  static get(name: string): SportProfile | undefined {
+    return profiles.find((profile) => profile.name === name);
+  }
+
+  /** Profile of a session from the track type (preferred) or name */
+  static detect(metadata: SessionMetadata): SportSelection {
+    for (const text of [metadata.type, metadata.name]) {
+      if (!text) continue;
+      for (const [pattern, name] of detection) {
+        if (pattern.test(text)) {
+          return { profile: this.get(name)!, source: "detected" };
+        }
+      }
+    }
+    return { profile: this.get("wingfoil")!, source: "default" };
+  }
+
+  /**
+   * Name the activity section after the sport and leave out the sections
+   * the sport does not use
+   */
+  static apply(
+    statistics: TrackStatistics,
+    profile: SportProfile,
+    source: SportInfo["source"],
+  ): TrackStatistics {
+    const { flying, ...rest } = statistics;
+    const result: TrackStatistics = {
+      ...rest,
+      [profile.activity]: flying,
+      sport: {
+        profile: profile.name,
+        label: profile.label,
+        activity: profile.activity,
+        source,
+        vocabulary: profile.vocabulary,
+      },
+    };
+    for (const section of ALL_METRICS) {
+      if (!profile.metrics.includes(section)) delete result[section];
+    }
+    return result;
+  }
+}
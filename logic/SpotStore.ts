@@ -0,0 +1,11 @@
+import { Spot } from "../util/types.ts";
+
+/** User defined spot geofences, the curated ones ship with the code */
+export default interface SpotStore {
+  list(): Promise<Spot[]>;
+  get(id: string): Promise<Spot | null>;
+  /** Insert or replace the spot with the same id */
+  save(spot: Spot): Promise<void>;
+  /** Returns false if there was no such spot */
+  delete(id: string): Promise<boolean>;
+}
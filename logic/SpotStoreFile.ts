@@ -0,0 +1,39 @@
+import { Spot } from "../util/types.ts";
+import SpotStore from "./SpotStore.ts";
+
+/** All spots in one JSON file, for local development */
+export default class SpotStoreFile implements SpotStore {
+  constructor(private path: string) {}
+
+  async list(): Promise<Spot[]> {
+    try {
+      return JSON.parse(await Deno.readTextFile(this.path));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return [];
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<Spot | null> {
+    return (await this.list()).find((spot) => spot.id === id) ?? null;
+  }
+
+  async save(spot: Spot): Promise<void> {
+    const spots = (await this.list()).filter((s) => s.id !== spot.id);
+    await this.write([...spots, spot]);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const spots = await this.list();
+    const remaining = spots.filter((spot) => spot.id !== id);
+    if (remaining.length === spots.length) return false;
+    await this.write(remaining);
+    return true;
+  }
+
+  private async write(spots: Spot[]): Promise<void> {
+    const directory = this.path.slice(0, this.path.lastIndexOf("/"));
+    if (directory) await Deno.mkdir(directory, { recursive: true });
+    await Deno.writeTextFile(this.path, JSON.stringify(spots));
+  }
+}
@@ -0,0 +1,30 @@
+import { Spot } from "../util/types.ts";
+import SpotStore from "./SpotStore.ts";
+
+/** Spots in Deno KV under ["spots", id] */
+export default class SpotStoreKv implements SpotStore {
+  constructor(private kv: Deno.Kv) {}
+
+  async list(): Promise<Spot[]> {
+    const spots: Spot[] = [];
+    for await (const entry of this.kv.list<Spot>({ prefix: ["spots"] })) {
+      spots.push(entry.value);
+    }
+    return spots;
+  }
+
+  async get(id: string): Promise<Spot | null> {
+    return (await this.kv.get<Spot>(["spots", id])).value;
+  }
+
+  async save(spot: Spot): Promise<void> {
+    await this.kv.set(["spots", spot.id], spot);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const key = ["spots", id];
+    if (!(await this.kv.get(key)).value) return false;
+    await this.kv.delete(key);
+    return true;
+  }
+}
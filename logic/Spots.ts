@@ -0,0 +1,203 @@
+import {
+  SessionBest,
+  SessionHighlights,
+  SessionMetadata,
+  SessionSummary,
+  Spot,
+  SpotInfo,
+  SpotStatistics,
+} from "../util/types.ts";
+import {
+  calculateDistance,
+  isInPolygon,
+  normalizeAngle,
+} from "../util/utils.ts";
+import { ValidationError } from "../util/errors.ts";
+import curatedSpots from "./spots.json" with { type: "json" };
+
+/** Starts closer than this to the first start of a cluster join it */
+const CLUSTER_RADIUS_METERS = 1000;
+
+export type SpotGroup = {
+  spot: SpotInfo;
+  sessions: SessionSummary[];
+};
+
+type LatLon = { lat: number; lon: number };
+
+const round = (value: number, decimals: number) =>
+  parseFloat(value.toFixed(decimals));
+
+/** Place name for a cluster from the reverse geocoded metadata */
+const getPlaceName = (metadata: SessionMetadata, start: LatLon): string => {
+  const { leisure, village, hamlet, city } = metadata;
+  const name = [leisure, village, hamlet, city].find((part) =>
+    part && part !== "n.a."
+  );
+  return name ?? `Spot at ${start.lat.toFixed(3)}, ${start.lon.toFixed(3)}`;
+};
+
+const getCenter = (polygon: [number, number][]): LatLon => {
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+  return {
+    lat: round(mean(polygon.map(([, lat]) => lat)), 5),
+    lon: round(mean(polygon.map(([lon]) => lon)), 5),
+  };
+};
+
+/**
+ * Matches sessions to spots by their start point. Geofences (curated and
+ * user defined) win, the other sessions form clusters of nearby starts
+ * around the oldest start, so a cluster keeps its id as sessions are added.
+ */
+export class Spots {
+  static readonly curated: Spot[] = curatedSpots as Spot[];
+
+  static group(
+    summaries: SessionSummary[],
+    userSpots: Spot[] = [],
+  ): SpotGroup[] {
+    // User geofences may be drawn inside curated ones and are checked first
+    const geofences = [
+      ...userSpots.map((spot) => ({ spot, source: "user" as const })),
+      ...this.curated.map((spot) => ({ spot, source: "curated" as const })),
+    ];
+    const groups = new Map<string, SpotGroup>();
+    const clusters: SpotGroup[] = [];
+    const toGroup = ({ spot, source }: typeof geofences[number]) => ({
+      spot: {
+        id: spot.id,
+        name: spot.name,
+        source,
+        kind: spot.kind,
+        center: getCenter(spot.polygon),
+      },
+      sessions: [],
+    });
+    // User spots are listed before their first session
+    for (const fence of geofences) {
+      if (fence.source === "user") groups.set(fence.spot.id, toGroup(fence));
+    }
+
+    const oldestFirst = [...summaries].reverse();
+    for (const summary of oldestFirst) {
+      const { start } = summary;
+      if (!start) continue;
+
+      const fence = geofences.find(({ spot }) =>
+        isInPolygon(start, spot.polygon)
+      );
+      if (fence) {
+        const group = groups.get(fence.spot.id) ?? toGroup(fence);
+        group.sessions.push(summary);
+        groups.set(fence.spot.id, group);
+        continue;
+      }
+
+      const cluster = clusters.find(({ spot }) =>
+        calculateDistance(spot.center, start) <= CLUSTER_RADIUS_METERS
+      );
+      if (cluster) {
+        cluster.sessions.push(summary);
+        continue;
+      }
+      const center = { lat: round(start.lat, 5), lon: round(start.lon, 5) };
+      clusters.push({
+        spot: {
+          id: `cluster-${start.lat.toFixed(3)}_${start.lon.toFixed(3)}`,
+          name: getPlaceName(summary.metadata, start),
+          source: "cluster",
+          center,
+        },
+        sessions: [summary],
+      });
+    }
+
+    // Newest sessions first again, like every session list
+    const all = [...groups.values(), ...clusters];
+    for (const group of all) group.sessions.reverse();
+    return all.sort((a, b) => b.sessions.length - a.sessions.length);
+  }
+
+  /** Totals and bests of the analyzed sessions of a spot */
+  static aggregate(sessions: SessionSummary[]): SpotStatistics {
+    const times = sessions.map((s) => s.metadata.time || s.createdAt).sort();
+
+    const best = (key: keyof SessionHighlights): SessionBest | null => {
+      let result: SessionBest | null = null;
+      for (const { id, highlights } of sessions) {
+        const value = highlights?.[key];
+        if (value !== undefined && (!result || value > result.value)) {
+          result = { value, sessionId: id };
+        }
+      }
+      return result;
+    };
+
+    // Wind directions are averaged as unit vectors, 350° and 10° give 0°
+    let north = 0;
+    let east = 0;
+    let windCount = 0;
+    for (const { highlights } of sessions) {
+      if (highlights?.windDirection === undefined) continue;
+      const radians = (highlights.windDirection * Math.PI) / 180;
+      north += Math.cos(radians);
+      east += Math.sin(radians);
+      windCount++;
+    }
+
+    return {
+      sessionCount: sessions.length,
+      activityTime: sessions.reduce(
+        (sum, { highlights }) => sum + (highlights?.activityTime ?? 0),
+        0,
+      ),
+      best: {
+        maxSpeed: best("maxSpeed"),
+        twoSeconds: best("twoSeconds"),
+        tenSeconds: best("tenSeconds"),
+      },
+      windDirection: windCount > 0 && Math.hypot(north, east) > 1e-9
+        ? Math.round(normalizeAngle((Math.atan2(east, north) * 180) / Math.PI))
+        : null,
+      firstSession: times[0] ?? "",
+      lastSession: times[times.length - 1] ?? "",
+    };
+  }
+
+  /** A user defined geofence from a request body */
+  static parse(body: unknown): Omit<Spot, "id"> {
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      throw new ValidationError("Expected a JSON object");
+    }
+    const { name, kind, polygon } = body as Record<string, unknown>;
+    if (typeof name !== "string" || !name.trim()) {
+      throw new ValidationError("name must be a non-empty string");
+    }
+    if (kind !== undefined && kind !== "lake" && kind !== "beach") {
+      throw new ValidationError("kind must be lake or beach");
+    }
+    const isCorner = (corner: unknown) =>
+      Array.isArray(corner) && corner.length === 2 &&
+      corner.every((value) => typeof value === "number") &&
+      Math.abs(corner[0]) <= 180 && Math.abs(corner[1]) <= 90;
+    if (
+      !Array.isArray(polygon) || polygon.length < 3 || !polygon.every(isCorner)
+    ) {
+      throw new ValidationError(
+        "polygon must be at least 3 [lon, lat] corners",
+      );
+    }
+    return { name: name.trim(), kind, polygon };
+  }
+
+  /** Id of a user defined spot, derived from its name */
+  static toId(name: string): string {
+    const slug = name.toLowerCase().normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    return slug || "spot";
+  }
+}
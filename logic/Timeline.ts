@@ -0,0 +1,181 @@
+import { Segment, SegmentType, TrackPoint } from "../util/types.ts";
+import {
+  calculateBearing,
+  calculateDistance,
+  isSegmentBreak,
+  signedAngleDifference,
+} from "../util/utils.ts";
+
+/** Slow or straight phases shorter than this are merged into the previous one */
+const MIN_PHASE_SECONDS = 5;
+
+/** A maneuver as found by an analyzer, by point index */
+export type TimelineManeuver = {
+  type: "tack" | "jibe" | "flightjibe";
+  startIndex: number;
+  endIndex: number;
+};
+
+type Phase = { type: SegmentType; start: number; end: number };
+
+/**
+ * Splits a session into a timeline of typed segments: the maneuvers found by
+ * the analyzer, and the straight (riding) and slow phases between them.
+ * Neighbouring segments share their boundary point, gaps between track
+ * segments are not part of any segment.
+ */
+export class Timeline {
+  static build(
+    points: TrackPoint[],
+    maneuvers: TimelineManeuver[],
+    slowSpeedKmh: number,
+  ): Segment[] {
+    const phases: Phase[] = [];
+    let cursor = 0;
+
+    const sorted = [...maneuvers].sort((a, b) => a.startIndex - b.startIndex);
+    for (const maneuver of sorted) {
+      if (maneuver.startIndex < cursor) continue;
+      phases.push(
+        ...this.getPhases(points, cursor, maneuver.startIndex, slowSpeedKmh),
+      );
+      phases.push({
+        type: maneuver.type,
+        start: maneuver.startIndex,
+        end: maneuver.endIndex,
+      });
+      cursor = maneuver.endIndex;
+    }
+    phases.push(
+      ...this.getPhases(points, cursor, points.length - 1, slowSpeedKmh),
+    );
+
+    return phases.map((phase) => this.toSegment(points, phase));
+  }
+
+  /** Straight and slow phases between `from` and `to`, split at gaps */
+  private static getPhases(
+    points: TrackPoint[],
+    from: number,
+    to: number,
+    slowSpeedKmh: number,
+  ): Phase[] {
+    const phases: Phase[] = [];
+    let start = from;
+    for (let i = from; i < to; i++) {
+      if (isSegmentBreak(points[i], points[i + 1])) {
+        phases.push(...this.splitBySpeed(points, start, i, slowSpeedKmh));
+        start = i + 1;
+      }
+    }
+    phases.push(...this.splitBySpeed(points, start, to, slowSpeedKmh));
+    return phases;
+  }
+
+  private static splitBySpeed(
+    points: TrackPoint[],
+    from: number,
+    to: number,
+    slowSpeedKmh: number,
+  ): Phase[] {
+    const slowSpeedMs = slowSpeedKmh / 3.6;
+    const phases: Phase[] = [];
+
+    for (let i = from; i < to; i++) {
+      const speed = ((points[i].speed || 0) + (points[i + 1].speed || 0)) / 2;
+      const type: SegmentType = speed < slowSpeedMs ? "slow" : "straight";
+      const last = phases[phases.length - 1];
+
+      if (last && last.type === type) {
+        last.end = i + 1;
+      } else {
+        phases.push({ type, start: i, end: i + 1 });
+      }
+    }
+
+    // Short phases are noise around the threshold
+    const merged: Phase[] = [];
+    for (const phase of phases) {
+      const last = merged[merged.length - 1];
+      if (
+        last &&
+        (last.type === phase.type ||
+          this.getDuration(points, phase) < MIN_PHASE_SECONDS)
+      ) {
+        last.end = phase.end;
+      } else {
+        merged.push(phase);
+      }
+    }
+    if (
+      merged.length > 1 &&
+      this.getDuration(points, merged[0]) < MIN_PHASE_SECONDS
+    ) {
+      merged[1].start = merged[0].start;
+      merged.shift();
+    }
+
+    return merged;
+  }
+
+  private static getDuration(points: TrackPoint[], phase: Phase): number {
+    return (new Date(points[phase.end].time).getTime() -
+      new Date(points[phase.start].time).getTime()) / 1000;
+  }
+
+  private static toSegment(points: TrackPoint[], phase: Phase): Segment {
+    let minSpeed = Infinity;
+    let maxSpeed = 0;
+    let totalSpeed = 0;
+    for (let i = phase.start; i <= phase.end; i++) {
+      const speed = points[i].speed || 0;
+      minSpeed = Math.min(minSpeed, speed);
+      maxSpeed = Math.max(maxSpeed, speed);
+      totalSpeed += speed;
+    }
+    const pointCount = phase.end - phase.start + 1;
+    const toKmh = (speed: number) => parseFloat((speed * 3.6).toFixed(1));
+
+    const segment: Segment = {
+      type: phase.type,
+      startIndex: phase.start,
+      endIndex: phase.end,
+      startSpeed: toKmh(points[phase.start].speed || 0),
+      minSpeed: toKmh(minSpeed),
+      maxSpeed: toKmh(maxSpeed),
+      endSpeed: toKmh(points[phase.end].speed || 0),
+      avgSpeed: toKmh(totalSpeed / pointCount),
+      startTime: new Date(points[phase.start].time),
+      endTime: new Date(points[phase.end].time),
+      durationSeconds: this.getDuration(points, phase),
+      pointCount,
+      bearingChange: parseFloat(
+        this.getBearingChange(points, phase.start, phase.end).toFixed(1),
+      ),
+    };
+    if (phase.type === "jibe" || phase.type === "flightjibe") {
+      segment.isFlyJybe = phase.type === "flightjibe";
+    }
+    return segment;
+  }
+
+  /**
+   * Signed sum of the heading changes (positive = clockwise). Steps without
+   * movement have no heading and are skipped.
+   */
+  private static getBearingChange(
+    points: TrackPoint[],
+    start: number,
+    end: number,
+  ): number {
+    let change = 0;
+    let previous: number | null = null;
+    for (let i = start; i < end; i++) {
+      if (calculateDistance(points[i], points[i + 1]) < 1) continue;
+      const bearing = calculateBearing(points[i], points[i + 1]);
+      if (previous !== null) change += signedAngleDifference(previous, bearing);
+      previous = bearing;
+    }
+    return change;
+  }
+}
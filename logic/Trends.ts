@@ -0,0 +1,82 @@
+import { SessionSummary, TrendEntry, TrendPeriod } from "../util/types.ts";
+import { ValidationError } from "../util/errors.ts";
+
+const PERIODS: TrendPeriod[] = ["week", "month"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number, decimals: number) =>
+  parseFloat(value.toFixed(decimals));
+
+/** ISO week ("2025-W40") and its Monday, in UTC */
+const toWeek = (date: Date): { period: string; start: Date } => {
+  const day = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+  );
+  const weekday = (new Date(day).getUTCDay() + 6) % 7; // Monday = 0
+  const monday = new Date(day - weekday * DAY_MS);
+  // The week belongs to the year of its Thursday
+  const thursday = new Date(monday.getTime() + 3 * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor(
+    (thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * DAY_MS),
+  ) + 1;
+  return {
+    period: `${year}-W${String(week).padStart(2, "0")}`,
+    start: monday,
+  };
+};
+
+const toMonth = (date: Date): { period: string; start: Date } => ({
+  period: date.toISOString().slice(0, 7),
+  start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+});
+
+/**
+ * Weekly or monthly totals of the stored sessions, oldest first. Periods
+ * without sessions are left out.
+ */
+export class Trends {
+  static parsePeriod(period = "week"): TrendPeriod {
+    if (!PERIODS.includes(period as TrendPeriod)) {
+      throw new ValidationError(
+        `period must be one of ${PERIODS.join(", ")}`,
+      );
+    }
+    return period as TrendPeriod;
+  }
+
+  static aggregate(
+    summaries: SessionSummary[],
+    period: TrendPeriod,
+  ): TrendEntry[] {
+    const entries = new Map<string, TrendEntry>();
+
+    for (const summary of summaries) {
+      const time = new Date(summary.metadata.time || summary.createdAt);
+      if (isNaN(time.getTime())) continue;
+
+      const key = period === "week" ? toWeek(time) : toMonth(time);
+      const entry = entries.get(key.period) ?? {
+        period: key.period,
+        start: key.start.toISOString().slice(0, 10),
+        sessionCount: 0,
+        totalTime: 0,
+        activityTime: 0,
+        distance: 0,
+        maxSpeed: 0,
+      };
+      const { highlights } = summary;
+      entry.sessionCount++;
+      entry.totalTime += highlights?.totalTime ?? 0;
+      entry.activityTime += highlights?.activityTime ?? 0;
+      entry.distance = round(entry.distance + (highlights?.distance ?? 0), 2);
+      entry.maxSpeed = Math.max(entry.maxSpeed, highlights?.maxSpeed ?? 0);
+      entries.set(key.period, entry);
+    }
+
+    return [...entries.values()].sort((a, b) => a.start.localeCompare(b.start));
+  }
+}
@@ -0,0 +1,9 @@
+import { User } from "../util/types.ts";
+
+/** Registered users, looked up by id or by their (lower case) email */
+export default interface UserStore {
+  get(id: string): Promise<User | null>;
+  getByEmail(email: string): Promise<User | null>;
+  /** Returns false if the email is already taken */
+  create(user: User): Promise<boolean>;
+}
@@ -0,0 +1,37 @@
+import { User } from "../util/types.ts";
+import UserStore from "./UserStore.ts";
+
+/** All users in one JSON file, for local development */
+export default class UserStoreFile implements UserStore {
+  constructor(private path: string) {}
+
+  async get(id: string): Promise<User | null> {
+    return (await this.list()).find((user) => user.id === id) ?? null;
+  }
+
+  async getByEmail(email: string): Promise<User | null> {
+    return (await this.list()).find((user) => user.email === email) ?? null;
+  }
+
+  async create(user: User): Promise<boolean> {
+    const users = await this.list();
+    if (users.some((u) => u.email === user.email)) return false;
+    await this.write([...users, user]);
+    return true;
+  }
+
+  private async list(): Promise<User[]> {
+    try {
+      return JSON.parse(await Deno.readTextFile(this.path));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return [];
+      throw error;
+    }
+  }
+
+  private async write(users: User[]): Promise<void> {
+    const directory = this.path.slice(0, this.path.lastIndexOf("/"));
+    if (directory) await Deno.mkdir(directory, { recursive: true });
+    await Deno.writeTextFile(this.path, JSON.stringify(users));
+  }
+}
@@ -0,0 +1,38 @@
+import { User } from "../util/types.ts";
+import UserStore from "./UserStore.ts";
+
+/**
+ * Users in Deno KV under ["users", id], with the id under
+ * ["users_by_email", email]. Both are written in one atomic operation that
+ * fails if the email is taken.
+ */
+export default class UserStoreKv implements UserStore {
+  constructor(private kv: Deno.Kv) {}
+
+  static async open(path?: string): Promise<UserStoreKv> {
+    return new UserStoreKv(await Deno.openKv(path));
+  }
+
+  async get(id: string): Promise<User | null> {
+    return (await this.kv.get<User>(["users", id])).value;
+  }
+
+  async getByEmail(email: string): Promise<User | null> {
+    const id = await this.kv.get<string>(["users_by_email", email]);
+    return id.value ? await this.get(id.value) : null;
+  }
+
+  async create(user: User): Promise<boolean> {
+    const emailKey = ["users_by_email", user.email];
+    const result = await this.kv.atomic()
+      .check({ key: emailKey, versionstamp: null })
+      .set(emailKey, user.id)
+      .set(["users", user.id], user)
+      .commit();
+    return result.ok;
+  }
+
+  close() {
+    this.kv.close();
+  }
+}
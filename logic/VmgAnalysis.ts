@@ -0,0 +1,204 @@
+import {
+  TrackPoint,
+  VmgDirectionStats,
+  VmgReach,
+  VmgStatistics,
+} from "../util/types.ts";
+import {
+  getTrackSteps,
+  isSegmentBreak,
+  signedAngleDifference,
+} from "../util/utils.ts";
+
+/** Shortest reach that is reported; shorter runs are maneuvers or noise */
+const MIN_REACH_SECONDS = 10;
+const METERS_PER_DEGREE = 111320;
+
+type Direction = "upwind" | "downwind";
+
+/**
+ * Velocity made good towards (upwind) or away from (downwind) the wind.
+ * Best sustained values use the displacement over the window, so zig-zags
+ * inside the window are not counted as progress.
+ */
+export class VmgAnalysis {
+  static compute(
+    points: TrackPoint[],
+    windDirection: number,
+    minSpeedKmh: number,
+  ): VmgStatistics {
+    const reaches = this.getReaches(points, windDirection, minSpeedKmh);
+
+    return {
+      windDirection,
+      upwind: this.getDirectionStats(points, reaches, windDirection, "upwind"),
+      downwind: this.getDirectionStats(
+        points,
+        reaches,
+        windDirection,
+        "downwind",
+      ),
+      reaches,
+    };
+  }
+
+  private static getDirectionStats(
+    points: TrackPoint[],
+    reaches: VmgReach[],
+    windDirection: number,
+    direction: Direction,
+  ): VmgDirectionStats {
+    let time = 0;
+    let weighted = 0;
+    for (const reach of reaches) {
+      if (reach.direction !== direction) continue;
+      time += reach.durationSeconds;
+      weighted += reach.avgVmg * reach.durationSeconds;
+    }
+
+    return {
+      best10s: this.toKmh(
+        this.getBestSustainedVmg(points, windDirection, direction, 10),
+      ),
+      best1min: this.toKmh(
+        this.getBestSustainedVmg(points, windDirection, direction, 60),
+      ),
+      avg: time > 0 ? parseFloat((weighted / time).toFixed(1)) : 0,
+      time,
+    };
+  }
+
+  /**
+   * Best VMG (m/s) over any window of at least `windowSeconds` within one
+   * track segment. Windows stretched by recording gaps (> 1.5x) are skipped.
+   */
+  static getBestSustainedVmg(
+    points: TrackPoint[],
+    windDirection: number,
+    direction: Direction,
+    windowSeconds: number,
+  ): number {
+    const windRad = (windDirection * Math.PI) / 180;
+    const sign = direction === "upwind" ? 1 : -1;
+    const times = points.map((p) => new Date(p.time).getTime() / 1000);
+    let best = 0;
+    let j = 0;
+
+    for (let i = 0; i < points.length; i++) {
+      if (j < i) j = i;
+      while (
+        j < points.length - 1 &&
+        times[j] - times[i] < windowSeconds &&
+        !isSegmentBreak(points[j], points[j + 1])
+      ) {
+        j++;
+      }
+
+      const dt = times[j] - times[i];
+      if (dt < windowSeconds || dt > windowSeconds * 1.5) continue;
+
+      const { east, north } = this.getDisplacement(points[i], points[j]);
+      const vmg = sign *
+        (east * Math.sin(windRad) + north * Math.cos(windRad)) / dt;
+      best = Math.max(best, vmg);
+    }
+
+    return best;
+  }
+
+  /**
+   * Split the track into reaches: runs on the same tack and in the same
+   * direction (upwind / downwind) of at least MIN_REACH_SECONDS
+   */
+  private static getReaches(
+    points: TrackPoint[],
+    windDirection: number,
+    minSpeedKmh: number,
+  ): VmgReach[] {
+    const minSpeedMs = minSpeedKmh / 3.6;
+    const reaches: VmgReach[] = [];
+
+    let current: {
+      key: string;
+      start: number;
+      end: number;
+      time: number;
+      vmg: number;
+      speed: number;
+    } | null = null;
+
+    const close = () => {
+      if (current && current.time >= MIN_REACH_SECONDS) {
+        const direction: Direction = current.key.startsWith("upwind")
+          ? "upwind"
+          : "downwind";
+        reaches.push({
+          direction,
+          tack: current.key.endsWith("starboard") ? "starboard" : "port",
+          startIndex: current.start,
+          endIndex: current.end,
+          startTime: points[current.start].time,
+          endTime: points[current.end].time,
+          durationSeconds: parseFloat(current.time.toFixed(1)),
+          avgVmg: this.toKmh(current.vmg / current.time),
+          avgSpeed: this.toKmh(current.speed / current.time),
+        });
+      }
+      current = null;
+    };
+
+    let lastIndex = -1;
+    for (const step of getTrackSteps(points)) {
+      // Steps are consecutive unless a gap or segment break was skipped
+      if (step.index !== lastIndex + 1) close();
+      lastIndex = step.index;
+
+      if (step.speed < minSpeedMs) {
+        close();
+        continue;
+      }
+
+      const twa = signedAngleDifference(windDirection, step.course);
+      const direction: Direction = Math.abs(twa) < 90 ? "upwind" : "downwind";
+      // Wind over the right side (course left of the wind) is starboard
+      const tack = twa < 0 ? "starboard" : "port";
+      const key = `${direction}-${tack}`;
+      const vmg = Math.abs(step.speed * Math.cos((twa * Math.PI) / 180));
+
+      if (current && current.key !== key) close();
+      if (!current) {
+        current = {
+          key,
+          start: step.index,
+          end: step.index + 1,
+          time: 0,
+          vmg: 0,
+          speed: 0,
+        };
+      }
+
+      current.end = step.index + 1;
+      current.time += step.dt;
+      current.vmg += vmg * step.dt;
+      current.speed += step.speed * step.dt;
+    }
+    close();
+
+    return reaches;
+  }
+
+  private static getDisplacement(
+    p1: TrackPoint,
+    p2: TrackPoint,
+  ): { east: number; north: number } {
+    const meanLat = ((p1.lat + p2.lat) / 2) * (Math.PI / 180);
+    return {
+      east: (p2.lon - p1.lon) * METERS_PER_DEGREE * Math.cos(meanLat),
+      north: (p2.lat - p1.lat) * METERS_PER_DEGREE,
+    };
+  }
+
+  private static toKmh(speedMs: number): number {
+    return parseFloat((speedMs * 3.6).toFixed(1));
+  }
+}
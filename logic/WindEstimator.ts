@@ -0,0 +1,158 @@
+import { TrackPoint, WindInfo } from "../util/types.ts";
+import {
+  calculateBearing,
+  isSegmentBreak,
+  normalizeAngle,
+  signedAngleDifference,
+} from "../util/utils.ts";
+
+const BIN_SIZE = 5; // degrees
+const BIN_COUNT = 360 / BIN_SIZE;
+/** Minimum time moving before an estimate is attempted (seconds) */
+const MIN_MOVING_SECONDS = 60;
+/** Time steps longer than this are treated as gaps (seconds) */
+const MAX_STEP_SECONDS = 10;
+
+export type TurnClassification = "tack" | "jibe" | null;
+
+/**
+ * Estimates where the wind comes from, using only the track.
+ *
+ * Riders go back and forth on both tacks, so the time spent per course is
+ * (roughly) mirrored around the wind axis. The end of that axis with the
+ * least time and the lowest speeds is upwind: nobody can sail into the
+ * no-go zone, and close hauled courses are slower than reaches.
+ */
+export class WindEstimator {
+  static estimate(
+    points: TrackPoint[],
+    minSpeedKmh = 8,
+  ): WindInfo | null {
+    const histogram = new Array(BIN_COUNT).fill(0);
+    const speedSums = new Array(BIN_COUNT).fill(0);
+    const minSpeedMs = minSpeedKmh / 3.6;
+    let total = 0;
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const p1 = points[i];
+      const p2 = points[i + 1];
+      if (isSegmentBreak(p1, p2)) continue;
+
+      const speed = p1.speed || 0;
+      if (speed < minSpeedMs) continue;
+
+      const dt = (new Date(p2.time).getTime() - new Date(p1.time).getTime()) /
+        1000;
+      if (dt <= 0 || dt > MAX_STEP_SECONDS) continue;
+
+      const course = p1.course ?? calculateBearing(p1, p2);
+      const bin = Math.floor(normalizeAngle(course) / BIN_SIZE) % BIN_COUNT;
+      histogram[bin] += dt;
+      speedSums[bin] += speed * dt;
+      total += dt;
+    }
+
+    if (total < MIN_MOVING_SECONDS) return null;
+
+    const smoothed = histogram.map((_, i) =>
+      (histogram[(i - 1 + BIN_COUNT) % BIN_COUNT] + 2 * histogram[i] +
+        histogram[(i + 1) % BIN_COUNT]) / 4
+    );
+
+    // Find the mirror axis with the most overlap between both sides. The
+    // axis is tried through bin centers and bin edges (2.5° resolution).
+    let bestAxis = 0;
+    let bestOverlap = -1;
+    for (let step = 0; step < BIN_COUNT; step++) {
+      for (const edge of [0, 1]) {
+        let overlap = 0;
+        for (let j = edge ? 0 : 1; j < BIN_COUNT / 2; j++) {
+          const right = smoothed[(step + j) % BIN_COUNT];
+          const left = smoothed[(step - j - edge + 2 * BIN_COUNT) % BIN_COUNT];
+          overlap += Math.min(left, right);
+        }
+        if (overlap > bestOverlap) {
+          bestOverlap = overlap;
+          bestAxis = step * BIN_SIZE + (edge ? 0 : BIN_SIZE / 2);
+        }
+      }
+    }
+
+    // Decide which end of the axis is upwind: the emptier no-go sector wins,
+    // the half with the slower courses breaks a tie
+    const oppositeAxis = normalizeAngle(bestAxis + 180);
+    const sectorA = this.getSectorStats(histogram, speedSums, bestAxis, 30);
+    const sectorB = this.getSectorStats(histogram, speedSums, oppositeAxis, 30);
+    const halfA = this.getSectorStats(histogram, speedSums, bestAxis, 90);
+    const halfB = this.getSectorStats(histogram, speedSums, oppositeAxis, 90);
+
+    const sectorMax = Math.max(sectorA.time, sectorB.time);
+    const sectorMin = Math.min(sectorA.time, sectorB.time);
+    const upwind = sectorMax > 0.02 * total && sectorMin < 0.8 * sectorMax
+      ? (sectorA.time < sectorB.time ? bestAxis : oppositeAxis)
+      : (halfA.avgSpeed <= halfB.avgSpeed ? bestAxis : oppositeAxis);
+
+    return {
+      direction: Math.round(normalizeAngle(upwind)),
+      source: "estimated",
+      confidence: parseFloat(Math.min(1, (2 * bestOverlap) / total).toFixed(2)),
+    };
+  }
+
+  /**
+   * Classify a turn from the heading before to the heading after the
+   * maneuver. The sum of the heading changes tells the turning direction,
+   * a tack turns through the wind, a jibe through dead downwind. Returns
+   * null if the rider stayed on the same side of the wind.
+   */
+  static classifyTurn(
+    bearings: number[],
+    startIndex: number,
+    endIndex: number,
+    windDirection: number,
+  ): TurnClassification {
+    let turned = 0;
+    for (let i = startIndex; i < endIndex; i++) {
+      turned += signedAngleDifference(bearings[i], bearings[i + 1]);
+    }
+    if (turned === 0) return null;
+
+    const start = bearings[startIndex];
+    const arc = Math.abs(turned);
+    const direction = Math.sign(turned);
+    // How far the rider has to turn (in the turning direction) to point at
+    // the given heading
+    const distanceTo = (heading: number) =>
+      normalizeAngle(direction * (heading - start));
+
+    const toWind = distanceTo(windDirection);
+    const toDownwind = distanceTo(windDirection + 180);
+    const crossesWind = toWind <= arc;
+    const crossesDownwind = toDownwind <= arc;
+
+    if (crossesWind && crossesDownwind) {
+      return toWind < toDownwind ? "tack" : "jibe";
+    }
+    if (crossesWind) return "tack";
+    if (crossesDownwind) return "jibe";
+    return null;
+  }
+
+  private static getSectorStats(
+    histogram: number[],
+    speedSums: number[],
+    center: number,
+    halfWidth: number,
+  ): { time: number; avgSpeed: number } {
+    let time = 0;
+    let speed = 0;
+    for (let bin = 0; bin < BIN_COUNT; bin++) {
+      const binCenter = bin * BIN_SIZE + BIN_SIZE / 2;
+      if (Math.abs(signedAngleDifference(center, binCenter)) <= halfWidth) {
+        time += histogram[bin];
+        speed += speedSums[bin];
+      }
+    }
+    return { time, avgSpeed: time > 0 ? speed / time : 0 };
+  }
+}
@@ -1,59 +1,953 @@
-import { Hono } from "hono";
+import { Context, Hono } from "hono";
 import { cors } from "hono/cors";
+import { deleteCookie, getCookie, setCookie } from "hono/cookie";
+import { bodyLimit } from "hono/body-limit";
+import { ContentfulStatusCode } from "hono/utils/http-status";
 
-import { Analysis } from "./logic/Analysis.ts";
-import { KIAnalysis } from "./logic/KIAnalysis.ts";
+import { AnalysisOptions } from "./logic/Analysis.ts";
+import { Analyzers } from "./logic/Analyzers.ts";
+import { SportProfiles, SportSelection } from "./logic/SportProfiles.ts";
+import { ImporterRegistry } from "./logic/ImporterRegistry.ts";
+import { ExporterRegistry } from "./logic/ExporterRegistry.ts";
+import { Comparison } from "./logic/Comparison.ts";
+import { Records } from "./logic/Records.ts";
+import { Trends } from "./logic/Trends.ts";
+import { Preprocessing } from "./logic/Preprocessing.ts";
+import { HeartRateAnalysis } from "./logic/HeartRateAnalysis.ts";
+import { Simplification } from "./logic/Simplification.ts";
 import { Parser } from "./logic/Parser.ts";
+import { Locations } from "./logic/Locations.ts";
+import { Auth } from "./logic/Auth.ts";
+import { Groups } from "./logic/Groups.ts";
+import { Leaderboards } from "./logic/Leaderboards.ts";
+import LocationCacheKv from "./logic/LocationCacheKv.ts";
+import LocationCacheFile from "./logic/LocationCacheFile.ts";
 
-import { AnalysisBase } from "./logic/AnalysisBase.ts";
+import SessionStore from "./logic/SessionStore.ts";
+import SessionStoreKv from "./logic/SessionStoreKv.ts";
+import SessionStoreFile from "./logic/SessionStoreFile.ts";
+import SpotStore from "./logic/SpotStore.ts";
+import SpotStoreKv from "./logic/SpotStoreKv.ts";
+import SpotStoreFile from "./logic/SpotStoreFile.ts";
+import UserStore from "./logic/UserStore.ts";
+import UserStoreKv from "./logic/UserStoreKv.ts";
+import UserStoreFile from "./logic/UserStoreFile.ts";
+import GroupStore from "./logic/GroupStore.ts";
+import GroupStoreKv from "./logic/GroupStoreKv.ts";
+import GroupStoreFile from "./logic/GroupStoreFile.ts";
+import { Spots } from "./logic/Spots.ts";
 import {
+  Group,
+  PublicUser,
   Session,
-  SessionMetadata,
-  TrackPoint,
-  TrackStatistics,
+  SessionSummary,
+  StoredSession,
 } from "./util/types.ts";
+import { normalizeAngle } from "./util/utils.ts";
+import {
+  ApiError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "./util/errors.ts";
+
+/** The signed in user, null for anonymous requests */
+type Env = { Variables: { userId: string | null } };
+
+const app = new Hono<Env>();
+
+// Enable CORS for all routes. Bearer tokens work from any origin, the login
+// cookie only from the origins in CORS_ORIGIN (comma separated).
+const corsOrigin = Deno.env.get("CORS_ORIGIN");
+app.use(
+  "/*",
+  cors(
+    corsOrigin
+      ? { origin: corsOrigin.split(","), credentials: true }
+      : undefined,
+  ),
+);
+
+/** Largest accepted upload, FIT files of long sessions are a few MB */
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+/** Answer with an RFC 9457 problem document */
+const problem = (c: Context, error: ApiError) =>
+  c.body(
+    JSON.stringify({
+      type: `/problems/${error.code}`,
+      title: error.title,
+      status: error.status,
+      detail: error.message,
+      code: error.code,
+    }),
+    error.status as ContentfulStatusCode,
+    { "Content-Type": "application/problem+json" },
+  );
+
+app.onError((error, c) => {
+  if (error instanceof ApiError) return problem(c, error);
+
+  console.error(error);
+  return problem(
+    c,
+    new ApiError("Internal server error", 500, "internal_error", "Error"),
+  );
+});
+
+app.notFound((c) =>
+  problem(c, new NotFoundError(`No route for ${c.req.method} ${c.req.path}`))
+);
 
-const app = new Hono();
+for (const path of ["/analyze", "/sessions"]) {
+  app.post(
+    path,
+    bodyLimit({
+      maxSize: MAX_UPLOAD_BYTES,
+      onError: (c) =>
+        problem(
+          c,
+          new ValidationError(
+            `Uploads are limited to ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`,
+            413,
+          ),
+        ),
+    }),
+  );
+}
 
-// Enable CORS for all routes
-app.use("/*", cors());
+// Deno KV by default, SESSION_STORE=file keeps JSON files for local dev
+const useFiles = Deno.env.get("SESSION_STORE") === "file";
+let kv: Deno.Kv | undefined;
+const openKv = async () => kv ??= await Deno.openKv(Deno.env.get("KV_PATH"));
 
-// Basic analyzer configuration
-const analyzer: Analysis = new AnalysisBase();
-const kiAnalyzer: Analysis = new KIAnalysis();
+const store: SessionStore = useFiles
+  ? new SessionStoreFile(Deno.env.get("SESSION_STORE_PATH") ?? "data/sessions")
+  : new SessionStoreKv(await openKv());
+
+const spotStore: SpotStore = useFiles
+  ? new SpotStoreFile(Deno.env.get("SPOT_STORE_PATH") ?? "data/spots.json")
+  : new SpotStoreKv(await openKv());
+
+const userStore: UserStore = useFiles
+  ? new UserStoreFile(Deno.env.get("USER_STORE_PATH") ?? "data/users.json")
+  : new UserStoreKv(await openKv());
+
+const groupStore: GroupStore = useFiles
+  ? new GroupStoreFile(Deno.env.get("GROUP_STORE_PATH") ?? "data/groups.json")
+  : new GroupStoreKv(await openKv());
+
+// Without JWT_SECRET every restart signs everybody out
+let jwtSecret = Deno.env.get("JWT_SECRET");
+if (!jwtSecret) {
+  console.warn("JWT_SECRET is not set, logins end when the server stops");
+  jwtSecret = Auth.createSecret();
+}
+const TOKEN_COOKIE = "token";
+
+/**
+ * The user of a Bearer token or of the login cookie. A wrong Bearer token
+ * is an error, an expired cookie just makes the request anonymous.
+ */
+app.use("/*", async (c, next) => {
+  const header = c.req.header("Authorization");
+  const cookie = getCookie(c, TOKEN_COOKIE);
+  let userId: string | null = null;
+  if (header?.startsWith("Bearer ")) {
+    userId = await Auth.verifyToken(header.slice(7), jwtSecret);
+  } else if (cookie) {
+    userId = await Auth.verifyToken(cookie, jwtSecret).catch(() => null);
+  }
+  c.set("userId", userId);
+  await next();
+});
+
+// Reverse geocoding: LOCATION_PROVIDER=nominatim|spots|none, Nominatim
+// results are cached in KV or a file (LOCATION_CACHE=kv|file|none)
+const locationProvider = Deno.env.get("LOCATION_PROVIDER") ?? "nominatim";
+if (!Locations.isProvider(locationProvider)) {
+  throw new Error(
+    `LOCATION_PROVIDER must be one of ${Locations.providers.join(", ")}`,
+  );
+}
+const locationCache = Deno.env.get("LOCATION_CACHE") ??
+  (useFiles ? "file" : "kv");
+Parser.location = Locations.create({
+  provider: locationProvider,
+  cache: locationCache === "kv"
+    ? new LocationCacheKv(await openKv())
+    : locationCache === "file"
+    ? new LocationCacheFile(
+      Deno.env.get("LOCATION_CACHE_PATH") ?? "data/locations.json",
+    )
+    : undefined,
+  userAgent: Deno.env.get("NOMINATIM_USER_AGENT"),
+});
 
 app.get("/", (c) => {
   return c.json({
     title: "Wingfoil API",
     endpoints: {
       "/": "API info",
-      "/analyze": "Basic GPX analysis",
-      "/analyze-wingfoil":
-        "Wingfoil-specific analysis with configurable parameters",
+      "/auth/register":
+        "Create an account with email, password (8+ characters) and name",
+      "/auth/login":
+        "Log in with email and password, answers with a token for the " +
+        "Authorization: Bearer header and sets a login cookie",
+      "/auth/logout": "Remove the login cookie",
+      "/auth/me": "The signed in user",
+      "/analyze":
+        "Track analysis for GPX, FIT, TCX, GeoJSON or CSV (?format=...). " +
+        "Config options like ?jibeAngleThreshold=120 or a multipart upload " +
+        "with file and config (JSON) parts apply to this request only. " +
+        "?sport=wingfoil|windsurf|kitesurf|pumpfoil|sup overrides the sport " +
+        "detected from the track. Preprocessing: ?smoothing=kalman|" +
+        "savitzky-golay, ?resampleSeconds=1, ?removeSpikes=false, " +
+        "?maxSpeedKmh=80. Heart rate: ?maxHeartRate=190, " +
+        "?restingHeartRate=60, ?heartRateZones=95,114,133,152,171. " +
+        "?simplify=rdp|visvalingam with ?tolerance=2 " +
+        "(meters) or ?maxPoints=2000 thins out the returned points",
+      "/sessions": "Store an analyzed upload (POST, private unless " +
+        "?visibility=public) or list your sessions",
+      "/sessions/:id":
+        "Get, edit (name, board, notes, visibility) or delete a session. " +
+        "Private sessions of others need ?share=<token>",
+      "/sessions/:id/share":
+        "Create (POST) or revoke (DELETE) the share link of your session",
+      "/sessions/:id/reanalyze":
+        "Analyze a stored session again with another algorithm or config",
+      "/sessions/reanalyze": "Analyze all your sessions again",
+      "/sessions/compare":
+        "Compare sessions (?ids=a,b) side by side, with the changes to the " +
+        "session before and jibe duration and minimum speed histograms",
+      "/records":
+        "Your personal records (max speed, longest flight, flying jibes, " +
+        "rankings) with the session and time they were set",
+      "/trends": "Your time on the water, flying time and distance per " +
+        "?period=week|month",
+      "/sessions/:id/export":
+        "Download a session as ?format=gpx|kml|geojson with jibes, tacks " +
+        "and top runs as waypoints, simplified like /analyze",
+      "/spots":
+        "Spots of the sessions you can see with per-spot statistics (GET), " +
+        "or define a spot geofence with name and [lon, lat] polygon (POST)",
+      "/spots/:id/sessions": "Sessions and statistics of a spot",
+      "/spots/:id": "Delete a spot you defined",
+      "/groups": "Your groups (GET) or create a group with a name (POST)",
+      "/groups/:id": "Group with its members and leaderboards, or delete it",
+      "/groups/:id/join": "Join a group with its inviteCode",
+      "/groups/:id/members/:userId": "Leave a group or remove a member",
+      "/groups/:id/leaderboards":
+        "Add a leaderboard with name, metric (e.g. maxSpeed, flyingJibes, " +
+        "longestActivity, twoSeconds), window=week|month|year|all, " +
+        "aggregate=best|total and optional sport and spotId",
+      "/groups/:id/leaderboards/:leaderboardId":
+        "Standings from the public sessions of the members in the window " +
+        "around ?date= (today), without disqualified sessions and " +
+        "impossible speeds, or delete it",
+      "/groups/:id/disqualified/:sessionId":
+        "Leave a session out of the leaderboards (POST) or let it back in",
     },
   });
 });
 
-app.post("/analyze", async (c) => {
-  const algorithm = c.req.query("algorithm");
-  const algo = algorithm == "KI" ? kiAnalyzer : analyzer;
+const sportError = `sport must be one of ${
+  SportProfiles.getNames().join(", ")
+}`;
+
+const toNumber = (value: unknown): number =>
+  value === undefined || value === null || value === "" ? NaN : Number(value);
 
-  const xmlText = await c.req.text();
-  const json = Parser.parseXMLtoJSON(xmlText);
-  const points: TrackPoint[] = Parser.getPointsFromRawJson(json);
-  const metadata: SessionMetadata = await Parser.getMetadata(json);
-  const statistics: TrackStatistics = algo.getStatistics(points);
+/** Analysis options from query or JSON values */
+const parseOptions = (values: Record<string, unknown>): AnalysisOptions => {
+  const options: AnalysisOptions = {};
+  const windDirection = toNumber(values.windDirection);
+  const polarBinSize = toNumber(values.polarBinSize);
+  const topRuns = toNumber(values.topRuns);
 
-  const session: Session = {
+  if (values.windDirection !== undefined) {
+    if (!isFinite(windDirection)) {
+      throw new ValidationError("windDirection must be a number of degrees");
+    }
+    options.windDirection = normalizeAngle(windDirection);
+  }
+  if (values.polarBinSize !== undefined) {
+    if (!(polarBinSize > 0 && polarBinSize <= 90)) {
+      throw new ValidationError("polarBinSize must be between 0 and 90");
+    }
+    options.polarBinSize = polarBinSize;
+  }
+  if (values.topRuns !== undefined) {
+    if (!(Number.isInteger(topRuns) && topRuns > 0)) {
+      throw new ValidationError("topRuns must be a positive integer");
+    }
+    options.topRuns = topRuns;
+  }
+  const preprocessing = Preprocessing.parse(values);
+  if (Object.keys(preprocessing).length > 0) {
+    options.preprocessing = preprocessing;
+  }
+  const heartRate = HeartRateAnalysis.parse(values);
+  if (Object.keys(heartRate).length > 0) options.heartRate = heartRate;
+  return options;
+};
+
+/**
+ * The uploaded track, either the raw body or the "file" part of a
+ * multipart form, and the config of its optional "config" JSON part
+ */
+const readUpload = async (c: Context): Promise<{
+  body: Uint8Array;
+  contentType: string;
+  config: Record<string, unknown>;
+}> => {
+  const contentType = c.req.header("Content-Type") ?? "";
+  if (!contentType.startsWith("multipart/form-data")) {
+    return {
+      body: new Uint8Array(await c.req.arrayBuffer()),
+      contentType,
+      config: {},
+    };
+  }
+
+  const form = await c.req.formData();
+  const file = form.get("file");
+  if (!(file instanceof File)) throw new ValidationError("Missing file part");
+
+  const part = form.get("config");
+  let config: unknown = {};
+  if (part !== null) {
+    try {
+      config = JSON.parse(typeof part === "string" ? part : await part.text());
+    } catch {
+      throw new ValidationError("config part must be JSON");
+    }
+  }
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new ValidationError("config must be an object");
+  }
+
+  return {
+    body: new Uint8Array(await file.arrayBuffer()),
+    contentType: file.type,
+    config: config as Record<string, unknown>,
+  };
+};
+
+/**
+ * Import and analyze the uploaded track. Options and config come from the
+ * query, config options of a JSON part win over query parameters.
+ */
+const analyzeUpload = async (c: Context): Promise<Session> => {
+  const algorithm = c.req.query("algorithm") == "KI" ? "KI" : "base";
+  const query = c.req.query();
+  const upload = await readUpload(c);
+
+  const config = {
+    ...Analyzers.getConfigFromQuery(algorithm, query),
+    ...upload.config,
+  };
+  const error = Analyzers.validateConfig(algorithm, config);
+  if (error) throw new ValidationError(error);
+  const options = parseOptions(query);
+  const requestedSport = query.sport && SportProfiles.get(query.sport);
+  if (query.sport && !requestedSport) throw new ValidationError(sportError);
+
+  const { points, metadata } = await ImporterRegistry.import(
+    upload.body,
+    upload.contentType,
+    query,
+  );
+  const sport: SportSelection = requestedSport
+    ? { profile: requestedSport, source: "request" }
+    : SportProfiles.detect(metadata);
+
+  return {
     metadata,
-    statistics,
-    config: { type: algo.constructor.name },
-    points,
+    ...Analyzers.run(
+      points,
+      algorithm,
+      config as Record<string, number>,
+      options,
+      sport,
+    ),
   };
+};
 
-  return c.json({
+/**
+ * Recorded points stay in the store, responses show the analyzed ones,
+ * simplified if the query asks for it
+ */
+const toResponse = (
+  c: Context<Env>,
+  { rawPoints: _, shareToken, ...session }: Session,
+) => {
+  const simplification = Simplification.parse(c.req.query());
+  const shown = Auth.isOwner(session, c.get("userId"))
+    ? { ...session, shareToken }
+    : session;
+  return simplification ? Simplification.apply(shown, simplification) : shown;
+};
+
+type ReanalyzeRequest = {
+  algorithm?: unknown;
+  sport?: string;
+  config?: unknown;
+  options?: Record<string, unknown>;
+};
+
+/** The requested algorithm, or the one of the last run */
+const getAlgorithm = (session: StoredSession, request: ReanalyzeRequest) =>
+  Analyzers.isName(request.algorithm)
+    ? request.algorithm
+    : Analyzers.getName(session);
+
+/**
+ * Analyze a stored session again. The partial config is applied to the
+ * analyzer defaults, the options to the options of the last run.
+ */
+const reanalyze = (
+  session: StoredSession,
+  request: ReanalyzeRequest,
+): StoredSession => {
+  const previous = session.config.options as AnalysisOptions | undefined;
+  const changes = parseOptions(request.options ?? {});
+  const options: AnalysisOptions = {
+    ...previous,
+    ...changes,
+    preprocessing: { ...previous?.preprocessing, ...changes.preprocessing },
+    heartRate: { ...previous?.heartRate, ...changes.heartRate },
+  };
+
+  return {
     ...session,
+    ...Analyzers.run(
+      session.rawPoints ?? session.points,
+      getAlgorithm(session, request),
+      request.config as Record<string, number> | undefined,
+      options,
+      Analyzers.getSport(session, request.sport),
+    ),
+  };
+};
+
+/** Parse and check a reanalyze body */
+const parseReanalyzeRequest = async (
+  c: Context,
+): Promise<ReanalyzeRequest> => {
+  const text = await c.req.text();
+  let request: ReanalyzeRequest;
+  try {
+    request = text ? JSON.parse(text) : {};
+  } catch {
+    throw new ValidationError("Expected a JSON object");
+  }
+  if (!request || typeof request !== "object" || Array.isArray(request)) {
+    throw new ValidationError("Expected a JSON object");
+  }
+  if (
+    request.algorithm !== undefined && !Analyzers.isName(request.algorithm)
+  ) {
+    throw new ValidationError(
+      `algorithm must be one of ${Analyzers.names.join(", ")}`,
+    );
+  }
+  if (request.sport !== undefined && !SportProfiles.get(request.sport)) {
+    throw new ValidationError(sportError);
+  }
+  if (request.options !== undefined && typeof request.options !== "object") {
+    throw new ValidationError("options must be an object");
+  }
+  // Without an algorithm the config is checked against each stored session
+  if (Analyzers.isName(request.algorithm)) {
+    const error = Analyzers.validateConfig(request.algorithm, request.config);
+    if (error) throw new ValidationError(error);
+  }
+  return request;
+};
+
+/** The signed in user, for routes that store or list own data */
+const requireUser = (c: Context<Env>): string => {
+  const userId = c.get("userId");
+  if (!userId) throw new UnauthorizedError("Please log in");
+  return userId;
+};
+
+/** A session the user may read, private sessions of others are not found */
+const getStoredSession = async (
+  c: Context<Env>,
+  id: string,
+): Promise<StoredSession> => {
+  const session = await store.get(id);
+  if (
+    !session || !Auth.canRead(session, c.get("userId"), c.req.query("share"))
+  ) {
+    throw new NotFoundError(`Session ${id} not found`);
+  }
+  return session;
+};
+
+/** A session of the signed in user, to change or delete it */
+const getOwnSession = async (
+  c: Context<Env>,
+  id: string,
+): Promise<StoredSession> => {
+  const userId = requireUser(c);
+  const session = await getStoredSession(c, id);
+  if (!Auth.isOwner(session, userId)) {
+    throw new ForbiddenError(`Only the owner can change session ${id}`);
+  }
+  return session;
+};
+
+const listOwnSessions = async (c: Context<Env>): Promise<SessionSummary[]> => {
+  const userId = requireUser(c);
+  return (await store.list()).filter((s) => Auth.isOwner(s, userId));
+};
+
+/** The login token in the body, and as cookie for browsers */
+const signIn = async (c: Context<Env>, userId: string) => {
+  const token = await Auth.createToken(userId, jwtSecret);
+  setCookie(c, TOKEN_COOKIE, token, {
+    httpOnly: true,
+    secure: new URL(c.req.url).protocol === "https:",
+    sameSite: "Lax",
+    path: "/",
+    maxAge: Auth.tokenLifetime,
   });
+  return token;
+};
+
+app.post("/auth/register", async (c) => {
+  const registration = Auth.parseRegistration(
+    await c.req.json().catch(() => null),
+  );
+  const user = {
+    id: crypto.randomUUID(),
+    email: registration.email,
+    name: registration.name,
+    passwordHash: await Auth.hashPassword(registration.password),
+    createdAt: new Date().toISOString(),
+  };
+  if (!(await userStore.create(user))) {
+    throw new ValidationError(`${user.email} is already registered`, 409);
+  }
+
+  const token = await signIn(c, user.id);
+  return c.json({ token, user: Auth.toPublicUser(user) }, 201);
+});
+
+app.post("/auth/login", async (c) => {
+  const { email, password } = Auth.parseLogin(
+    await c.req.json().catch(() => null),
+  );
+  const user = await userStore.getByEmail(email);
+  if (!user || !(await Auth.verifyPassword(password, user.passwordHash))) {
+    throw new UnauthorizedError("Wrong email or password");
+  }
+
+  const token = await signIn(c, user.id);
+  return c.json({ token, user: Auth.toPublicUser(user) });
 });
 
-Deno.serve(app.fetch);
+app.post("/auth/logout", (c) => {
+  deleteCookie(c, TOKEN_COOKIE, { path: "/" });
+  return c.body(null, 204);
+});
+
+app.get("/auth/me", async (c) => {
+  const user = await userStore.get(requireUser(c));
+  if (!user) throw new UnauthorizedError("Please log in");
+  return c.json(Auth.toPublicUser(user));
+});
+
+app.post("/analyze", async (c) => {
+  // Fail before the analysis if the simplification options are wrong
+  Simplification.parse(c.req.query());
+  const session = await analyzeUpload(c);
+
+  return c.json(toResponse(c, session));
+});
+
+app.post("/sessions", async (c) => {
+  const ownerId = requireUser(c);
+  Simplification.parse(c.req.query());
+  const visibility = Auth.parseVisibility(
+    c.req.query("visibility") ?? "private",
+  );
+  const session: StoredSession = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    ownerId,
+    visibility,
+    ...(await analyzeUpload(c)),
+  };
+  await store.save(session);
+
+  return c.json(toResponse(c, session), 201);
+});
+
+app.get("/sessions", async (c) => {
+  return c.json(await listOwnSessions(c));
+});
+
+app.get("/records", async (c) => {
+  return c.json(Records.compute(await listOwnSessions(c)));
+});
+
+app.get("/trends", async (c) => {
+  const period = Trends.parsePeriod(c.req.query("period"));
+  return c.json(Trends.aggregate(await listOwnSessions(c), period));
+});
+
+app.get("/sessions/compare", async (c) => {
+  const ids = Comparison.parseIds(c.req.query("ids"));
+  const sessions = await Promise.all(
+    ids.map((id) => getStoredSession(c, id)),
+  );
+
+  return c.json(Comparison.compare(sessions));
+});
+
+app.get("/sessions/:id", async (c) => {
+  return c.json(toResponse(c, await getStoredSession(c, c.req.param("id"))));
+});
+
+app.get("/sessions/:id/export", async (c) => {
+  const exporter = ExporterRegistry.find(c.req.query("format"));
+  const session = await getStoredSession(c, c.req.param("id"));
+
+  return c.body(exporter.export(toResponse(c, session)), 200, {
+    "Content-Type": exporter.contentType,
+    "Content-Disposition":
+      `attachment; filename="${session.id}.${exporter.extension}"`,
+  });
+});
+
+app.patch("/sessions/:id", async (c) => {
+  const session = await getOwnSession(c, c.req.param("id"));
+
+  const changes = await c.req.json().catch(() => null);
+  if (!changes || typeof changes !== "object" || Array.isArray(changes)) {
+    throw new ValidationError("Expected a JSON object");
+  }
+  for (const field of ["name", "board", "notes"] as const) {
+    if (changes[field] === undefined) continue;
+    if (typeof changes[field] !== "string") {
+      throw new ValidationError(`${field} must be a string`);
+    }
+    session.metadata[field] = changes[field];
+  }
+  if (changes.visibility !== undefined) {
+    session.visibility = Auth.parseVisibility(changes.visibility);
+  }
+  await store.save(session);
+
+  return c.json(toResponse(c, session));
+});
+
+app.post("/sessions/reanalyze", async (c) => {
+  const request = await parseReanalyzeRequest(c);
+
+  const results = [];
+  for (const summary of await listOwnSessions(c)) {
+    const session = await store.get(summary.id);
+    if (!session) continue;
+
+    const error = Analyzers.validateConfig(
+      getAlgorithm(session, request),
+      request.config,
+    );
+    if (error) {
+      results.push({ id: session.id, error });
+      continue;
+    }
+    try {
+      const updated = reanalyze(session, request);
+      await store.save(updated);
+      results.push({ id: session.id, config: updated.config });
+    } catch (error) {
+      // One broken session should not stop the others
+      if (!(error instanceof ApiError)) throw error;
+      results.push({ id: session.id, error: error.message });
+    }
+  }
+
+  return c.json({ count: results.length, sessions: results });
+});
+
+app.post("/sessions/:id/reanalyze", async (c) => {
+  const session = await getOwnSession(c, c.req.param("id"));
+
+  const request = await parseReanalyzeRequest(c);
+  const error = Analyzers.validateConfig(
+    getAlgorithm(session, request),
+    request.config,
+  );
+  if (error) throw new ValidationError(error);
+
+  const updated = reanalyze(session, request);
+  await store.save(updated);
+
+  return c.json(toResponse(c, updated));
+});
+
+app.post("/sessions/:id/share", async (c) => {
+  const session = await getOwnSession(c, c.req.param("id"));
+  // The link stays the same until it is revoked
+  if (!session.shareToken) {
+    session.shareToken = Auth.createShareToken();
+    await store.save(session);
+  }
+
+  return c.json({
+    shareToken: session.shareToken,
+    url: `/sessions/${session.id}?share=${session.shareToken}`,
+  });
+});
+
+app.delete("/sessions/:id/share", async (c) => {
+  const session = await getOwnSession(c, c.req.param("id"));
+  delete session.shareToken;
+  await store.save(session);
+
+  return c.body(null, 204);
+});
+
+app.delete("/sessions/:id", async (c) => {
+  const session = await getOwnSession(c, c.req.param("id"));
+  await store.delete(session.id);
+
+  return c.body(null, 204);
+});
+
+/** The sessions the user may read, grouped by spot */
+const getSpotGroups = async (c: Context<Env>) => {
+  const userId = c.get("userId");
+  const sessions = (await store.list()).filter((s) => Auth.canRead(s, userId));
+  return Spots.group(sessions, await spotStore.list());
+};
+
+app.get("/spots", async (c) => {
+  const groups = await getSpotGroups(c);
+
+  return c.json(
+    groups.map(({ spot, sessions }) => ({
+      ...spot,
+      statistics: Spots.aggregate(sessions),
+    })),
+  );
+});
+
+app.post("/spots", async (c) => {
+  const ownerId = requireUser(c);
+  const spot = Spots.parse(await c.req.json().catch(() => null));
+  const id = Spots.toId(spot.name);
+  const taken = Spots.curated.some((s) => s.id === id) ||
+    (await spotStore.get(id));
+  if (taken) throw new ValidationError(`Spot ${id} already exists`, 409);
+
+  await spotStore.save({ id, ...spot, ownerId });
+
+  return c.json({ id, ...spot, ownerId }, 201);
+});
+
+app.get("/spots/:id/sessions", async (c) => {
+  const id = c.req.param("id");
+  const group = (await getSpotGroups(c)).find(({ spot }) => spot.id === id);
+  if (!group) throw new NotFoundError(`Spot ${id} not found`);
+
+  return c.json({
+    ...group.spot,
+    statistics: Spots.aggregate(group.sessions),
+    sessions: group.sessions,
+  });
+});
+
+app.delete("/spots/:id", async (c) => {
+  const userId = requireUser(c);
+  const id = c.req.param("id");
+  const spot = await spotStore.get(id);
+  if (!spot) throw new NotFoundError(`Spot ${id} not found`);
+  if (spot.ownerId !== userId) {
+    throw new ForbiddenError(
+      `Only the user who defined spot ${id} can delete it`,
+    );
+  }
+  await spotStore.delete(id);
+
+  return c.body(null, 204);
+});
+
+/** A group the user is a member of, other groups are not found */
+const getGroup = async (c: Context<Env>, id: string): Promise<Group> => {
+  const userId = requireUser(c);
+  const group = await groupStore.get(id);
+  if (!group || !Groups.isMember(group, userId)) {
+    throw new NotFoundError(`Group ${id} not found`);
+  }
+  return group;
+};
+
+/** A group the user owns, to manage it */
+const getOwnGroup = async (c: Context<Env>, id: string): Promise<Group> => {
+  const group = await getGroup(c, id);
+  if (!Groups.isOwner(group, c.get("userId"))) {
+    throw new ForbiddenError(`Only the owner can manage group ${id}`);
+  }
+  return group;
+};
+
+const getMembers = async (group: Group): Promise<PublicUser[]> => {
+  const users = await Promise.all(
+    group.memberIds.map((id) => userStore.get(id)),
+  );
+  return users.filter((user) => user !== null).map(Auth.toPublicUser);
+};
+
+app.get("/groups", async (c) => {
+  const userId = requireUser(c);
+  const groups = await groupStore.list();
+
+  return c.json(groups.filter((group) => Groups.isMember(group, userId)));
+});
+
+app.post("/groups", async (c) => {
+  const group = Groups.create(
+    await c.req.json().catch(() => null),
+    requireUser(c),
+  );
+  await groupStore.save(group);
+
+  return c.json(group, 201);
+});
+
+app.get("/groups/:id", async (c) => {
+  const group = await getGroup(c, c.req.param("id"));
+
+  return c.json({ ...group, members: await getMembers(group) });
+});
+
+app.delete("/groups/:id", async (c) => {
+  const group = await getOwnGroup(c, c.req.param("id"));
+  await groupStore.delete(group.id);
+
+  return c.body(null, 204);
+});
+
+app.post("/groups/:id/join", async (c) => {
+  const userId = requireUser(c);
+  const id = c.req.param("id");
+  const body = await c.req.json().catch(() => null);
+  const group = await groupStore.get(id);
+  // A wrong code does not tell whether the group exists
+  if (!group || !Auth.matchesToken(body?.inviteCode, group.inviteCode)) {
+    throw new NotFoundError(`Group ${id} not found`);
+  }
+  if (!Groups.isMember(group, userId)) {
+    group.memberIds.push(userId);
+    await groupStore.save(group);
+  }
+
+  return c.json({ ...group, members: await getMembers(group) });
+});
+
+app.delete("/groups/:id/members/:userId", async (c) => {
+  const group = await getGroup(c, c.req.param("id"));
+  const memberId = c.req.param("userId");
+  const userId = c.get("userId");
+  if (memberId !== userId && !Groups.isOwner(group, userId)) {
+    throw new ForbiddenError("Only the owner can remove other members");
+  }
+  if (Groups.isOwner(group, memberId)) {
+    throw new ValidationError("The owner cannot leave, delete the group");
+  }
+  if (!group.memberIds.includes(memberId)) {
+    throw new NotFoundError(`${memberId} is not a member`);
+  }
+  group.memberIds = group.memberIds.filter((id) => id !== memberId);
+  await groupStore.save(group);
+
+  return c.body(null, 204);
+});
+
+app.post("/groups/:id/leaderboards", async (c) => {
+  const group = await getOwnGroup(c, c.req.param("id"));
+  const leaderboard = {
+    id: crypto.randomUUID(),
+    ...Leaderboards.parse(await c.req.json().catch(() => null)),
+  };
+  const { spotId } = leaderboard;
+  if (
+    spotId && !Spots.curated.some((spot) => spot.id === spotId) &&
+    !(await spotStore.get(spotId))
+  ) {
+    throw new ValidationError(`Spot ${spotId} not found`);
+  }
+  group.leaderboards.push(leaderboard);
+  await groupStore.save(group);
+
+  return c.json(leaderboard, 201);
+});
+
+app.get("/groups/:id/leaderboards/:leaderboardId", async (c) => {
+  const group = await getGroup(c, c.req.param("id"));
+  const id = c.req.param("leaderboardId");
+  const leaderboard = group.leaderboards.find((board) => board.id === id);
+  if (!leaderboard) throw new NotFoundError(`Leaderboard ${id} not found`);
+  const date = Leaderboards.parseDate(c.req.query("date"));
+
+  return c.json(
+    Leaderboards.compute(
+      leaderboard,
+      await store.list(),
+      await getMembers(group),
+      {
+        date,
+        disqualified: group.disqualified,
+        userSpots: await spotStore.list(),
+      },
+    ),
+  );
+});
+
+app.delete("/groups/:id/leaderboards/:leaderboardId", async (c) => {
+  const group = await getOwnGroup(c, c.req.param("id"));
+  const id = c.req.param("leaderboardId");
+  const leaderboards = group.leaderboards.filter((board) => board.id !== id);
+  if (leaderboards.length === group.leaderboards.length) {
+    throw new NotFoundError(`Leaderboard ${id} not found`);
+  }
+  await groupStore.save({ ...group, leaderboards });
+
+  return c.body(null, 204);
+});
+
+app.post("/groups/:id/disqualified/:sessionId", async (c) => {
+  const group = await getOwnGroup(c, c.req.param("id"));
+  const sessionId = c.req.param("sessionId");
+  if (!group.disqualified.includes(sessionId)) {
+    group.disqualified.push(sessionId);
+    await groupStore.save(group);
+  }
+
+  return c.body(null, 204);
+});
+
+app.delete("/groups/:id/disqualified/:sessionId", async (c) => {
+  const group = await getOwnGroup(c, c.req.param("id"));
+  const sessionId = c.req.param("sessionId");
+  if (!group.disqualified.includes(sessionId)) {
+    throw new NotFoundError(`Session ${sessionId} is not disqualified`);
+  }
+  group.disqualified = group.disqualified.filter((id) => id !== sessionId);
+  await groupStore.save(group);
+
+  return c.body(null, 204);
+});
+
+// Tests import the app and send requests without a server
+if (import.meta.main) Deno.serve(app.fetch);
+
+export default app;
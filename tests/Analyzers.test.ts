@@ -0,0 +1,91 @@
+import { assertEquals } from "@std/assert";
+import { Analyzers } from "../logic/Analyzers.ts";
+import { KIAnalysis } from "../logic/KIAnalysis.ts";
+import { TrackPoint } from "../util/types.ts";
+import { jibingTrack } from "./tracks.ts";
+
+const points: TrackPoint[] = Array.from({ length: 20 }, (_, i) => ({
+  lat: 47.75 + i * 0.00005,
+  lon: 10,
+  speed: 5.5,
+  time: new Date(Date.parse("2025-10-04T11:00:00Z") + i * 1000)
+    .toISOString(),
+}));
+
+Deno.test("Analyzers records the analyzer, version and config of a run", () => {
+  const { config, statistics } = Analyzers.run(points, "KI", {
+    flyingSpeedThresholdKmh: 12,
+  }, { windDirection: 90 });
+
+  assertEquals(config.type, "KIAnalysis");
+  assertEquals(config.version, KIAnalysis.VERSION);
+  assertEquals(config.options, { windDirection: 90 });
+  assertEquals(
+    (config.settings as Record<string, number>).flyingSpeedThresholdKmh,
+    12,
+  );
+  assertEquals(statistics?.wind?.direction, 90);
+});
+
+Deno.test("Analyzers list the jibes they count", () => {
+  for (const name of ["base", "KI"] as const) {
+    const { maneuvers } = Analyzers.run(jibingTrack(), name, {}, {
+      windDirection: 0,
+    }).statistics!;
+
+    assertEquals(maneuvers.jibesList.length, maneuvers.jibes);
+    assertEquals(
+      maneuvers.jibesList.map((jibe) => jibe.type),
+      ["flying", "regular", "crash"],
+    );
+  }
+});
+
+Deno.test("Analyzers checks partial configs", () => {
+  assertEquals(Analyzers.validateConfig("KI", undefined), null);
+  assertEquals(
+    Analyzers.validateConfig("KI", { minWindConfidence: 0.7 }),
+    null,
+  );
+  assertEquals(
+    Analyzers.validateConfig("base", { minWindConfidence: 0.7 }),
+    null,
+  );
+  assertEquals(
+    Analyzers.validateConfig("base", { minWindConfidence: 1.5 }),
+    "minWindConfidence must be between 0 and 1",
+  );
+  assertEquals(
+    Analyzers.validateConfig("base", { minMaxSpeedDurationSeconds: 3 }),
+    "Unknown config option minMaxSpeedDurationSeconds",
+  );
+  assertEquals(
+    Analyzers.validateConfig("KI", { jibeAngleThreshold: "140" }),
+    "jibeAngleThreshold must be a number",
+  );
+  assertEquals(
+    Analyzers.getName({
+      metadata: { name: "", type: "", time: "" },
+      points,
+      config: { type: "AnalysisBase" },
+    }),
+    "base",
+  );
+});
+
+Deno.test("Analyzers rejects out of range config from the query", () => {
+  const config = Analyzers.getConfigFromQuery("base", {
+    jibeAngleThreshold: "200",
+    tackAngleThreshold: "ninety",
+    format: "csv",
+  });
+
+  assertEquals(config, {
+    jibeAngleThreshold: 200,
+    tackAngleThreshold: "ninety",
+  });
+  assertEquals(
+    Analyzers.validateConfig("base", config),
+    "jibeAngleThreshold must be between 30 and 180",
+  );
+});
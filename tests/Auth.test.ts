@@ -0,0 +1,83 @@
+import {
+  assertEquals,
+  assertNotEquals,
+  assertRejects,
+  assertThrows,
+} from "@std/assert";
+import { Auth } from "../logic/Auth.ts";
+import { Session } from "../util/types.ts";
+import { UnauthorizedError, ValidationError } from "../util/errors.ts";
+
+Deno.test("Auth hashes passwords with a salt", async () => {
+  const hash = await Auth.hashPassword("flying jibes");
+  const again = await Auth.hashPassword("flying jibes");
+
+  assertEquals(hash.split("$").slice(0, 2), ["pbkdf2", "100000"]);
+  assertNotEquals(hash, again);
+  assertEquals(await Auth.verifyPassword("flying jibes", hash), true);
+  assertEquals(await Auth.verifyPassword("flying jibes", again), true);
+  assertEquals(await Auth.verifyPassword("Flying jibes", hash), false);
+  assertEquals(await Auth.verifyPassword("flying jibes", "plain"), false);
+});
+
+Deno.test("Auth signs and checks login tokens", async () => {
+  const token = await Auth.createToken("rider-1", "secret");
+
+  assertEquals(await Auth.verifyToken(token, "secret"), "rider-1");
+  await assertRejects(
+    () => Auth.verifyToken(token, "other secret"),
+    UnauthorizedError,
+  );
+  await assertRejects(
+    () => Auth.verifyToken("not.a.token", "secret"),
+    UnauthorizedError,
+  );
+});
+
+Deno.test("Auth checks registrations", () => {
+  assertEquals(
+    Auth.parseRegistration({ email: " Anna@Club.ch ", password: "12345678" }),
+    { email: "anna@club.ch", name: "anna", password: "12345678" },
+  );
+
+  assertThrows(
+    () => Auth.parseRegistration({ email: "anna", password: "12345678" }),
+    ValidationError,
+  );
+  assertThrows(
+    () => Auth.parseRegistration({ email: "anna@club.ch", password: "short" }),
+    ValidationError,
+  );
+  assertThrows(
+    () =>
+      Auth.parseRegistration({
+        email: "anna@club.ch",
+        password: "12345678",
+        name: " ",
+      }),
+    ValidationError,
+  );
+  assertThrows(() => Auth.parseLogin([]), ValidationError);
+});
+
+Deno.test("Auth lets owners, share links and public sessions through", () => {
+  const session = {
+    ownerId: "anna",
+    visibility: "private",
+    shareToken: Auth.createShareToken(),
+  } as Session;
+
+  assertEquals(session.shareToken!.length, 43);
+  assertEquals(Auth.canRead(session, "anna"), true);
+  assertEquals(Auth.canRead(session, "ben"), false);
+  assertEquals(Auth.canRead(session, null), false);
+  assertEquals(Auth.canRead(session, null, session.shareToken), true);
+  assertEquals(Auth.canRead(session, "ben", "guess"), false);
+  assertEquals(Auth.canRead({ ...session, visibility: "public" }, null), true);
+  // Stored before there were accounts
+  assertEquals(Auth.canRead({ config: {} } as unknown as Session, null), true);
+
+  assertEquals(Auth.isOwner(session, "anna"), true);
+  assertEquals(Auth.isOwner({ ...session, ownerId: undefined }, null), false);
+  assertThrows(() => Auth.parseVisibility("friends"), ValidationError);
+});
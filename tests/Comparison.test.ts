@@ -0,0 +1,138 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { Comparison } from "../logic/Comparison.ts";
+import { Analyzers } from "../logic/Analyzers.ts";
+import { JibeInfo, StoredSession, TrackStatistics } from "../util/types.ts";
+import { InsufficientDataError, ValidationError } from "../util/errors.ts";
+import { jibingTrack } from "./tracks.ts";
+
+const jibe = (durationSeconds: number, minSpeed: number): JibeInfo => ({
+  type: minSpeed >= 10 ? "flying" : "regular",
+  startIndex: 0,
+  endIndex: 1,
+  startTime: "",
+  endTime: "",
+  durationSeconds,
+  angleChange: 160,
+  minSpeed,
+  maxSpeed: 25,
+  avgSpeed: 18,
+});
+
+const session = (
+  id: string,
+  time: string,
+  values: { max: number; flying: number; distance: number; jibes: JibeInfo[] },
+): StoredSession => ({
+  id,
+  createdAt: time,
+  metadata: { name: id, type: "wingfoil", time },
+  points: [],
+  statistics: {
+    speed: { avg: values.max / 2, max: values.max },
+    flying: { time: 1800, longestSequence: 300, percentage: values.flying },
+    maneuvers: {
+      jibes: values.jibes.length,
+      tacks: 0,
+      flyingJibes: values.jibes.filter((j) => j.type === "flying").length,
+      flyingJibePercentage: values.jibes.length > 0
+        ? (values.jibes.filter((j) => j.type === "flying").length /
+          values.jibes.length) * 100
+        : 0,
+      jibesList: values.jibes,
+    },
+    distance: { total: values.distance, maxFromStart: 1 },
+    rankings: { twoSeconds: { speed: values.max - 1 } },
+    sport: { profile: "wingfoil", activity: "flying" },
+  } as unknown as TrackStatistics,
+  config: {},
+});
+
+const lastWeek = session("last-week", "2025-09-27T10:00:00Z", {
+  max: 30,
+  flying: 50,
+  distance: 12.5,
+  jibes: [jibe(9, 4), jibe(7, 8)],
+});
+const thisWeek = session("this-week", "2025-10-04T10:00:00Z", {
+  max: 32.4,
+  flying: 62.5,
+  distance: 15,
+  jibes: [jibe(5, 12), jibe(6.5, 14), jibe(13, 3), jibe(7, 8)],
+});
+
+Deno.test("Comparison lines up sessions oldest first with deltas", () => {
+  const { sessions, deltas } = Comparison.compare([thisWeek, lastWeek]);
+
+  assertEquals(sessions.map((s) => [s.id, s.sport]), [
+    ["last-week", "wingfoil"],
+    ["this-week", "wingfoil"],
+  ]);
+  assertEquals(deltas, [{
+    id: "this-week",
+    previousId: "last-week",
+    metrics: {
+      maxSpeed: 2.4,
+      avgSpeed: 1.2,
+      flyingPercentage: 12.5,
+      flyingJibePercentage: 50,
+      distance: 2.5,
+      jibes: 2,
+      twoSeconds: 2.4,
+    },
+  }]);
+});
+
+Deno.test("Comparison bins jibes the same way for every session", () => {
+  const { jibes } = Comparison.compare([lastWeek, thisWeek]);
+
+  assertEquals(jibes.duration.bins[7], { min: 20, max: null });
+  assertEquals(jibes.duration.sessions, [
+    {
+      id: "last-week",
+      counts: [0, 0, 1, 1, 0, 0, 0, 0],
+      percentages: [0, 0, 50, 50, 0, 0, 0, 0],
+    },
+    {
+      id: "this-week",
+      counts: [0, 1, 2, 0, 0, 1, 0, 0],
+      percentages: [0, 25, 50, 0, 0, 25, 0, 0],
+    },
+  ]);
+  assertEquals(
+    jibes.minSpeed.sessions.map((s) => s.counts),
+    [[1, 1, 0, 0, 0, 0], [1, 1, 2, 0, 0, 0]],
+  );
+});
+
+Deno.test("Comparison bins the jibes of analyzed sessions", () => {
+  const analyzed = (id: string, algorithm: "base" | "KI"): StoredSession => ({
+    id,
+    createdAt: "2025-10-04T10:00:00Z",
+    metadata: { name: id, type: "wingfoil", time: "" },
+    ...Analyzers.run(jibingTrack(), algorithm, {}, { windDirection: 0 }),
+  });
+  const { jibes } = Comparison.compare([
+    analyzed("base", "base"),
+    analyzed("ki", "KI"),
+  ]);
+
+  // A flying jibe above 20 km/h, a regular one at 7.2 km/h and a crash
+  for (const session of jibes.minSpeed.sessions) {
+    assertEquals(session.counts, [1, 1, 0, 0, 1, 0]);
+  }
+  for (const session of jibes.duration.sessions) {
+    assertEquals(session.counts.reduce((sum, count) => sum + count), 3);
+  }
+});
+
+Deno.test("Comparison checks the session ids", () => {
+  assertEquals(Comparison.parseIds("a, b,a"), ["a", "b"]);
+
+  assertThrows(() => Comparison.parseIds("a"), ValidationError);
+  assertThrows(() => Comparison.parseIds(undefined), ValidationError);
+  assertThrows(
+    () =>
+      Comparison.compare([lastWeek, { ...thisWeek, statistics: undefined }]),
+    InsufficientDataError,
+  );
+});
@@ -0,0 +1,52 @@
+import { assertEquals } from "@std/assert";
+import { app, request } from "./server.ts";
+
+const upload = async (path: string, body: BodyInit) => {
+  const response = await app.request(path, { method: "POST", body });
+  return {
+    status: response.status,
+    contentType: response.headers.get("Content-Type"),
+    body: await response.json(),
+  };
+};
+
+Deno.test("Error routes answer with problem documents", async () => {
+  const broken = await upload("/analyze?format=geojson", "{ not json");
+  assertEquals(broken.status, 400);
+  assertEquals(broken.contentType, "application/problem+json");
+  assertEquals(broken.body.type, "/problems/parse_error");
+  assertEquals(broken.body.title, "Unreadable track file");
+  assertEquals(broken.body.status, 400);
+  assertEquals(broken.body.code, "parse_error");
+
+  const invalid = await upload("/analyze?topRuns=0", "<gpx></gpx>");
+  assertEquals(invalid.status, 400);
+  assertEquals(invalid.contentType, "application/problem+json");
+  assertEquals(invalid.body.code, "validation_error");
+  assertEquals(invalid.body.detail, "topRuns must be a positive integer");
+  assertEquals(
+    (await upload("/analyze", "")).body.detail,
+    "The upload is empty",
+  );
+
+  const unknown = await request("GET", "/nowhere");
+  assertEquals(unknown.status, 404);
+  assertEquals(unknown.body, {
+    type: "/problems/not_found",
+    title: "Not found",
+    status: 404,
+    detail: "No route for GET /nowhere",
+    code: "not_found",
+  });
+});
+
+Deno.test("Error routes turn down uploads above 20 MB", async () => {
+  const tooLarge = new Uint8Array(20 * 1024 * 1024 + 1);
+  for (const path of ["/analyze", "/sessions"]) {
+    const response = await upload(path, tooLarge);
+    assertEquals(response.status, 413);
+    assertEquals(response.contentType, "application/problem+json");
+    assertEquals(response.body.code, "validation_error");
+    assertEquals(response.body.detail, "Uploads are limited to 20 MB");
+  }
+});
@@ -0,0 +1,155 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "@std/assert";
+import { getAnnotations } from "../logic/Exporter.ts";
+import { ExporterRegistry } from "../logic/ExporterRegistry.ts";
+import { ImporterRegistry } from "../logic/ImporterRegistry.ts";
+import { Analyzers } from "../logic/Analyzers.ts";
+import { Parser } from "../logic/Parser.ts";
+import LocationNone from "../logic/LocationNone.ts";
+import {
+  JibeInfo,
+  Session,
+  TrackPoint,
+  TrackStatistics,
+} from "../util/types.ts";
+import { ValidationError } from "../util/errors.ts";
+import { jibingTrack } from "./tracks.ts";
+
+const START = Date.parse("2025-10-04T11:00:00Z");
+
+// North at 5 m/s, a pause after point 5 starts a second track segment
+const points: TrackPoint[] = Array.from({ length: 10 }, (_, s) => ({
+  lat: 47.75 + s * 0.00005,
+  lon: 10,
+  time: new Date(START + s * 1000).toISOString(),
+  segment: s < 6 ? 0 : 1,
+  speed: 5,
+}));
+
+const jibe = (type: JibeInfo["type"], startIndex: number): JibeInfo => ({
+  type,
+  startIndex,
+  endIndex: startIndex + 2,
+  startTime: points[startIndex].time,
+  endTime: points[startIndex + 2].time,
+  durationSeconds: 2,
+  angleChange: 160,
+  minSpeed: 9.5,
+  maxSpeed: 18,
+  avgSpeed: 14.2,
+});
+
+const session = {
+  id: "session-1",
+  metadata: { name: "Badsee", type: "wingfoil", time: points[0].time },
+  points,
+  statistics: {
+    maneuvers: { jibesList: [jibe("crash", 6), jibe("flying", 1)] },
+  } as unknown as TrackStatistics,
+  config: {},
+} as Session;
+
+const toBytes = (text: string) => new TextEncoder().encode(text);
+
+function withoutGeocoding(fn: () => Promise<void>) {
+  return async () => {
+    const location = Parser.location;
+    Parser.location = new LocationNone();
+    try {
+      await fn();
+    } finally {
+      Parser.location = location;
+    }
+  };
+}
+
+Deno.test("Exporter places the maneuvers in time order", () => {
+  assertEquals(
+    getAnnotations(session).map((a) => [a.style, a.name, a.point.time]),
+    [
+      ["flying", "Flying jibe", points[2].time],
+      ["crash", "Crash jibe", points[7].time],
+    ],
+  );
+});
+
+Deno.test(
+  "Exporter writes GPX that imports with segments and speeds",
+  withoutGeocoding(async () => {
+    const gpx = ExporterRegistry.find("gpx").export(session);
+
+    assertStringIncludes(gpx, "<sym>Flag, Red</sym>");
+    assertStringIncludes(gpx, "<type>flying</type>");
+
+    const { points: imported, metadata } = await ImporterRegistry.import(
+      toBytes(gpx),
+      "application/gpx+xml",
+    );
+    assertEquals(metadata.name, "Badsee");
+    assertEquals(
+      imported.map((p) => [p.speed, p.segment]),
+      points.map((p) => [
+        p.speed,
+        p.segment,
+      ]),
+    );
+  }),
+);
+
+Deno.test("Exporter writes a KML style per jibe type", () => {
+  const kml = ExporterRegistry.find("kml").export(session);
+
+  for (const style of ["flying", "regular", "crash", "tack", "run"]) {
+    assertStringIncludes(kml, `<Style id="${style}">`);
+  }
+  assertStringIncludes(kml, "<styleUrl>#crash</styleUrl>");
+  assertEquals(kml.match(/<gx:Track>/g)?.length, 2);
+  assertStringIncludes(kml, "<gx:value>18</gx:value>");
+});
+
+Deno.test(
+  "Exporter writes GeoJSON that imports without the annotations",
+  withoutGeocoding(async () => {
+    const geojson = ExporterRegistry.find("geojson").export(session);
+    const { features } = JSON.parse(geojson) as {
+      features: { properties: { annotation?: string } }[];
+    };
+
+    assertEquals(
+      features.map((f) => f.properties.annotation),
+      [undefined, "flying", "crash"],
+    );
+
+    const { points: imported } = await ImporterRegistry.import(
+      toBytes(geojson),
+      "application/geo+json",
+    );
+    assertEquals(imported, points);
+  }),
+);
+
+Deno.test("Exporter marks the jibes of an analyzed session", () => {
+  const analyzed: Session = {
+    metadata: { name: "Badsee", type: "wingfoil", time: points[0].time },
+    ...Analyzers.run(jibingTrack(), "base", {}, { windDirection: 0 }),
+  };
+
+  assertEquals(
+    getAnnotations(analyzed)
+      .filter((a) => a.style !== "run")
+      .map((a) => a.style),
+    ["flying", "regular", "crash"],
+  );
+  const gpx = ExporterRegistry.find("gpx").export(analyzed);
+  for (const symbol of ["Flag, Green", "Flag, Blue", "Flag, Red"]) {
+    assertStringIncludes(gpx, `<sym>${symbol}</sym>`);
+  }
+  const kml = ExporterRegistry.find("kml").export(analyzed);
+  for (const style of ["flying", "regular", "crash"]) {
+    assertStringIncludes(kml, `<styleUrl>#${style}</styleUrl>`);
+  }
+});
+
+Deno.test("Exporter rejects unknown formats", () => {
+  assertEquals(ExporterRegistry.find().name, "gpx");
+  assertThrows(() => ExporterRegistry.find("fit"), ValidationError);
+});
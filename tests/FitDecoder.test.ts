@@ -0,0 +1,77 @@
+import { assertAlmostEquals, assertEquals } from "@std/assert";
+import { FitDecoder } from "../logic/FitDecoder.ts";
+
+const FIT_EPOCH_OFFSET = 631065600;
+const DEGREES_TO_SEMICIRCLES = 2 ** 31 / 180;
+
+/**
+ * Build a small FIT file: one file_id message and a record per given point.
+ * The second record uses a compressed timestamp header.
+ */
+function buildFit(points: { lat: number; lon: number; speed: number }[]) {
+  const bytes: number[] = [];
+  const u16 = (v: number) => bytes.push(v & 0xff, (v >> 8) & 0xff);
+  const u32 = (v: number) =>
+    bytes.push(v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff);
+
+  // file_id definition (local 0): manufacturer, product
+  bytes.push(0x40, 0, 0);
+  u16(0);
+  bytes.push(2, 1, 2, 0x84, 2, 2, 0x84);
+  bytes.push(0x00);
+  u16(294); // COROS
+  u16(1234);
+
+  // record definition (local 1): timestamp, lat, long, speed, heart_rate
+  bytes.push(0x41, 0, 0);
+  u16(20);
+  bytes.push(5, 253, 4, 0x86, 0, 4, 0x85, 1, 4, 0x85, 6, 2, 0x84, 3, 1, 0x02);
+
+  const start = Date.UTC(2025, 6, 18, 15, 6, 34) / 1000 - FIT_EPOCH_OFFSET;
+  points.forEach((p, i) => {
+    if (i === 1) {
+      // compressed timestamp header, local type 1, offset = start + 1
+      bytes.push(0x80 | (1 << 5) | ((start + 1) & 0x1f));
+    } else {
+      bytes.push(0x01);
+    }
+    u32(start + i);
+    u32(Math.round(p.lat * DEGREES_TO_SEMICIRCLES));
+    u32(Math.round(p.lon * DEGREES_TO_SEMICIRCLES));
+    u16(Math.round(p.speed * 1000));
+    bytes.push(120 + i);
+  });
+
+  const header = [14, 0x20, 0, 0, 0, 0, 0, 0, 0x2e, 0x46, 0x49, 0x54, 0, 0];
+  const size = bytes.length;
+  header[4] = size & 0xff;
+  header[5] = (size >> 8) & 0xff;
+  return new Uint8Array([...header, ...bytes, 0, 0]);
+}
+
+Deno.test("FitDecoder detects FIT files by magic bytes", () => {
+  assertEquals(FitDecoder.isFit(buildFit([])), true);
+  assertEquals(
+    FitDecoder.isFit(new TextEncoder().encode("<?xml version='1.0'?><gpx/>")),
+    false,
+  );
+});
+
+Deno.test("FitDecoder converts record messages to track points", () => {
+  const fit = FitDecoder.decode(
+    buildFit([
+      { lat: 47.7528, lon: 10.0004, speed: 5.5 },
+      { lat: 47.7529, lon: 10.0005, speed: 6.25 },
+    ]),
+  );
+  const points = FitDecoder.getPointsFromFit(fit);
+
+  assertEquals(fit.fileId[0][1], 294);
+  assertEquals(points.length, 2);
+  assertAlmostEquals(points[0].lat, 47.7528, 1e-6);
+  assertAlmostEquals(points[1].lon, 10.0005, 1e-6);
+  assertEquals(points[0].time, "2025-07-18T15:06:34.000Z");
+  assertEquals(points[1].time, "2025-07-18T15:06:35.000Z");
+  assertEquals(points[1].speed, 6.25);
+  assertEquals(points[1].hr, 121);
+});
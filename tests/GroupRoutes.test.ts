@@ -0,0 +1,115 @@
+import { assertEquals } from "@std/assert";
+import { register, request, saveSession } from "./server.ts";
+
+Deno.test("Group routes manage members and leaderboards", async () => {
+  const anna = await register("anna");
+  const ben = await register("ben");
+  const carla = await register("carla");
+
+  assertEquals((await request("POST", "/groups", undefined, {})).status, 401);
+  const created = await request("POST", "/groups", anna.token, {
+    name: "Badsee",
+  });
+  assertEquals(created.status, 201);
+  const group = created.body;
+  const path = `/groups/${group.id}`;
+
+  // Others do not see the group and need the invite code to join
+  assertEquals((await request("GET", path, ben.token)).status, 404);
+  assertEquals(
+    (await request("POST", `${path}/join`, ben.token, { inviteCode: "x" }))
+      .status,
+    404,
+  );
+  const joined = await request("POST", `${path}/join`, ben.token, {
+    inviteCode: group.inviteCode,
+  });
+  assertEquals(
+    joined.body.members.map((member: { name: string }) => member.name),
+    ["anna", "ben"],
+  );
+  assertEquals(
+    (await request("GET", "/groups", ben.token)).body.map(
+      (g: { id: string }) => g.id,
+    ),
+    [group.id],
+  );
+  assertEquals((await request("GET", "/groups", carla.token)).body, []);
+
+  // Only the owner manages leaderboards
+  const board = { name: "Distance", metric: "distance", window: "all" };
+  assertEquals(
+    (await request("POST", `${path}/leaderboards`, ben.token, board)).status,
+    403,
+  );
+  assertEquals(
+    (await request("POST", `${path}/leaderboards`, anna.token, {
+      ...board,
+      metric: "speed",
+    })).status,
+    400,
+  );
+  const leaderboard =
+    (await request("POST", `${path}/leaderboards`, anna.token, {
+      ...board,
+      aggregate: "total",
+    })).body;
+  const standingsPath = `${path}/leaderboards/${leaderboard.id}`;
+
+  // Private sessions and sessions of non-members do not count
+  await saveSession("anna-1", anna.id, "public");
+  await saveSession("ben-1", ben.id, "private");
+  await saveSession("carla-1", carla.id, "public");
+  const getStandings = async () =>
+    (await request("GET", standingsPath, ben.token)).body.standings.map(
+      (entry: { name: string; sessionCount: number }) => [
+        entry.name,
+        entry.sessionCount,
+      ],
+    );
+  assertEquals(await getStandings(), [["anna", 1]]);
+
+  assertEquals(
+    (await request("PATCH", "/sessions/ben-1", ben.token, {
+      visibility: "public",
+    })).status,
+    200,
+  );
+  assertEquals(await getStandings(), [["anna", 1], ["ben", 1]]);
+
+  // Disqualified sessions are listed with the reason
+  assertEquals(
+    (await request("POST", `${path}/disqualified/ben-1`, ben.token)).status,
+    403,
+  );
+  await request("POST", `${path}/disqualified/ben-1`, anna.token);
+  const standings = (await request("GET", standingsPath, ben.token)).body;
+  assertEquals(standings.excluded, [
+    { sessionId: "ben-1", userId: ben.id, reason: "disqualified" },
+  ]);
+  await request("DELETE", `${path}/disqualified/ben-1`, anna.token);
+  assertEquals(await getStandings(), [["anna", 1], ["ben", 1]]);
+  assertEquals(
+    (await request("GET", `${standingsPath}?date=soon`, ben.token)).status,
+    400,
+  );
+
+  // Members leave, the owner cannot
+  assertEquals(
+    (await request("DELETE", `${path}/members/${anna.id}`, anna.token))
+      .status,
+    400,
+  );
+  assertEquals(
+    (await request("DELETE", `${path}/members/${ben.id}`, ben.token)).status,
+    204,
+  );
+  assertEquals((await request("GET", standingsPath, ben.token)).status, 404);
+
+  assertEquals(
+    (await request("DELETE", standingsPath, anna.token)).status,
+    204,
+  );
+  assertEquals((await request("DELETE", path, anna.token)).status, 204);
+  assertEquals((await request("GET", path, anna.token)).status, 404);
+});
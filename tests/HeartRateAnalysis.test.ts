@@ -0,0 +1,182 @@
+import { assertAlmostEquals, assertEquals, assertThrows } from "@std/assert";
+import { HeartRateAnalysis } from "../logic/HeartRateAnalysis.ts";
+import { Analyzers } from "../logic/Analyzers.ts";
+import { JibeInfo, RunInfo, TrackPoint } from "../util/types.ts";
+import { ValidationError } from "../util/errors.ts";
+import { jibingTrack } from "./tracks.ts";
+
+const START = Date.parse("2025-10-04T11:00:00Z");
+
+// One point per second, flying at 6 m/s with 150 bpm for the first ten
+// minutes, then drifting at 1 m/s with 100 bpm
+const points: TrackPoint[] = Array.from({ length: 1201 }, (_, s) => ({
+  lat: 47.75 + s * 0.00005,
+  lon: 10,
+  time: new Date(START + s * 1000).toISOString(),
+  speed: s < 600 ? 6 : 1,
+  hr: s < 600 ? 150 : 100,
+}));
+
+const crash: JibeInfo = {
+  type: "crash",
+  startIndex: 590,
+  endIndex: 600,
+  startTime: points[590].time,
+  endTime: points[600].time,
+  durationSeconds: 10,
+  angleChange: 170,
+  minSpeed: 2,
+  maxSpeed: 20,
+  avgSpeed: 12,
+};
+
+Deno.test("HeartRateAnalysis leaves out sessions without heart rate", () => {
+  const withoutHr = points.map(({ hr: _, ...point }) => point);
+  const { statistics } = Analyzers.run(withoutHr, "KI");
+
+  assertEquals(statistics?.heartRate, undefined);
+  assertEquals(
+    HeartRateAnalysis.compute(
+      withoutHr,
+      { jibes: [], runs: [], segments: [] },
+      8,
+    ),
+    undefined,
+  );
+});
+
+Deno.test("HeartRateAnalysis splits time into zones and activity", () => {
+  const heartRate = HeartRateAnalysis.compute(
+    points,
+    { jibes: [], runs: [], segments: [] },
+    8,
+  )!;
+
+  assertEquals([heartRate.avg, heartRate.max], [125, 150]);
+  assertEquals(
+    heartRate.zones.map((z) => [z.zone, z.min, z.max, z.time, z.percentage]),
+    [
+      [1, 95, 114, 600, 50],
+      [2, 114, 133, 0, 0],
+      [3, 133, 152, 600, 50],
+      [4, 152, 171, 0, 0],
+      [5, 171, null, 0, 0],
+    ],
+  );
+  assertEquals(heartRate.active, { avg: 150, time: 600 });
+  assertEquals(heartRate.inactive, { avg: 100, time: 600 });
+  assertEquals(heartRate.crashRecovery, null);
+
+  // 10 min at 69 % and 10 min at 31 % of the heart rate reserve
+  const trimp = (ratio: number) => 10 * ratio * 0.64 * Math.exp(1.92 * ratio);
+  assertAlmostEquals(heartRate.trimp, trimp(90 / 130) + trimp(40 / 130), 1);
+});
+
+Deno.test("HeartRateAnalysis handles the longest recordings", () => {
+  const long: TrackPoint[] = Array.from({ length: 200_000 }, (_, s) => ({
+    lat: 47.75,
+    lon: 10,
+    time: new Date(START + s * 1000).toISOString(),
+    speed: 1,
+    hr: s === 150_000 ? 180 : 100,
+  }));
+  const heartRate = HeartRateAnalysis.compute(
+    long,
+    { jibes: [], runs: [], segments: [] },
+    8,
+  )!;
+
+  assertEquals(heartRate.max, 180);
+});
+
+Deno.test("HeartRateAnalysis uses configured zones", () => {
+  const heartRate = HeartRateAnalysis.compute(
+    points,
+    { jibes: [], runs: [], segments: [] },
+    8,
+    { zones: [140, 120] },
+  )!;
+
+  assertEquals(heartRate.zones.map((z) => [z.min, z.max, z.time]), [
+    [120, 140, 0],
+    [140, null, 600],
+  ]);
+});
+
+Deno.test("HeartRateAnalysis reports maneuvers, runs and crash recovery", () => {
+  // Peak of 175 bpm after the crash, 145 bpm a minute later
+  const recording = points.map((point, s) =>
+    s >= 600 && s < 700
+      ? { ...point, hr: s < 610 ? 175 : s < 660 ? 160 : 145 }
+      : point
+  );
+  const jibe = { ...crash };
+  const run = { startIndex: 0, endIndex: 590 } as RunInfo;
+
+  const heartRate = HeartRateAnalysis.compute(
+    recording,
+    { jibes: [jibe], runs: [run], segments: [] },
+    8,
+  )!;
+
+  assertEquals(run.avgHeartRate, 150);
+  assertEquals(jibe.avgHeartRate, 150);
+  assertEquals(jibe.heartRateRecovery, 30);
+  assertEquals(heartRate.crashRecovery, {
+    count: 1,
+    avgPeak: 175,
+    avgDrop: 30,
+  });
+});
+
+Deno.test("HeartRateAnalysis fills in the jibes of the default analyzer", () => {
+  // 170 bpm right after the crash, back to 120 a minute later
+  const withHr = jibingTrack(60).map((point, s) => ({
+    ...point,
+    hr: s >= 64 && s <= 70 ? 170 : s >= 100 ? 120 : 140,
+  }));
+  const { statistics } = Analyzers.run(withHr, "base", {}, {
+    windDirection: 0,
+  });
+  const jibes = statistics!.maneuvers.jibesList;
+
+  assertEquals(jibes.map((jibe) => jibe.avgHeartRate !== undefined), [
+    true,
+    true,
+    true,
+  ]);
+  assertEquals(jibes[2].type, "crash");
+  assertEquals(jibes[2].heartRateRecovery, 50);
+  assertEquals(statistics!.heartRate!.crashRecovery, {
+    count: 1,
+    avgPeak: 170,
+    avgDrop: 50,
+  });
+});
+
+Deno.test("HeartRateAnalysis reads and checks the options", () => {
+  assertEquals(
+    HeartRateAnalysis.parse({
+      maxHeartRate: "185",
+      heartRateZones: "100,120,140",
+    }),
+    { maxHeartRate: 185, zones: [100, 120, 140] },
+  );
+  assertEquals(HeartRateAnalysis.parse({ heartRateZones: [110, 150] }), {
+    zones: [110, 150],
+  });
+
+  assertThrows(
+    () => HeartRateAnalysis.parse({ maxHeartRate: "80" }),
+    ValidationError,
+  );
+  assertThrows(
+    () =>
+      HeartRateAnalysis.parse({ maxHeartRate: "110", restingHeartRate: "115" }),
+    ValidationError,
+  );
+  assertThrows(
+    () => HeartRateAnalysis.parse({ heartRateZones: "120,fast" }),
+    ValidationError,
+  );
+});
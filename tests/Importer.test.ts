@@ -0,0 +1,183 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { ImporterRegistry } from "../logic/ImporterRegistry.ts";
+import { Parser } from "../logic/Parser.ts";
+import LocationNone from "../logic/LocationNone.ts";
+import {
+  InsufficientDataError,
+  ParseError,
+  ValidationError,
+} from "../util/errors.ts";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+// Reverse geocoding is not part of these tests
+function withoutGeocoding(fn: () => Promise<void>) {
+  return async () => {
+    const location = Parser.location;
+    Parser.location = new LocationNone();
+    try {
+      await fn();
+    } finally {
+      Parser.location = location;
+    }
+  };
+}
+
+Deno.test(
+  "ImporterRegistry imports TCX trackpoints",
+  withoutGeocoding(async () => {
+    const tcx = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2">
+  <Activities><Activity Sport="Other"><Id>2025-07-18T15:06:34.000Z</Id>
+    <Lap StartTime="2025-07-18T15:06:34.000Z"><Track>
+      <Trackpoint><Time>2025-07-18T15:06:34.000Z</Time>
+        <Position><LatitudeDegrees>42.97</LatitudeDegrees><LongitudeDegrees>17.10</LongitudeDegrees></Position>
+        <HeartRateBpm><Value>81</Value></HeartRateBpm>
+        <Extensions><ns3:TPX><ns3:Speed>4.2</ns3:Speed></ns3:TPX></Extensions>
+      </Trackpoint>
+      <Trackpoint><Time>2025-07-18T15:06:35.000Z</Time><HeartRateBpm><Value>82</Value></HeartRateBpm></Trackpoint>
+      <Trackpoint><Time>2025-07-18T15:06:36.000Z</Time>
+        <Position><LatitudeDegrees>42.971</LatitudeDegrees><LongitudeDegrees>17.10</LongitudeDegrees></Position>
+      </Trackpoint>
+    </Track></Lap>
+  </Activity></Activities>
+</TrainingCenterDatabase>`;
+
+    const { points, metadata } = await ImporterRegistry.import(encode(tcx), "");
+
+    assertEquals(points.length, 2);
+    assertEquals(points[0].hr, 81);
+    assertEquals(points[0].speed, 4.2);
+    assertEquals(metadata.time, "2025-07-18T15:06:34.000Z");
+  }),
+);
+
+Deno.test(
+  "ImporterRegistry imports GeoJSON LineStrings with per coordinate times",
+  withoutGeocoding(async () => {
+    const geojson = JSON.stringify({
+      type: "Feature",
+      properties: {
+        name: "Badsee",
+        coordinateProperties: {
+          times: ["2025-10-04T11:26:51Z", "2025-10-04T11:26:52Z"],
+          speeds: [3, 4],
+        },
+      },
+      geometry: {
+        type: "LineString",
+        coordinates: [[10.0, 47.75, 686], [10.0001, 47.75]],
+      },
+    });
+
+    const { points, metadata } = await ImporterRegistry.import(
+      encode(geojson),
+      "application/geo+json",
+    );
+
+    assertEquals(metadata.name, "Badsee");
+    assertEquals(points.length, 2);
+    assertEquals(points[0].ele, 686);
+    assertEquals(points[1].speed, 4);
+    assertEquals(points[1].time, "2025-10-04T11:26:52Z");
+  }),
+);
+
+Deno.test(
+  "ImporterRegistry imports GeoJSON lines up to the point limit",
+  withoutGeocoding(async () => {
+    const count = ImporterRegistry.maxPoints - 10_000;
+    const start = Date.parse("2025-10-04T11:00:00Z");
+    const geojson = JSON.stringify({
+      type: "Feature",
+      properties: {
+        coordTimes: Array.from(
+          { length: count },
+          (_, i) => new Date(start + i * 1000).toISOString(),
+        ),
+      },
+      geometry: {
+        type: "LineString",
+        coordinates: Array.from(
+          { length: count },
+          (_, i) => [10, 47.75 + i * 0.00001],
+        ),
+      },
+    });
+
+    const { points } = await ImporterRegistry.import(
+      encode(geojson),
+      "application/geo+json",
+    );
+
+    assertEquals(points.length, count);
+  }),
+);
+
+Deno.test(
+  "ImporterRegistry imports CSV with configured columns",
+  withoutGeocoding(async () => {
+    const csv = [
+      "UTC;Breite;Laenge;SOG",
+      "1759577211;47.75;10.0;10",
+      "1759577212;47.7501;10.0;",
+    ].join("\n");
+
+    const { points } = await ImporterRegistry.import(encode(csv), "", {
+      format: "csv",
+      columns: "time:UTC,lat:Breite,lon:Laenge,speed:SOG",
+      speedUnit: "knots",
+    });
+
+    assertEquals(points.length, 2);
+    assertEquals(points[0].time, "2025-10-04T11:26:51.000Z");
+    assertEquals(points[0].speed, 10 * 1852 / 3600);
+    assertEquals(typeof points[1].speed, "number");
+  }),
+);
+
+Deno.test(
+  "ImporterRegistry uses the first point time without GPX metadata",
+  withoutGeocoding(async () => {
+    const gpx = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx xmlns="http://www.topografix.com/GPX/1/1" version="1.1">
+  <trk><name>Windsurfing</name><trkseg>
+    <trkpt lat="47.75" lon="10.0"><time>2025-07-22T14:32:48Z</time></trkpt>
+    <trkpt lat="47.76" lon="10.0"><time>2025-07-22T14:32:49Z</time></trkpt>
+  </trkseg></trk>
+</gpx>`;
+
+    const { metadata } = await ImporterRegistry.import(encode(gpx), "");
+
+    assertEquals(metadata.time, "2025-07-22T14:32:48Z");
+  }),
+);
+
+Deno.test(
+  "ImporterRegistry rejects unusable uploads with typed errors",
+  withoutGeocoding(async () => {
+    await assertRejects(
+      () => ImporterRegistry.import(new Uint8Array(), ""),
+      ValidationError,
+    );
+    await assertRejects(
+      () => ImporterRegistry.import(encode("<foo><bar/></foo>"), ""),
+      ParseError,
+    );
+    await assertRejects(
+      () =>
+        ImporterRegistry.import(encode("{ broken"), "", { format: "geojson" }),
+      ParseError,
+    );
+    await assertRejects(
+      () =>
+        ImporterRegistry.import(
+          encode(`<gpx><trk><trkseg>
+            <trkpt lat="1" lon="2"><time>2025-01-01T00:00:00Z</time></trkpt>
+          </trkseg></trk></gpx>`),
+          "",
+        ),
+      InsufficientDataError,
+    );
+  }),
+);
@@ -0,0 +1,219 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { Leaderboards } from "../logic/Leaderboards.ts";
+import {
+  Leaderboard,
+  SessionHighlights,
+  SessionSummary,
+  SportProfileName,
+} from "../util/types.ts";
+import { ValidationError } from "../util/errors.ts";
+
+const summary = (
+  id: string,
+  ownerId: string,
+  time: string,
+  highlights: Partial<SessionHighlights>,
+  sport: SportProfileName = "wingfoil",
+): SessionSummary => ({
+  id,
+  createdAt: time,
+  ownerId,
+  visibility: "public",
+  metadata: { name: id, type: sport, time },
+  start: { lat: 47.75, lon: 10 },
+  sport,
+  highlights: {
+    distance: 10,
+    totalTime: 3600,
+    activityTime: 1800,
+    maxSpeed: 30,
+    jibes: 10,
+    flyingJibes: 5,
+    ...highlights,
+  },
+});
+
+const members = [
+  { id: "anna", email: "anna@club.ch", name: "Anna", createdAt: "" },
+  { id: "ben", email: "ben@club.ch", name: "Ben", createdAt: "" },
+  { id: "carla", email: "carla@club.ch", name: "Carla", createdAt: "" },
+];
+
+// Newest first, like the session list
+const sessions = [
+  summary("carla-1", "carla", "2025-10-20T10:00:00Z", { flyingJibes: 8 }),
+  summary("ben-2", "ben", "2025-10-12T10:00:00Z", {
+    maxSpeed: 75,
+    flyingJibes: 9,
+  }),
+  summary("anna-2", "anna", "2025-10-11T10:00:00Z", { flyingJibes: 2 }),
+  summary("ben-1", "ben", "2025-10-05T10:00:00Z", { flyingJibes: 6 }),
+  summary("anna-1", "anna", "2025-10-04T10:00:00Z", { flyingJibes: 6 }),
+  summary("anna-kite", "anna", "2025-10-03T10:00:00Z", {
+    flyingJibes: 10,
+  }, "kitesurf"),
+  summary("dave-1", "dave", "2025-10-04T10:00:00Z", { flyingJibes: 10 }),
+  summary("anna-0", "anna", "2025-09-27T10:00:00Z", { flyingJibes: 10 }),
+];
+
+const leaderboard = (changes: Partial<Leaderboard>): Leaderboard => ({
+  id: "october",
+  name: "Most flying jibes",
+  metric: "flyingJibes",
+  window: "month",
+  aggregate: "total",
+  sport: "wingfoil",
+  ...changes,
+});
+
+const options = {
+  date: new Date("2025-10-15T00:00:00Z"),
+  disqualified: ["carla-1"],
+};
+
+Deno.test("Leaderboards add up the sessions of members in the window", () => {
+  const result = Leaderboards.compute(
+    leaderboard({}),
+    sessions,
+    members,
+    options,
+  );
+
+  assertEquals([result.from, result.to], [
+    "2025-10-01T00:00:00.000Z",
+    "2025-11-01T00:00:00.000Z",
+  ]);
+  assertEquals(result.standings, [
+    {
+      rank: 1,
+      userId: "anna",
+      name: "Anna",
+      value: 8,
+      sessionId: undefined,
+      sessionCount: 2,
+    },
+    {
+      rank: 2,
+      userId: "ben",
+      name: "Ben",
+      value: 6,
+      sessionId: undefined,
+      sessionCount: 1,
+    },
+  ]);
+  assertEquals(result.excluded, [
+    { sessionId: "carla-1", userId: "carla", reason: "disqualified" },
+    {
+      sessionId: "ben-2",
+      userId: "ben",
+      reason: "maxSpeed of 75 km/h is faster than the 60 km/h limit for " +
+        "Wingfoil",
+    },
+  ]);
+});
+
+Deno.test("Leaderboards rank the best session, equal values share a rank", () => {
+  const result = Leaderboards.compute(
+    leaderboard({ aggregate: "best", sport: undefined }),
+    sessions,
+    members,
+    { ...options, disqualified: [] },
+  );
+
+  assertEquals(
+    result.standings.map((s) => [s.rank, s.userId, s.value, s.sessionId]),
+    [
+      [1, "anna", 10, "anna-kite"],
+      [2, "carla", 8, "carla-1"],
+      [3, "ben", 6, "ben-1"],
+    ],
+  );
+
+  const week = Leaderboards.compute(
+    leaderboard({ aggregate: "best", window: "week" }),
+    sessions,
+    members,
+    { ...options, date: new Date("2025-10-05T20:00:00Z") },
+  );
+  assertEquals(week.from, "2025-09-29T00:00:00.000Z");
+  assertEquals(
+    week.standings.map((s) => [s.rank, s.userId, s.value]),
+    [[1, "anna", 6], [1, "ben", 6]],
+  );
+});
+
+Deno.test("Leaderboards leave out private sessions", () => {
+  const secret = {
+    ...summary("ben-3", "ben", "2025-10-13T10:00:00Z", { flyingJibes: 20 }),
+    visibility: "private" as const,
+  };
+  const unset = {
+    ...summary("carla-2", "carla", "2025-10-13T10:00:00Z", {
+      flyingJibes: 20,
+    }),
+    visibility: undefined,
+  };
+  const result = Leaderboards.compute(
+    leaderboard({}),
+    [secret, unset, ...sessions],
+    members,
+    options,
+  );
+
+  assertEquals(result.standings.map((s) => [s.userId, s.value]), [
+    ["anna", 8],
+    ["ben", 6],
+  ]);
+  assertEquals(result.excluded.map((e) => e.sessionId), ["carla-1", "ben-2"]);
+});
+
+Deno.test("Leaderboards only count sessions at the spot", () => {
+  const elsewhere = {
+    ...summary("anna-3", "anna", "2025-10-13T10:00:00Z", { flyingJibes: 20 }),
+    start: { lat: 46, lon: 8 },
+  };
+  const result = Leaderboards.compute(
+    leaderboard({ spotId: "home" }),
+    [elsewhere, ...sessions],
+    members,
+    {
+      ...options,
+      userSpots: [{
+        id: "home",
+        name: "Home",
+        polygon: [[9.9, 47.7], [10.1, 47.7], [10.1, 47.8], [9.9, 47.8]],
+      }],
+    },
+  );
+
+  assertEquals(result.standings.map((s) => [s.userId, s.value]), [
+    ["anna", 8],
+    ["ben", 6],
+  ]);
+});
+
+Deno.test("Leaderboards check the configuration", () => {
+  assertEquals(
+    Leaderboards.parse({ name: " Top speed ", metric: "maxSpeed" }),
+    {
+      name: "Top speed",
+      metric: "maxSpeed",
+      window: "month",
+      aggregate: "best",
+      sport: undefined,
+      spotId: undefined,
+    },
+  );
+
+  const parse = (changes: Record<string, unknown>) => () =>
+    Leaderboards.parse({ name: "October", metric: "flyingJibes", ...changes });
+  assertThrows(parse({ metric: "speed" }), ValidationError);
+  assertThrows(parse({ window: "day" }), ValidationError);
+  assertThrows(parse({ sport: "sailing" }), ValidationError);
+  assertThrows(
+    parse({ metric: "maxSpeed", aggregate: "total" }),
+    ValidationError,
+  );
+  assertThrows(parse({ name: "" }), ValidationError);
+  assertThrows(() => Leaderboards.parseDate("yesterday"), ValidationError);
+});
@@ -0,0 +1,111 @@
+import { assertEquals } from "@std/assert";
+import LocationSpots from "../logic/LocationSpots.ts";
+import LocationCache, { LocationCacheStore } from "../logic/LocationCache.ts";
+import LocationOpenStreetmap from "../logic/LocationOpenStreetmap.ts";
+import Location from "../logic/Location.ts";
+import { Parser } from "../logic/Parser.ts";
+import { UpstreamError } from "../util/errors.ts";
+import { LocationResult, TrackPoint } from "../util/types.ts";
+
+const point = (lat: number, lon: number): TrackPoint => ({
+  lat,
+  lon,
+  time: "2025-07-22T14:32:48Z",
+});
+
+/** Counts the lookups and answers with a fixed city */
+class CountingLocation implements Location {
+  calls = 0;
+
+  getLocation(): Promise<LocationResult> {
+    this.calls++;
+    return Promise.resolve({ address: { city: "Somewhere" } });
+  }
+}
+
+class MemoryCache implements LocationCacheStore {
+  entries = new Map<string, LocationResult>();
+
+  get(key: string) {
+    return Promise.resolve(this.entries.get(key) ?? null);
+  }
+
+  set(key: string, location: LocationResult) {
+    this.entries.set(key, location);
+    return Promise.resolve();
+  }
+}
+
+Deno.test("LocationSpots finds the curated spot of a point", async () => {
+  const fallback = new CountingLocation();
+  const location = new LocationSpots(undefined, fallback);
+
+  const badsee = await location.getLocation(point(47.7519, 9.99999));
+  assertEquals(badsee.address.leisure, "Badsee");
+  assertEquals(badsee.address.country_code, "de");
+  assertEquals(location.getSpot(point(46.4552, 9.7906))?.id, "silvaplana");
+  assertEquals(fallback.calls, 0);
+
+  const elsewhere = await location.getLocation(point(50, 8));
+  assertEquals(elsewhere.address.city, "Somewhere");
+  assertEquals(fallback.calls, 1);
+
+  assertEquals(
+    await new LocationSpots().getLocation(point(50, 8)),
+    { address: {} },
+  );
+});
+
+Deno.test("LocationCache reuses results of nearby points", async () => {
+  const inner = new CountingLocation();
+  const store = new MemoryCache();
+  const location = new LocationCache(inner, store);
+
+  await location.getLocation(point(42.97841, 17.10859));
+  const cached = await location.getLocation(point(42.97839, 17.10861));
+
+  assertEquals(cached.address.city, "Somewhere");
+  assertEquals(inner.calls, 1);
+  assertEquals([...store.entries.keys()], ["42.978,17.109"]);
+
+  await location.getLocation(point(42.9, 17.1));
+  assertEquals(inner.calls, 2);
+});
+
+Deno.test("LocationOpenStreetmap asks Nominatim once per second", async () => {
+  const fetch = globalThis.fetch;
+  const times: number[] = [];
+  globalThis.fetch = () => {
+    times.push(Date.now());
+    return Promise.resolve(Response.json({ address: { city: "Isny" } }));
+  };
+  try {
+    const location = new LocationOpenStreetmap();
+    const results = await Promise.all(
+      [47.69, 47.7, 47.71].map((lat) => location.getLocation(point(lat, 10))),
+    );
+
+    assertEquals(results.map((r) => r.address.city), ["Isny", "Isny", "Isny"]);
+    assertEquals(times[1] - times[0] >= 1000, true);
+    assertEquals(times[2] - times[1] >= 1000, true);
+  } finally {
+    globalThis.fetch = fetch;
+  }
+});
+
+Deno.test("A failed lookup leaves the address n.a. and is not cached", async () => {
+  const location = Parser.location;
+  const store = new MemoryCache();
+  Parser.location = new LocationCache({
+    getLocation: () =>
+      Promise.reject(new UpstreamError("Geocoding failed with status 503")),
+  }, store);
+  try {
+    const metadata = await Parser.getLocationMetadata(point(50, 8));
+
+    assertEquals([metadata.city, metadata.country_code], ["n.a.", "n.a."]);
+    assertEquals(store.entries.size, 0);
+  } finally {
+    Parser.location = location;
+  }
+});
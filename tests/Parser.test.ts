@@ -0,0 +1,77 @@
+import { assertEquals } from "@std/assert";
+import { Parser } from "../logic/Parser.ts";
+import { KIAnalysis } from "../logic/KIAnalysis.ts";
+import { countSegments } from "../util/utils.ts";
+
+const gpx = (namespaces: string, trkpts: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<gpx xmlns="http://www.topografix.com/GPX/1/1" ${namespaces} version="1.1">
+  <trk><name>Test</name><trkseg>${trkpts}</trkseg></trk>
+</gpx>`;
+
+Deno.test("Parser reads Garmin TrackPointExtension with any prefix", () => {
+  const xml = gpx(
+    `xmlns:ns3="http://www.garmin.com/xmlschemas/TrackPointExtension/v1"`,
+    `<trkpt lat="47.75" lon="10.0"><ele>686.4</ele><time>2025-10-04T11:26:51Z</time>
+      <extensions><ns3:TrackPointExtension><ns3:hr>128</ns3:hr></ns3:TrackPointExtension></extensions>
+    </trkpt>
+    <trkpt lat="47.76" lon="10.0"><time>2025-10-04T11:26:52Z</time></trkpt>`,
+  );
+
+  const points = Parser.getPointsFromRawJson(Parser.parseXMLtoJSON(xml));
+
+  assertEquals(points.length, 2);
+  assertEquals(points[0].hr, 128);
+  assertEquals(points[0].ele, 686.4);
+  assertEquals(points[1].hr, undefined);
+});
+
+Deno.test("Parser reads TrackPointExtension v2 speed and gpxdata", () => {
+  const xml = gpx(
+    `xmlns:tpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2" xmlns:gpxdata="http://www.cluetrust.com/XML/GPXDATA/1/0"`,
+    `<trkpt lat="47.75" lon="10.0"><time>2025-10-04T11:26:51Z</time>
+      <extensions><tpx:TrackPointExtension><tpx:speed>4.5</tpx:speed><tpx:course>90</tpx:course></tpx:TrackPointExtension></extensions>
+    </trkpt>
+    <trkpt lat="47.76" lon="10.0"><time>2025-10-04T11:26:52Z</time>
+      <extensions><gpxdata:hr>140</gpxdata:hr><gpxdata:distance>8.00</gpxdata:distance><gpxdata:speed>0.947</gpxdata:speed></extensions>
+    </trkpt>`,
+  );
+
+  const points = Parser.getPointsFromRawJson(Parser.parseXMLtoJSON(xml));
+
+  assertEquals(points[0].speed, 4.5);
+  assertEquals(points[0].course, 90);
+  assertEquals(points[1].hr, 140);
+  assertEquals(points[1].distance, 8);
+  assertEquals(points[1].speed, 0.947);
+});
+
+Deno.test("Parser keeps segment boundaries of multiple trk and trkseg", () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx xmlns="http://www.topografix.com/GPX/1/1" version="1.1">
+  <metadata><time>2025-10-04T11:00:00Z</time></metadata>
+  <trk><name>Auto pause</name>
+    <trkseg>
+      <trkpt lat="47.7500" lon="10.0"><time>2025-10-04T11:00:00Z</time></trkpt>
+      <trkpt lat="47.7501" lon="10.0"><time>2025-10-04T11:00:01Z</time></trkpt>
+    </trkseg>
+    <trkseg>
+      <trkpt lat="47.7600" lon="10.0"><time>2025-10-04T11:10:00Z</time></trkpt>
+    </trkseg>
+  </trk>
+  <trk><trkseg>
+    <trkpt lat="47.7600" lon="10.0"><time>2025-10-04T11:20:00Z</time></trkpt>
+    <trkpt lat="47.7601" lon="10.0"><time>2025-10-04T11:20:02Z</time></trkpt>
+  </trkseg></trk>
+</gpx>`;
+
+  const points = Parser.getPointsFromRawJson(Parser.parseXMLtoJSON(xml));
+
+  assertEquals(points.map((p) => p.segment), [0, 0, 1, 2, 2]);
+  assertEquals(countSegments(points), 3);
+  // No speed is derived from the jump between segments
+  assertEquals(points[2].speed, 0);
+
+  const statistics = new KIAnalysis().getStatistics(points);
+  assertEquals(statistics.general.totalTime, 3);
+});
@@ -0,0 +1,120 @@
+import { assertEquals } from "@std/assert";
+import { PolarAnalysis } from "../logic/PolarAnalysis.ts";
+import { AnalysisBase } from "../logic/AnalysisBase.ts";
+import { Analyzers } from "../logic/Analyzers.ts";
+import { TrackPoint } from "../util/types.ts";
+import { jibingTrack } from "./tracks.ts";
+
+const METERS_PER_DEGREE = 111320;
+
+/** One point per second, each leg at a fixed heading (°) and speed (m/s) */
+const track = (legs: [number, number, number][]): TrackPoint[] => {
+  const points: TrackPoint[] = [];
+  let lat = 47.75;
+  let lon = 10;
+  for (const [heading, speed, seconds] of legs) {
+    for (let s = 0; s < seconds; s++) {
+      points.push({
+        lat,
+        lon,
+        speed,
+        course: heading,
+        time: new Date(
+          Date.parse("2025-10-04T11:00:00Z") + points.length * 1000,
+        )
+          .toISOString(),
+      });
+      const rad = (heading * Math.PI) / 180;
+      lat += (speed * Math.cos(rad)) / METERS_PER_DEGREE;
+      lon += (speed * Math.sin(rad)) /
+        (METERS_PER_DEGREE * Math.cos((lat * Math.PI) / 180));
+    }
+  }
+  return points;
+};
+
+// Wind from the north: 30 s close hauled on both tacks, 20 s dead downwind,
+// then 10 s too slow to count
+const points = track([
+  [45, 6, 20],
+  [315, 6, 10],
+  [180, 8, 20],
+  [90, 1, 10],
+]);
+
+Deno.test("PolarAnalysis bins speed by true wind angle", () => {
+  const polar = PolarAnalysis.compute(points, 0, 8);
+
+  assertEquals(polar.binSize, 10);
+  assertEquals(polar.bins.length, 18);
+  const used = polar.bins.filter((bin) => bin.time > 0);
+  assertEquals(used, [
+    {
+      fromAngle: 40,
+      toAngle: 50,
+      time: 30,
+      avgSpeed: 21.6,
+      p90Speed: 21.6,
+      maxSpeed: 21.6,
+    },
+    {
+      fromAngle: 170,
+      toAngle: 180,
+      time: 20,
+      avgSpeed: 28.8,
+      p90Speed: 28.8,
+      maxSpeed: 28.8,
+    },
+  ]);
+  assertEquals(polar.bestUpwindAngle, 45);
+  assertEquals(polar.bestDownwindAngle, 175);
+});
+
+Deno.test("PolarAnalysis uses the requested bin size", () => {
+  const polar = PolarAnalysis.compute(points, 0, 8, 25);
+
+  assertEquals(polar.bins.length, 8);
+  assertEquals(polar.bins[7].toAngle, 180);
+  assertEquals(
+    polar.bins.map((bin) => bin.time),
+    [0, 30, 0, 0, 0, 0, 0, 20],
+  );
+  // Turning the wind turns the angles
+  const east = PolarAnalysis.compute(points, 90, 8, 25);
+  assertEquals(east.bins.map((bin) => bin.time), [0, 20, 0, 20, 0, 10, 0, 0]);
+
+  const statistics = new AnalysisBase().getStatistics(points, {
+    windDirection: 0,
+    polarBinSize: 30,
+  });
+  assertEquals(statistics.polar?.binSize, 30);
+  assertEquals(statistics.polar?.bins.length, 6);
+});
+
+Deno.test("PolarAnalysis is left out without a wind direction", () => {
+  const straight = track([[0, 6, 60]]);
+  const analysis = new AnalysisBase();
+
+  assertEquals(analysis.getStatistics(straight).polar, undefined);
+  assertEquals(
+    analysis.getStatistics(straight, { windDirection: 0 }).polar?.bins[0]
+      .time,
+    59,
+  );
+});
+
+Deno.test("PolarAnalysis is left out when the wind estimate is unsure", () => {
+  // The wind estimated from this track has a confidence of 0.49
+  const points = jibingTrack(200);
+
+  for (const name of ["base", "KI"] as const) {
+    const unsure = Analyzers.run(points, name).statistics!;
+    assertEquals(unsure.wind?.confidence, 0.49);
+    assertEquals(unsure.polar, undefined);
+
+    const trusted = Analyzers.run(points, name, { minWindConfidence: 0.4 });
+    assertEquals(trusted.statistics!.polar?.windDirection, 43);
+    const given = Analyzers.run(points, name, {}, { windDirection: 0 });
+    assertEquals(given.statistics!.polar?.windDirection, 0);
+  }
+});
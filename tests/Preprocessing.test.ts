@@ -0,0 +1,168 @@
+import { assertAlmostEquals, assertEquals, assertThrows } from "@std/assert";
+import { Preprocessing } from "../logic/Preprocessing.ts";
+import { Parser } from "../logic/Parser.ts";
+import { ImporterRegistry } from "../logic/ImporterRegistry.ts";
+import { TrackPoint } from "../util/types.ts";
+import { calculateDistance } from "../util/utils.ts";
+import { ValidationError } from "../util/errors.ts";
+
+const METERS_PER_DEGREE = 111320;
+const START = Date.parse("2025-10-04T11:00:00Z");
+
+// North at 5 m/s, one point per second
+const track = (count: number, withSpeed = true): TrackPoint[] =>
+  Array.from({ length: count }, (_, s) => ({
+    lat: 47.75 + (s * 5) / METERS_PER_DEGREE,
+    lon: 10,
+    time: new Date(START + s * 1000).toISOString(),
+    ...(withSpeed && { speed: 5 }),
+  }));
+
+Deno.test("Preprocessing keeps clean tracks as they are", () => {
+  const points = track(20);
+  const { points: result, report } = Preprocessing.run(points);
+
+  assertEquals(result, points);
+  assertEquals(report.stages.map((s) => [s.stage, s.removed]), [
+    ["duplicates", 0],
+    ["spikes", 0],
+  ]);
+});
+
+Deno.test("Preprocessing drops duplicate timestamps and position spikes", () => {
+  const points = track(10, false);
+  points.splice(3, 0, { ...points[3] });
+  // 200 m east and right back within a second each
+  points[7] = { ...points[7], lon: 10 + 200 / 75000 };
+  const { points: result, report } = Preprocessing.run(
+    Parser.calculateMissingSpeed(points),
+  );
+
+  assertEquals(result.length, 9);
+  assertEquals(report.stages.map((s) => [s.stage, s.removed]), [
+    ["duplicates", 1],
+    ["spikes", 1],
+  ]);
+  // The speed after the gap comes from the points that are left
+  assertAlmostEquals(result[6].speed!, 5, 0.01);
+});
+
+Deno.test("Preprocessing drops a stale fix after a recording gap", () => {
+  // Six seconds missing after point 9, then a fix 25 m behind the track
+  const points = track(20, false).map((p, i) => {
+    if (i < 10) return p;
+    const s = i + 6;
+    return {
+      ...p,
+      lat: 47.75 + (i === 10 ? 55 : s * 5) / METERS_PER_DEGREE,
+      time: new Date(START + s * 1000).toISOString(),
+    };
+  });
+  const { points: result, report } = Preprocessing.run(
+    Parser.calculateMissingSpeed(points),
+    { maxSpeedKmh: 60 },
+  );
+
+  assertEquals(report.stages[1].removed, 1);
+  assertEquals(result.some((p) => p.time === points[10].time), false);
+  assertEquals(result.every((p) => p.speed! * 3.6 <= 60), true);
+});
+
+Deno.test("Preprocessing repairs a speed spike but not its neighbors", () => {
+  const points = track(10);
+  points[4] = { ...points[4], speed: 20 };
+  const { points: result, report } = Preprocessing.run(points);
+
+  assertEquals(result.map((p) => p.speed), Array(10).fill(5));
+  assertEquals(report.stages[1].speedsRepaired, 1);
+  assertEquals(points[4].speed, 20);
+});
+
+Deno.test("Preprocessing smooths GPS noise", () => {
+  const noisy = track(30).map((p, i) => ({
+    ...p,
+    lon: p.lon + ((i % 2 ? 3 : -3) / 75000),
+  }));
+
+  for (const smoothing of ["kalman", "savitzky-golay"] as const) {
+    const { points, report } = Preprocessing.run(noisy, { smoothing });
+    const middle = points[15];
+    assertEquals(middle.lon !== noisy[15].lon, true);
+    // Closer to the straight line than the 3 m of noise
+    assertEquals(
+      calculateDistance(middle, { ...middle, lon: 10 }) < 2,
+      true,
+      smoothing,
+    );
+    assertEquals(report.stages[2].stage, "smoothing");
+    assertEquals(report.stages[2].moved! > 0, true);
+  }
+});
+
+Deno.test("Preprocessing resamples to a fixed interval", () => {
+  const points = track(11).filter((_, i) => i % 2 === 0);
+  const { points: result, report } = Preprocessing.run(points, {
+    resampleSeconds: 1,
+  });
+
+  assertEquals(result.length, 11);
+  assertEquals(result[3].time, new Date(START + 3000).toISOString());
+  assertAlmostEquals(result[3].lat, track(11)[3].lat, 1e-9);
+  assertEquals(report.stages[2], {
+    stage: "resampling",
+    pointsBefore: 6,
+    pointsAfter: 11,
+  });
+});
+
+Deno.test("Preprocessing refuses to resample into too many points", () => {
+  // Five hours, one point per minute
+  const points = track(301).map((p, i) => ({
+    ...p,
+    time: new Date(START + i * 60_000).toISOString(),
+  }));
+
+  assertEquals(
+    Preprocessing.run(points, { resampleSeconds: 1 }).points.length,
+    18_001,
+  );
+  assertThrows(
+    () => Preprocessing.run(points, { resampleSeconds: 0.01 }),
+    ValidationError,
+    "makes 1800001 points, at most 200000 are supported",
+  );
+});
+
+Deno.test("Preprocessing smooths the longest recordings", () => {
+  const points = track(ImporterRegistry.maxPoints);
+  const { report } = Preprocessing.run(points, { smoothing: "kalman" });
+
+  assertEquals(report.stages[2].pointsAfter, ImporterRegistry.maxPoints);
+  assertEquals(report.stages[2].maxShift! < 1, true);
+});
+
+Deno.test("Preprocessing checks its options", () => {
+  assertEquals(
+    Preprocessing.parse({ smoothing: "kalman", removeSpikes: "false" }),
+    { removeSpikes: false, smoothing: "kalman" },
+  );
+  assertThrows(
+    () => Preprocessing.parse({ smoothing: "median" }),
+    ValidationError,
+  );
+  assertThrows(
+    () => Preprocessing.parse({ smoothingWindow: "4" }),
+    ValidationError,
+  );
+  assertThrows(
+    () => Preprocessing.parse({ resampleSeconds: "-1" }),
+    ValidationError,
+  );
+  assertThrows(
+    () => Preprocessing.parse({ resampleSeconds: "0.001" }),
+    ValidationError,
+  );
+  assertEquals(Preprocessing.parse({ resampleSeconds: "0" }), {
+    resampleSeconds: 0,
+  });
+});
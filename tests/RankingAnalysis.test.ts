@@ -0,0 +1,40 @@
+import { assertEquals } from "@std/assert";
+import { RankingAnalysis } from "../logic/RankingAnalysis.ts";
+import { TrackPoint } from "../util/types.ts";
+
+const METERS_PER_DEGREE = 111320;
+
+// 20 s east and 20 s back west 20 m further north, 10 m/s device speed
+const outAndBack = (): TrackPoint[] => {
+  const start = Date.parse("2025-10-04T11:00:00Z");
+  const points: TrackPoint[] = [];
+  for (let s = 0; s <= 40; s++) {
+    const east = s <= 20 ? s * 10 : (40 - s) * 10;
+    const north = s <= 20 ? 0 : 20;
+    points.push({
+      lat: 47.75 + north / METERS_PER_DEGREE,
+      lon: 10 + east / (METERS_PER_DEGREE * Math.cos((47.75 * Math.PI) / 180)),
+      speed: 10,
+      time: new Date(start + s * 1000).toISOString(),
+    });
+  }
+  return points;
+};
+
+Deno.test("RankingAnalysis uses Doppler speeds for time windows", () => {
+  const rankings = RankingAnalysis.compute(outAndBack());
+
+  assertEquals(rankings.method, "doppler");
+  assertEquals(rankings.twoSeconds?.speed, 36);
+  assertEquals(rankings.tenSeconds?.distance, 100);
+  // Only four 10 s windows fit into 40 s
+  assertEquals(rankings.fiveByTenSeconds, null);
+  assertEquals(rankings.oneHour, null);
+});
+
+Deno.test("RankingAnalysis finds an alpha 500 through the gate", () => {
+  const alpha = RankingAnalysis.compute(outAndBack()).alpha500;
+
+  assertEquals(alpha?.speed, 36);
+  assertEquals(alpha!.distance >= 250 && alpha!.distance <= 500, true);
+});
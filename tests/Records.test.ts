@@ -0,0 +1,59 @@
+import { assertEquals } from "@std/assert";
+import { Records } from "../logic/Records.ts";
+import { SessionHighlights, SessionSummary } from "../util/types.ts";
+
+const summary = (
+  id: string,
+  time: string,
+  highlights: Partial<SessionHighlights>,
+): SessionSummary => ({
+  id,
+  createdAt: time,
+  metadata: { name: id, type: "wingfoil", time },
+  highlights: { distance: 10, activityTime: 1800, maxSpeed: 30, ...highlights },
+});
+
+Deno.test("Records tracks when each record was set and what it broke", () => {
+  // Newest first, like the session list
+  const records = Records.compute([
+    summary("third", "2025-10-11T10:00:00Z", { maxSpeed: 29, twoSeconds: 31 }),
+    summary("second", "2025-10-04T10:00:00Z", {
+      maxSpeed: 34.5,
+      longestActivity: 240,
+    }),
+    summary("first", "2025-09-27T10:00:00Z", {
+      maxSpeed: 32,
+      longestActivity: 300,
+      twoSeconds: 30,
+    }),
+  ]);
+
+  assertEquals(records.maxSpeed, {
+    value: 34.5,
+    sessionId: "second",
+    setAt: "2025-10-04T10:00:00Z",
+    previous: { value: 32, sessionId: "first" },
+  });
+  assertEquals(records.longestActivity?.sessionId, "first");
+  assertEquals(records.longestActivity?.previous, null);
+  assertEquals(records.twoSeconds?.sessionId, "third");
+  assertEquals(records.oneHour, null);
+});
+
+Deno.test("Records needs enough jibes for the flying jibe percentage", () => {
+  const records = Records.compute([
+    summary("lucky", "2025-10-04T10:00:00Z", {
+      jibes: 1,
+      flyingJibes: 1,
+      flyingJibePercentage: 100,
+    }),
+    summary("solid", "2025-09-27T10:00:00Z", {
+      jibes: 20,
+      flyingJibes: 15,
+      flyingJibePercentage: 75,
+    }),
+  ]);
+
+  assertEquals(records.flyingJibePercentage?.sessionId, "solid");
+  assertEquals(records.flyingJibes?.value, 15);
+});
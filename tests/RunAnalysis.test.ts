@@ -0,0 +1,47 @@
+import { assertEquals } from "@std/assert";
+import { RunAnalysis } from "../logic/RunAnalysis.ts";
+import { Timeline } from "../logic/Timeline.ts";
+import { TrackPoint } from "../util/types.ts";
+
+const METERS_PER_DEGREE = 111320;
+
+// 30 s north at 5 m/s, a 5 s jibe, 20 s south at 4 m/s with a slow dip
+const track = (): TrackPoint[] => {
+  const points: TrackPoint[] = [];
+  let north = 0;
+  for (let s = 0; s <= 55; s++) {
+    const speed = s <= 30 ? 5 : s < 35 ? 3 : s === 45 ? 2 : 4;
+    points.push({
+      lat: 47.75 + north / METERS_PER_DEGREE,
+      lon: 10,
+      speed,
+      time: new Date(Date.parse("2025-10-04T11:00:00Z") + s * 1000)
+        .toISOString(),
+    });
+    north += s < 33 ? speed : -speed;
+  }
+  return points;
+};
+
+Deno.test("RunAnalysis lists the runs between maneuvers", () => {
+  const points = track();
+  const segments = Timeline.build(
+    points,
+    [{ type: "jibe", startIndex: 30, endIndex: 35 }],
+    10,
+  );
+
+  const { count, runs, top } = RunAnalysis.compute(points, segments, 10, 1, 0);
+
+  assertEquals(count, 2);
+  const bounds = runs.map((r) => [r.startIndex, r.endIndex]);
+  assertEquals(bounds, [[0, 30], [35, 55]]);
+  assertEquals(runs[0].heading, 0);
+  assertEquals(runs[0].windAngle, 0);
+  assertEquals(runs[0].onFoil, true);
+  assertEquals(runs[1].heading, 180);
+  assertEquals(runs[1].onFoil, false);
+  assertEquals(runs[1].foilTime, 19);
+  assertEquals(top.distance, [runs[0]]);
+  assertEquals(top.speed, [runs[0]]);
+});
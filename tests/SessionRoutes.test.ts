@@ -0,0 +1,250 @@
+import { assertEquals } from "@std/assert";
+import { KIAnalysis } from "../logic/KIAnalysis.ts";
+import { app, register, request, saveSession } from "./server.ts";
+
+Deno.test("Auth routes sign in with a Bearer token or the login cookie", async () => {
+  await register("dora");
+
+  const wrong = await request("POST", "/auth/login", undefined, {
+    email: "dora@club.ch",
+    password: "wrong-password",
+  });
+  assertEquals(wrong.status, 401);
+  assertEquals(wrong.body.code, "unauthorized");
+
+  const response = await app.request("/auth/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      email: "dora@club.ch",
+      password: "secret-password",
+    }),
+  });
+  assertEquals(response.status, 200);
+  const { token, user } = await response.json();
+  assertEquals(user.name, "dora");
+  const cookie = response.headers.get("Set-Cookie")!.split(";")[0];
+  assertEquals(cookie, `token=${token}`);
+
+  assertEquals((await request("GET", "/auth/me", token)).body.id, user.id);
+  const me = await app.request("/auth/me", { headers: { Cookie: cookie } });
+  assertEquals((await me.json()).id, user.id);
+  assertEquals((await request("GET", "/auth/me")).status, 401);
+
+  // A broken Bearer token is an error, a broken cookie signs out
+  assertEquals((await request("GET", "/", "broken")).status, 401);
+  const stale = await app.request("/", { headers: { Cookie: "token=broken" } });
+  assertEquals(stale.status, 200);
+  const logout = await app.request("/auth/logout", {
+    method: "POST",
+    headers: { Cookie: cookie },
+  });
+  assertEquals(logout.status, 204);
+  assertEquals(logout.headers.get("Set-Cookie")?.startsWith("token=;"), true);
+});
+
+Deno.test("Session routes hide private sessions and open share links", async () => {
+  const emil = await register("emil");
+  const fritz = await register("fritz");
+  await saveSession("emil-private", emil.id, "private");
+  const path = "/sessions/emil-private";
+
+  assertEquals((await request("GET", path)).status, 404);
+  assertEquals((await request("GET", path, fritz.token)).status, 404);
+  assertEquals((await request("GET", path, emil.token)).status, 200);
+  assertEquals(
+    (await request("POST", `${path}/share`, fritz.token)).status,
+    404,
+  );
+
+  const shared = await request("POST", `${path}/share`, emil.token);
+  const { shareToken, url } = shared.body;
+  assertEquals(url, `${path}?share=${shareToken}`);
+  // The link stays the same until it is revoked
+  assertEquals(
+    (await request("POST", `${path}/share`, emil.token)).body.shareToken,
+    shareToken,
+  );
+
+  // Only the owner sees the share token
+  const viewed = await request("GET", url);
+  assertEquals(viewed.status, 200);
+  assertEquals(viewed.body.shareToken, undefined);
+  assertEquals((await request("GET", url, fritz.token)).status, 200);
+  assertEquals(
+    (await request("GET", path, emil.token)).body.shareToken,
+    shareToken,
+  );
+  assertEquals((await request("GET", `${path}?share=guess`)).status, 404);
+
+  assertEquals(
+    (await request("DELETE", `${path}/share`, fritz.token)).status,
+    404,
+  );
+  assertEquals(
+    (await request("DELETE", `${path}/share`, emil.token)).status,
+    204,
+  );
+  assertEquals((await request("GET", url)).status, 404);
+  assertEquals(
+    (await request("GET", path, emil.token)).body.shareToken,
+    undefined,
+  );
+});
+
+Deno.test("Session routes let only the owner change and delete", async () => {
+  const gina = await register("gina");
+  const hans = await register("hans");
+  await saveSession("gina-public", gina.id, "public");
+  await saveSession("gina-private", gina.id, "private");
+  const path = "/sessions/gina-public";
+
+  // Public sessions are readable, but others may not change them
+  assertEquals((await request("GET", path)).status, 200);
+  assertEquals(
+    (await request("PATCH", path, undefined, { name: "Mine" })).status,
+    401,
+  );
+  const forbidden = await request("PATCH", path, hans.token, { name: "Mine" });
+  assertEquals(forbidden.status, 403);
+  assertEquals(forbidden.body.code, "forbidden");
+  assertEquals((await request("DELETE", path)).status, 401);
+  assertEquals((await request("DELETE", path, hans.token)).status, 403);
+  assertEquals(
+    (await request("PATCH", "/sessions/gina-private", hans.token, {
+      name: "Mine",
+    })).status,
+    404,
+  );
+  assertEquals(
+    (await request("DELETE", "/sessions/gina-private", hans.token)).status,
+    404,
+  );
+  assertEquals((await request("GET", path)).body.metadata.name, "gina-public");
+
+  const patched = await request("PATCH", path, gina.token, {
+    name: "Badsee",
+    visibility: "private",
+  });
+  assertEquals(patched.status, 200);
+  assertEquals(patched.body.metadata.name, "Badsee");
+  assertEquals(patched.body.visibility, "private");
+  assertEquals((await request("GET", path)).status, 404);
+  assertEquals(
+    (await request("PATCH", path, gina.token, { name: 42 })).status,
+    400,
+  );
+
+  assertEquals((await request("DELETE", path, gina.token)).status, 204);
+  assertEquals((await request("GET", path, gina.token)).status, 404);
+  assertEquals(
+    (await request("GET", "/sessions", gina.token)).body.map(
+      (s: { id: string }) => s.id,
+    ),
+    ["gina-private"],
+  );
+});
+
+Deno.test("Session routes analyze a stored session again", async () => {
+  const ida = await register("ida");
+  const jan = await register("jan");
+  await saveSession("ida-1", ida.id, "public");
+  const path = "/sessions/ida-1/reanalyze";
+
+  assertEquals((await request("POST", path, undefined, {})).status, 401);
+  assertEquals((await request("POST", path, jan.token, {})).status, 403);
+
+  const reanalyzed = await request("POST", path, ida.token, {
+    config: { flyingSpeedThresholdKmh: 12 },
+    options: { windDirection: 0 },
+  });
+  assertEquals(reanalyzed.status, 200);
+  const { config } = reanalyzed.body;
+  assertEquals(config.algorithm, "KI");
+  assertEquals(config.version, new KIAnalysis().getVersion());
+  assertEquals(config.settings.flyingSpeedThresholdKmh, 12);
+  assertEquals(config.options.windDirection, 0);
+  assertEquals(
+    (await request("GET", "/sessions/ida-1")).body.config.settings,
+    config.settings,
+  );
+
+  // The options of the last run are kept, the config starts from the defaults
+  const again = await request("POST", path, ida.token, {
+    config: { minMaxSpeedDurationSeconds: 5 },
+  });
+  assertEquals(again.body.config.settings.flyingSpeedThresholdKmh, 8);
+  assertEquals(again.body.config.settings.minMaxSpeedDurationSeconds, 5);
+  assertEquals(again.body.config.options.windDirection, 0);
+
+  // The config is checked against the analyzer that runs
+  const outOfRange = await request("POST", path, ida.token, {
+    config: { flyingSpeedThresholdKmh: 100 },
+  });
+  assertEquals(outOfRange.status, 400);
+  assertEquals(
+    outOfRange.body.detail,
+    "flyingSpeedThresholdKmh must be between 1 and 60",
+  );
+  const otherAnalyzer = await request("POST", path, ida.token, {
+    algorithm: "base",
+    config: { minMaxSpeedDurationSeconds: 5 },
+  });
+  assertEquals(otherAnalyzer.status, 400);
+  assertEquals(
+    otherAnalyzer.body.detail,
+    "Unknown config option minMaxSpeedDurationSeconds",
+  );
+  const base = await request("POST", path, ida.token, { algorithm: "base" });
+  assertEquals(base.body.config.algorithm, "base");
+  assertEquals(base.body.config.type, "AnalysisBase");
+});
+
+Deno.test("Session routes analyze all own sessions again", async () => {
+  const kai = await register("kai");
+  const lea = await register("lea");
+  await saveSession("kai-ki", kai.id, "private");
+  await saveSession("kai-base", kai.id, "private");
+  await saveSession("lea-1", lea.id, "private");
+  await request("POST", "/sessions/kai-base/reanalyze", kai.token, {
+    algorithm: "base",
+  });
+
+  assertEquals(
+    (await request("POST", "/sessions/reanalyze", undefined, {})).status,
+    401,
+  );
+  assertEquals(
+    (await request("POST", "/sessions/reanalyze", kai.token, {
+      algorithm: "base",
+      config: { minMaxSpeedDurationSeconds: 5 },
+    })).status,
+    400,
+  );
+
+  // Each session is checked against its own analyzer
+  const { status, body } = await request(
+    "POST",
+    "/sessions/reanalyze",
+    kai.token,
+    { config: { minMaxSpeedDurationSeconds: 5 } },
+  );
+  assertEquals(status, 200);
+  assertEquals(body.count, 2);
+  const results = Object.fromEntries(
+    body.sessions.map((result: { id: string }) => [result.id, result]),
+  );
+  assertEquals(results["kai-base"], {
+    id: "kai-base",
+    error: "Unknown config option minMaxSpeedDurationSeconds",
+  });
+  assertEquals(results["kai-ki"].config.settings.minMaxSpeedDurationSeconds, 5);
+  assertEquals(
+    (await request("GET", "/sessions/kai-ki", kai.token)).body.config.version,
+    new KIAnalysis().getVersion(),
+  );
+  assertEquals(
+    (await request("GET", "/sessions/lea-1", lea.token)).body.config,
+    { type: "KIAnalysis" },
+  );
+});
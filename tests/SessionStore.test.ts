@@ -0,0 +1,94 @@
+import { assertEquals } from "@std/assert";
+import SessionStore, { toSummary } from "../logic/SessionStore.ts";
+import SessionStoreKv from "../logic/SessionStoreKv.ts";
+import SessionStoreFile from "../logic/SessionStoreFile.ts";
+import { StoredSession } from "../util/types.ts";
+
+const session = (id: string, time: string, pointCount = 1): StoredSession => ({
+  id,
+  createdAt: "2025-10-05T08:00:00.000Z",
+  metadata: { name: id, type: "kitesurfing", time },
+  points: Array.from({ length: pointCount }, (_, i) => ({
+    lat: 47.75 + i * 1e-5,
+    lon: 10,
+    speed: 5,
+    time: new Date(Date.parse(time) + i * 1000).toISOString(),
+  })),
+  config: { type: "KIAnalysis" },
+});
+
+const testStore = async (store: SessionStore) => {
+  // Big enough to need several KV chunks
+  const big = session("big", "2025-10-04T11:00:00Z", 3000);
+  await store.save(big);
+  await store.save(session("small", "2025-10-06T11:00:00Z"));
+
+  assertEquals((await store.list()).map((s) => s.id), ["small", "big"]);
+  assertEquals(await store.get("big"), big);
+
+  big.metadata.notes = "gusty";
+  big.points = big.points.slice(0, 10);
+  await store.save(big);
+  assertEquals(await store.get("big"), big);
+
+  assertEquals(await store.delete("big"), true);
+  assertEquals(await store.delete("big"), false);
+  assertEquals(await store.get("big"), null);
+  assertEquals(await store.get("../big"), null);
+  assertEquals((await store.list()).map((s) => s.id), ["small"]);
+};
+
+Deno.test("SessionStoreKv stores sessions in chunks", async () => {
+  const store = await SessionStoreKv.open(":memory:");
+  try {
+    await testStore(store);
+  } finally {
+    store.close();
+  }
+});
+
+Deno.test("SessionStoreKv switches to a new version of the chunks", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const store = new SessionStoreKv(kv);
+  const countChunks = async () => {
+    let count = 0;
+    for await (const _ of kv.list({ prefix: ["session_chunks"] })) count++;
+    return count;
+  };
+  try {
+    // Stored before chunks had versions
+    const old = session("old", "2025-10-04T11:00:00Z");
+    await kv.set(
+      ["session_chunks", "old", 0],
+      new TextEncoder().encode(
+        JSON.stringify(old),
+      ),
+    );
+    await kv.set(["sessions", "old"], { ...toSummary(old), chunks: 1 });
+    assertEquals(await store.get("old"), old);
+
+    const big = session("old", "2025-10-04T11:00:00Z", 3000);
+    await store.save(big);
+    assertEquals(await store.get("old"), big);
+    const chunks = await countChunks();
+    assertEquals(chunks > 1, true);
+
+    await store.save(big);
+    assertEquals(await store.get("old"), big);
+    assertEquals(await countChunks(), chunks);
+
+    await store.delete("old");
+    assertEquals(await countChunks(), 0);
+  } finally {
+    store.close();
+  }
+});
+
+Deno.test("SessionStoreFile stores sessions as JSON files", async () => {
+  const directory = await Deno.makeTempDir();
+  try {
+    await testStore(new SessionStoreFile(`${directory}/sessions`));
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
@@ -0,0 +1,131 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { Simplification } from "../logic/Simplification.ts";
+import {
+  JibeInfo,
+  Session,
+  TrackPoint,
+  TrackStatistics,
+} from "../util/types.ts";
+import { ValidationError } from "../util/errors.ts";
+
+const METERS_PER_DEGREE = 111320;
+const START = Date.parse("2025-10-04T11:00:00Z");
+
+// North in 5 m steps, with an optional offset to the east per point
+const track = (count: number, east = (_: number) => 0): TrackPoint[] =>
+  Array.from({ length: count }, (_, s) => ({
+    lat: 47.75 + (s * 5) / METERS_PER_DEGREE,
+    lon: 10 + east(s) / (METERS_PER_DEGREE * Math.cos((47.75 * Math.PI) / 180)),
+    time: new Date(START + s * 1000).toISOString(),
+  }));
+
+const jibe = (startIndex: number, endIndex: number): JibeInfo => ({
+  type: "flying",
+  startIndex,
+  endIndex,
+  startTime: "",
+  endTime: "",
+  durationSeconds: endIndex - startIndex,
+  angleChange: 150,
+  minSpeed: 12,
+  maxSpeed: 20,
+  avgSpeed: 16,
+});
+
+Deno.test("Simplification keeps the ends of a straight line", () => {
+  const points = track(50);
+
+  assertEquals(
+    Simplification.simplify(points, { method: "rdp", tolerance: 1 }),
+    [0, 49],
+  );
+  assertEquals(
+    Simplification.simplify(points, { method: "visvalingam", tolerance: 1 }),
+    [0, 49],
+  );
+});
+
+Deno.test("Simplification keeps corners, track segments and required points", () => {
+  // A 20 m detour to the east at point 20
+  const points = track(40, (s) => (s === 20 ? 20 : 0))
+    .map((p, i) => ({ ...p, segment: i < 30 ? 0 : 1 }));
+
+  assertEquals(
+    Simplification.simplify(points, { method: "rdp", tolerance: 2 }, [10]),
+    [0, 10, 19, 20, 21, 29, 30, 39],
+  );
+});
+
+Deno.test("Simplification meets maxPoints with both methods", () => {
+  const points = track(200, (s) => 10 * Math.sin(s / 5));
+
+  for (const method of ["rdp", "visvalingam"] as const) {
+    const kept = Simplification.simplify(points, { method, maxPoints: 30 });
+    assertEquals(kept.length <= 30, true, method);
+    assertEquals(kept.length >= 20, true, method);
+    assertEquals([kept[0], kept[kept.length - 1]], [0, 199], method);
+  }
+});
+
+Deno.test("Simplification remaps the indices of a session", () => {
+  const points = track(100);
+  const run = { startIndex: 3, endIndex: 99 };
+  const session = {
+    metadata: {},
+    points,
+    statistics: {
+      maneuvers: { jibesList: [jibe(2, 3)] },
+      runs: { runs: [run], top: { distance: [run] } },
+    } as unknown as TrackStatistics,
+    config: {},
+  } as Session;
+
+  const result = Simplification.apply(session, {
+    method: "rdp",
+    tolerance: 2,
+  });
+  const [remapped] = result.statistics!.maneuvers.jibesList;
+
+  assertEquals(result.points.length, 4);
+  assertEquals([remapped.startIndex, remapped.endIndex], [1, 2]);
+  assertEquals(result.points[remapped.endIndex], points[3]);
+  assertEquals(result.statistics!.runs!.top.distance[0].startIndex, 2);
+  assertEquals(result.simplification, {
+    method: "rdp",
+    tolerance: 2,
+    pointsBefore: 100,
+    pointsAfter: 4,
+  });
+  // The stored session is left as it is
+  assertEquals(session.statistics!.maneuvers.jibesList[0].startIndex, 2);
+});
+
+Deno.test("Simplification reads and checks the query", () => {
+  assertEquals(Simplification.parse({}), undefined);
+  assertEquals(Simplification.parse({ maxPoints: "500" }), {
+    method: "rdp",
+    maxPoints: 500,
+  });
+  assertEquals(
+    Simplification.parse({ simplify: "visvalingam", tolerance: "3" }),
+    { method: "visvalingam", tolerance: 3 },
+  );
+
+  assertThrows(
+    () => Simplification.parse({ simplify: "rdp" }),
+    ValidationError,
+    "tolerance or maxPoints",
+  );
+  assertThrows(
+    () => Simplification.parse({ simplify: "spline", tolerance: "3" }),
+    ValidationError,
+  );
+  assertThrows(
+    () => Simplification.parse({ tolerance: "-1" }),
+    ValidationError,
+  );
+  assertThrows(
+    () => Simplification.parse({ maxPoints: "1" }),
+    ValidationError,
+  );
+});
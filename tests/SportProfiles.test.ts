@@ -0,0 +1,77 @@
+import { assertEquals } from "@std/assert";
+import { SportProfiles } from "../logic/SportProfiles.ts";
+import { Analyzers } from "../logic/Analyzers.ts";
+import { TrackPoint } from "../util/types.ts";
+
+const metadata = (name: string, type = "") => ({ name, type, time: "" });
+
+Deno.test("SportProfiles detects the sport from track type or name", () => {
+  const detect = (name: string, type?: string) =>
+    SportProfiles.detect(metadata(name, type)).profile.name;
+
+  assertEquals(
+    detect("suuntoapp-Windsurfing-2025-07-22T14-32-26Z"),
+    "windsurf",
+  );
+  assertEquals(detect("suuntoapp-KitesurfingKiting-2025-09-06"), "kitesurf");
+  assertEquals(detect("Morning session", "wing foil"), "wingfoil");
+  assertEquals(detect("Pumpfoil Dockstart"), "pumpfoil");
+  assertEquals(detect("Lake SUP tour"), "sup");
+  assertEquals(SportProfiles.detect(metadata("Badsee")).source, "default");
+});
+
+Deno.test("SportProfiles names the activity section after the sport", () => {
+  const points: TrackPoint[] = Array.from({ length: 30 }, (_, i) => ({
+    lat: 47.75 + i * 0.00005,
+    lon: 10,
+    speed: 5.5,
+    time: new Date(Date.parse("2025-10-04T11:00:00Z") + i * 1000)
+      .toISOString(),
+  }));
+
+  const { statistics, config } = Analyzers.run(points, "KI", {}, {}, {
+    profile: SportProfiles.get("windsurf")!,
+    source: "request",
+  });
+
+  assertEquals(statistics?.flying, undefined);
+  assertEquals(statistics?.planing?.percentage, 100);
+  assertEquals(statistics?.sport?.profile, "windsurf");
+  assertEquals(config.sport, "windsurf");
+  assertEquals(
+    (config.settings as Record<string, number>).flyingSpeedThresholdKmh,
+    15,
+  );
+
+  const sup = Analyzers.run(points, "KI", {}, {}, {
+    profile: SportProfiles.get("sup")!,
+    source: "request",
+  });
+  assertEquals(sup.statistics?.paddling?.percentage, 100);
+  assertEquals(sup.statistics?.polar, undefined);
+});
+
+Deno.test("SportProfiles set the speed limit of the spike removal", () => {
+  // 108 km/h, fast but possible on a windsurf board
+  const points: TrackPoint[] = Array.from({ length: 30 }, (_, i) => ({
+    lat: 47.75 + (i * 30) / 111320,
+    lon: 10,
+    speed: 30,
+    time: new Date(Date.parse("2025-10-04T11:00:00Z") + i * 1000)
+      .toISOString(),
+  }));
+  const run = (sport: "windsurf" | "kitesurf", maxSpeedKmh?: number) =>
+    Analyzers.run(
+      points,
+      "KI",
+      {},
+      { preprocessing: maxSpeedKmh ? { maxSpeedKmh } : undefined },
+      { profile: SportProfiles.get(sport)!, source: "request" },
+    ).preprocessing!;
+
+  const windsurf = run("windsurf");
+  assertEquals(windsurf.config.maxSpeedKmh, 110);
+  assertEquals(windsurf.stages[1].removed, 0);
+  assertEquals(run("kitesurf").config.maxSpeedKmh, 120);
+  assertEquals(run("kitesurf", 80).config.maxSpeedKmh, 80);
+});
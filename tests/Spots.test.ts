@@ -0,0 +1,107 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { Spots } from "../logic/Spots.ts";
+import { SessionHighlights, SessionSummary } from "../util/types.ts";
+import { ValidationError } from "../util/errors.ts";
+
+const summary = (
+  id: string,
+  time: string,
+  lat: number,
+  lon: number,
+  highlights?: Partial<SessionHighlights>,
+): SessionSummary => ({
+  id,
+  createdAt: time,
+  metadata: { name: id, type: "", time, village: "Somewhere" },
+  start: { lat, lon },
+  highlights: highlights && {
+    distance: 10,
+    activityTime: 3600,
+    maxSpeed: 30,
+    ...highlights,
+  },
+});
+
+// Newest first, like SessionStore.list()
+const summaries = [
+  summary("far", "2025-09-04T10:00:00Z", 50.0, 8.0),
+  summary("near", "2025-09-03T10:00:00Z", 50.005, 8.0),
+  summary("badsee2", "2025-09-02T10:00:00Z", 47.7519, 10.0),
+  summary("badsee1", "2025-09-01T10:00:00Z", 47.7500, 9.999),
+];
+
+Deno.test("Spots groups sessions by geofence and start clusters", () => {
+  const groups = Spots.group(summaries);
+
+  assertEquals(
+    groups.map(({ spot, sessions }) => [
+      spot.id,
+      spot.source,
+      sessions.map((s) => s.id),
+    ]),
+    [
+      ["badsee-isny", "curated", ["badsee2", "badsee1"]],
+      ["cluster-50.005_8.000", "cluster", ["far", "near"]],
+    ],
+  );
+  assertEquals(groups[1].spot.name, "Somewhere");
+});
+
+Deno.test("Spots checks user geofences before curated ones", () => {
+  const groups = Spots.group(summaries, [
+    {
+      id: "north-shore",
+      name: "North shore",
+      polygon: [[9.99, 47.751], [10.01, 47.751], [10.01, 47.76], [9.99, 47.76]],
+    },
+    {
+      id: "empty",
+      name: "Nobody rides here",
+      polygon: [[0, 0], [0.1, 0], [0.1, 0.1]],
+    },
+  ]);
+
+  const byId = Object.fromEntries(
+    groups.map(({ spot, sessions }) => [spot.id, sessions.map((s) => s.id)]),
+  );
+  assertEquals(byId["north-shore"], ["badsee2"]);
+  assertEquals(byId["badsee-isny"], ["badsee1"]);
+  assertEquals(byId["empty"], []);
+});
+
+Deno.test("Spots aggregates bests, time and the typical wind", () => {
+  const statistics = Spots.aggregate([
+    summary("a", "2025-09-02T10:00:00Z", 47.75, 10, {
+      maxSpeed: 32,
+      twoSeconds: 30.5,
+      windDirection: 350,
+    }),
+    summary("b", "2025-09-01T10:00:00Z", 47.75, 10, {
+      maxSpeed: 35,
+      windDirection: 20,
+    }),
+    summary("c", "2025-09-03T10:00:00Z", 47.75, 10),
+  ]);
+
+  assertEquals(statistics.sessionCount, 3);
+  assertEquals(statistics.activityTime, 7200);
+  assertEquals(statistics.best.maxSpeed, { value: 35, sessionId: "b" });
+  assertEquals(statistics.best.twoSeconds, { value: 30.5, sessionId: "a" });
+  assertEquals(statistics.best.tenSeconds, null);
+  assertEquals(statistics.windDirection, 5);
+  assertEquals(statistics.firstSession, "2025-09-01T10:00:00Z");
+  assertEquals(statistics.lastSession, "2025-09-03T10:00:00Z");
+});
+
+Deno.test("Spots validates user defined geofences", () => {
+  assertEquals(
+    Spots.parse({ name: " Lac ", polygon: [[6, 46], [6.1, 46], [6, 46.1]] }),
+    { name: "Lac", kind: undefined, polygon: [[6, 46], [6.1, 46], [6, 46.1]] },
+  );
+  assertThrows(
+    () => Spots.parse({ name: "Lac", polygon: [[6, 46], [6.1, 46]] }),
+    ValidationError,
+  );
+  assertEquals(Spots.toId("Lago di Garda – Nord"), "lago-di-garda-nord");
+  assertEquals(Spots.toId("Überlinger See"), "uberlinger-see");
+});
@@ -0,0 +1,51 @@
+import { assertEquals } from "@std/assert";
+import { Timeline } from "../logic/Timeline.ts";
+import { TrackPoint } from "../util/types.ts";
+
+// One point per second heading north with the given speeds (m/s)
+const track = (speeds: number[], segmentFrom = Infinity): TrackPoint[] =>
+  speeds.map((speed, i) => ({
+    lat: 47.75 + i * 0.0001,
+    lon: 10,
+    speed,
+    time: new Date(Date.parse("2025-10-04T11:00:00Z") + i * 1000)
+      .toISOString(),
+    segment: i >= segmentFrom ? 1 : 0,
+  }));
+
+Deno.test("Timeline splits runs at maneuvers and slow phases", () => {
+  const speeds = [
+    ...new Array(10).fill(1),
+    ...new Array(20).fill(5),
+    ...new Array(10).fill(5),
+  ];
+  const segments = Timeline.build(
+    track(speeds),
+    [{ type: "flightjibe", startIndex: 20, endIndex: 25 }],
+    10,
+  );
+
+  assertEquals(
+    segments.map((s) => [s.type, s.startIndex, s.endIndex]),
+    [
+      ["slow", 0, 9],
+      ["straight", 9, 20],
+      ["flightjibe", 20, 25],
+      ["straight", 25, 39],
+    ],
+  );
+  assertEquals(segments[2].isFlyJybe, true);
+  assertEquals(segments[3].avgSpeed, 18);
+});
+
+Deno.test("Timeline ignores short dips and splits at track gaps", () => {
+  const speeds = new Array(30).fill(5);
+  speeds[5] = speeds[6] = 1;
+
+  const segments = Timeline.build(track(speeds, 20), [], 10);
+
+  assertEquals(
+    segments.map((s) => [s.type, s.startIndex, s.endIndex]),
+    [["straight", 0, 19], ["straight", 20, 29]],
+  );
+});
@@ -0,0 +1,63 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { Trends } from "../logic/Trends.ts";
+import { SessionSummary } from "../util/types.ts";
+import { ValidationError } from "../util/errors.ts";
+
+const summary = (time: string, totalTime: number): SessionSummary => ({
+  id: time,
+  createdAt: time,
+  metadata: { name: "Session", type: "wingfoil", time },
+  highlights: {
+    distance: 10.25,
+    totalTime,
+    activityTime: totalTime / 2,
+    maxSpeed: totalTime / 100,
+  },
+});
+
+const summaries = [
+  summary("2025-01-02T10:00:00Z", 3600),
+  summary("2024-12-30T10:00:00Z", 1800),
+  summary("2024-12-28T10:00:00Z", 2400),
+];
+
+Deno.test("Trends adds up ISO weeks across the turn of the year", () => {
+  assertEquals(Trends.aggregate(summaries, "week"), [
+    {
+      period: "2024-W52",
+      start: "2024-12-23",
+      sessionCount: 1,
+      totalTime: 2400,
+      activityTime: 1200,
+      distance: 10.25,
+      maxSpeed: 24,
+    },
+    {
+      period: "2025-W01",
+      start: "2024-12-30",
+      sessionCount: 2,
+      totalTime: 5400,
+      activityTime: 2700,
+      distance: 20.5,
+      maxSpeed: 36,
+    },
+  ]);
+});
+
+Deno.test("Trends adds up months", () => {
+  assertEquals(
+    Trends.aggregate(summaries, "month").map((e) => [
+      e.period,
+      e.start,
+      e.sessionCount,
+      e.totalTime,
+    ]),
+    [["2024-12", "2024-12-01", 2, 4200], ["2025-01", "2025-01-01", 1, 3600]],
+  );
+});
+
+Deno.test("Trends checks the period", () => {
+  assertEquals(Trends.parsePeriod(undefined), "week");
+  assertEquals(Trends.parsePeriod("month"), "month");
+  assertThrows(() => Trends.parsePeriod("year"), ValidationError);
+});
@@ -0,0 +1,44 @@
+import { assertEquals } from "@std/assert";
+import UserStore from "../logic/UserStore.ts";
+import UserStoreKv from "../logic/UserStoreKv.ts";
+import UserStoreFile from "../logic/UserStoreFile.ts";
+import { User } from "../util/types.ts";
+
+const user = (id: string, email: string): User => ({
+  id,
+  email,
+  name: id,
+  passwordHash: "pbkdf2$1$salt$hash",
+  createdAt: "2025-10-05T08:00:00.000Z",
+});
+
+const testStore = async (store: UserStore) => {
+  const anna = user("anna", "anna@club.ch");
+  assertEquals(await store.create(anna), true);
+  assertEquals(await store.create(user("ben", "ben@club.ch")), true);
+  assertEquals(await store.create(user("other", "anna@club.ch")), false);
+
+  assertEquals(await store.get("anna"), anna);
+  assertEquals(await store.getByEmail("anna@club.ch"), anna);
+  assertEquals((await store.getByEmail("ben@club.ch"))?.id, "ben");
+  assertEquals(await store.get("other"), null);
+  assertEquals(await store.getByEmail("carla@club.ch"), null);
+};
+
+Deno.test("UserStoreKv keeps emails unique", async () => {
+  const store = await UserStoreKv.open(":memory:");
+  try {
+    await testStore(store);
+  } finally {
+    store.close();
+  }
+});
+
+Deno.test("UserStoreFile keeps users in one JSON file", async () => {
+  const directory = await Deno.makeTempDir();
+  try {
+    await testStore(new UserStoreFile(`${directory}/data/users.json`));
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
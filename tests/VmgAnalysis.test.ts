@@ -0,0 +1,94 @@
+import { assertEquals } from "@std/assert";
+import { VmgAnalysis } from "../logic/VmgAnalysis.ts";
+import { Analyzers } from "../logic/Analyzers.ts";
+import { TrackPoint } from "../util/types.ts";
+import { jibingTrack } from "./tracks.ts";
+
+const METERS_PER_DEGREE = 111320;
+
+/** One point per second, each leg at a fixed heading (°) and speed (m/s) */
+const track = (legs: [number, number, number][]): TrackPoint[] => {
+  const points: TrackPoint[] = [];
+  let lat = 47.75;
+  let lon = 10;
+  for (const [heading, speed, seconds] of legs) {
+    for (let s = 0; s < seconds; s++) {
+      points.push({
+        lat,
+        lon,
+        speed,
+        course: heading,
+        time: new Date(
+          Date.parse("2025-10-04T11:00:00Z") + points.length * 1000,
+        )
+          .toISOString(),
+      });
+      const rad = (heading * Math.PI) / 180;
+      lat += (speed * Math.cos(rad)) / METERS_PER_DEGREE;
+      lon += (speed * Math.sin(rad)) /
+        (METERS_PER_DEGREE * Math.cos((lat * Math.PI) / 180));
+    }
+  }
+  return points;
+};
+
+// Wind from the north: 30 s upwind at 45° on port, then 70 s downwind at
+// 150° off the wind on starboard
+const points = track([[45, 6, 30], [210, 8, 71]]);
+
+Deno.test("VmgAnalysis splits the track into upwind and downwind reaches", () => {
+  const vmg = VmgAnalysis.compute(points, 0, 8);
+
+  assertEquals(
+    vmg.reaches.map((reach) => [
+      reach.direction,
+      reach.tack,
+      reach.startIndex,
+      reach.endIndex,
+      reach.durationSeconds,
+      reach.avgVmg,
+      reach.avgSpeed,
+    ]),
+    [
+      ["upwind", "port", 0, 30, 30, 15.3, 21.6],
+      ["downwind", "starboard", 30, 100, 70, 24.9, 28.8],
+    ],
+  );
+});
+
+Deno.test("VmgAnalysis finds the best sustained VMG in each direction", () => {
+  const vmg = VmgAnalysis.compute(points, 0, 8);
+
+  // 6 m/s at 45° and 8 m/s at 150° off the wind
+  assertEquals(vmg.upwind, { best10s: 15.3, best1min: 0, avg: 15.3, time: 30 });
+  assertEquals(vmg.downwind, {
+    best10s: 24.9,
+    best1min: 24.9,
+    avg: 24.9,
+    time: 70,
+  });
+});
+
+Deno.test("VmgAnalysis turns with the wind", () => {
+  // From the east the first leg is still upwind, now on starboard, and the
+  // second one a reach just downwind
+  const vmg = VmgAnalysis.compute(points, 90, 8);
+
+  assertEquals(
+    vmg.reaches.map((reach) => [reach.direction, reach.tack, reach.avgVmg]),
+    [["upwind", "starboard", 15.3], ["downwind", "port", 14.4]],
+  );
+});
+
+Deno.test("VmgAnalysis is left out when the wind estimate is unsure", () => {
+  // The wind estimated from this track has a confidence of 0.49
+  const jibing = jibingTrack(200);
+
+  for (const name of ["base", "KI"] as const) {
+    assertEquals(Analyzers.run(jibing, name).statistics!.vmg, undefined);
+    const trusted = Analyzers.run(jibing, name, { minWindConfidence: 0.4 });
+    assertEquals(trusted.statistics!.vmg?.windDirection, 43);
+    const given = Analyzers.run(jibing, name, {}, { windDirection: 0 });
+    assertEquals(given.statistics!.vmg?.windDirection, 0);
+  }
+});
@@ -0,0 +1,67 @@
+import { assert, assertEquals } from "@std/assert";
+import { WindEstimator } from "../logic/WindEstimator.ts";
+import { TrackPoint } from "../util/types.ts";
+import { signedAngleDifference } from "../util/utils.ts";
+
+/**
+ * Legs of a session with the wind from `wind`: close hauled upwind on both
+ * tacks (slow) and broad reaches back downwind (fast).
+ */
+function buildSession(wind: number): TrackPoint[] {
+  const legs = [
+    { course: wind + 50, speed: 6 },
+    { course: wind - 50, speed: 6 },
+    { course: wind + 150, speed: 9 },
+    { course: wind - 150, speed: 9 },
+  ];
+  const points: TrackPoint[] = [];
+  let lat = 47.75;
+  let lon = 10.0;
+  let time = Date.UTC(2025, 9, 4, 11, 0, 0);
+
+  // Deterministic wobble of ±10° around the leg course
+  let seed = 42;
+  const wobble = () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return (seed / 2 ** 31) * 20 - 10;
+  };
+
+  for (let repeat = 0; repeat < 3; repeat++) {
+    for (const leg of legs) {
+      for (let i = 0; i < 30; i++) {
+        const rad = ((leg.course + wobble()) * Math.PI) / 180;
+        points.push({
+          lat,
+          lon,
+          time: new Date(time).toISOString(),
+          speed: leg.speed,
+        });
+        lat += (leg.speed * Math.cos(rad)) / 111320;
+        lon += (leg.speed * Math.sin(rad)) /
+          (111320 * Math.cos((lat * Math.PI) / 180));
+        time += 1000;
+      }
+    }
+  }
+  return points;
+}
+
+Deno.test("WindEstimator finds the upwind direction", () => {
+  for (const wind of [0, 120, 250]) {
+    const estimate = WindEstimator.estimate(buildSession(wind));
+    assert(estimate);
+    assert(
+      Math.abs(signedAngleDifference(estimate.direction, wind)) <= 5,
+      `expected ${wind}, got ${estimate.direction}`,
+    );
+  }
+});
+
+Deno.test("WindEstimator tells tacks from jibes by the wind", () => {
+  // Wind from north: 45° → 315° turning left goes through the wind
+  assertEquals(WindEstimator.classifyTurn([45, 0, 315], 0, 2, 0), "tack");
+  // 135° → 225° turning right goes through dead downwind
+  assertEquals(WindEstimator.classifyTurn([135, 180, 225], 0, 2, 0), "jibe");
+  // Heading up from a reach without crossing the wind
+  assertEquals(WindEstimator.classifyTurn([135, 90, 45], 0, 2, 0), null);
+});
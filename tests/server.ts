@@ -0,0 +1,81 @@
+import { Analyzers } from "../logic/Analyzers.ts";
+import SessionStoreFile from "../logic/SessionStoreFile.ts";
+import { SessionVisibility, TrackPoint } from "../util/types.ts";
+
+// The app under test for the route tests, on file stores in a temp directory
+
+// The app reads its stores from the environment when it is imported, once
+// for all test files
+const directory = await Deno.makeTempDir();
+Deno.env.set("SESSION_STORE", "file");
+Deno.env.set("SESSION_STORE_PATH", `${directory}/sessions`);
+Deno.env.set("SPOT_STORE_PATH", `${directory}/spots.json`);
+Deno.env.set("USER_STORE_PATH", `${directory}/users.json`);
+Deno.env.set("GROUP_STORE_PATH", `${directory}/groups.json`);
+Deno.env.set("LOCATION_PROVIDER", "none");
+Deno.env.set("LOCATION_CACHE", "none");
+Deno.env.set("JWT_SECRET", "test");
+const { default: app } = await import("../main.ts");
+globalThis.addEventListener(
+  "unload",
+  () => Deno.removeSync(directory, { recursive: true }),
+);
+
+export { app };
+
+export const sessions = new SessionStoreFile(`${directory}/sessions`);
+
+// Ten minutes at 6 m/s
+export const points: TrackPoint[] = Array.from({ length: 601 }, (_, s) => ({
+  lat: 47.75 + s * 0.000054,
+  lon: 10,
+  time: new Date(Date.parse("2025-10-04T11:00:00Z") + s * 1000).toISOString(),
+  speed: 6,
+}));
+const { statistics } = Analyzers.run(points, "KI");
+
+/** Answer of a JSON request, problem documents included */
+export const request = async (
+  method: string,
+  path: string,
+  token?: string,
+  body?: unknown,
+) => {
+  const response = await app.request(path, {
+    method,
+    headers: {
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...(body !== undefined && { "Content-Type": "application/json" }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+};
+
+/** Registers a user named after the email address */
+export const register = async (name: string) => {
+  const { body } = await request("POST", "/auth/register", undefined, {
+    email: `${name}@club.ch`,
+    name,
+    password: "secret-password",
+  });
+  return { id: body.user.id as string, token: body.token as string };
+};
+
+/** Stores a session analyzed with the KI analyzer */
+export const saveSession = (
+  id: string,
+  ownerId: string,
+  visibility: SessionVisibility,
+) =>
+  sessions.save({
+    id,
+    createdAt: "2025-10-04T12:00:00.000Z",
+    ownerId,
+    visibility,
+    metadata: { name: id, type: "wingfoil", time: points[0].time },
+    points,
+    statistics,
+    config: { type: "KIAnalysis" },
+  });
@@ -0,0 +1,45 @@
+import { TrackPoint } from "../util/types.ts";
+
+// Synthetic tracks for the tests of several modules
+
+/**
+ * Reaches at 45° and 225°, joined by turns through south: a flying jibe, one
+ * slowing down to 2 m/s and one coming (almost) to a stop. With the wind
+ * from the north all three are jibes, at one point per second, the crash
+ * from 61 s to 71 s with the default analyzer.
+ */
+export const jibingTrack = (lastReachSeconds = 20): TrackPoint[] => {
+  const headings: number[] = [];
+  const speeds: number[] = [];
+  const reach = (heading: number, seconds = 20) => {
+    headings.push(...Array(seconds).fill(heading));
+    speeds.push(...Array(seconds).fill(6));
+  };
+  const turn = (from: number, step: number, slowest: number) => {
+    for (let k = 1; k <= 4; k++) headings.push(from + k * step);
+    speeds.push(6, slowest, slowest, 6);
+  };
+  reach(45);
+  turn(45, 45, 6);
+  reach(225);
+  turn(225, -45, 2);
+  reach(45);
+  turn(45, 45, 0.05);
+  reach(225, lastReachSeconds);
+
+  let lat = 47.75;
+  let lon = 10;
+  return headings.map((heading, s) => {
+    const point = {
+      lat,
+      lon,
+      speed: speeds[s],
+      time: new Date(Date.parse("2025-10-04T11:00:00Z") + s * 1000)
+        .toISOString(),
+    };
+    const rad = (heading * Math.PI) / 180;
+    lat += (speeds[s] * Math.cos(rad)) / 111320;
+    lon += (speeds[s] * Math.sin(rad)) / 75000;
+    return point;
+  });
+};
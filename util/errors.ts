@@ -0,0 +1,63 @@
+/**
+ * Errors the API answers with a problem response (RFC 9457): the HTTP
+ * status, a stable machine readable code and a human readable title.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: string,
+    readonly title: string,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The upload is not a readable track file of the detected format */
+export class ParseError extends ApiError {
+  constructor(message: string) {
+    super(message, 400, "parse_error", "Unreadable track file");
+  }
+}
+
+/** Request parameters, config or upload limits are not acceptable */
+export class ValidationError extends ApiError {
+  constructor(message: string, status = 400) {
+    super(message, status, "validation_error", "Invalid request");
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(message, 404, "not_found", "Not found");
+  }
+}
+
+/** The track is readable, but has too little data to analyze */
+export class InsufficientDataError extends ApiError {
+  constructor(message: string) {
+    super(message, 422, "insufficient_data", "Not enough track data");
+  }
+}
+
+/** A service the API depends on (e.g. geocoding) failed */
+export class UpstreamError extends ApiError {
+  constructor(message: string) {
+    super(message, 502, "upstream_error", "Upstream service failed");
+  }
+}
+
+/** No or no valid credentials */
+export class UnauthorizedError extends ApiError {
+  constructor(message: string) {
+    super(message, 401, "unauthorized", "Unauthorized");
+  }
+}
+
+/** Signed in, but not allowed to do this */
+export class ForbiddenError extends ApiError {
+  constructor(message: string) {
+    super(message, 403, "forbidden", "Forbidden");
+  }
+}
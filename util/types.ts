@@ -13,37 +13,256 @@ export type JibeInfo = {
   minSpeed: number; // in km/h
   maxSpeed: number; // in km/h
   avgSpeed: number; // in km/h
+  avgHeartRate?: number; // bpm, only with heart rate data
+  heartRateRecovery?: number; // crash jibes: bpm drop in the minute after the peak
+};
+
+export type WindInfo = {
+  direction: number; // degrees the wind comes from (0 = north)
+  source: "estimated" | "request";
+  confidence?: number; // 0-1, only for estimated directions
+};
+
+export type PolarBin = {
+  fromAngle: number; // true wind angle, degrees
+  toAngle: number;
+  time: number; // seconds
+  avgSpeed: number; // km/h
+  p90Speed: number; // km/h
+  maxSpeed: number; // km/h
+};
+
+export type PolarDiagram = {
+  windDirection: number;
+  binSize: number; // degrees
+  bins: PolarBin[];
+  bestUpwindAngle?: number; // bin center with the best VMG upwind
+  bestDownwindAngle?: number; // bin center with the best VMG downwind
+};
+
+export type VmgDirectionStats = {
+  best10s: number; // km/h
+  best1min: number; // km/h
+  avg: number; // km/h, time weighted over all reaches in this direction
+  time: number; // seconds spent on reaches in this direction
+};
+
+export type VmgReach = {
+  direction: "upwind" | "downwind";
+  tack: "port" | "starboard";
+  startIndex: number;
+  endIndex: number;
+  startTime: string;
+  endTime: string;
+  durationSeconds: number;
+  avgVmg: number; // km/h
+  avgSpeed: number; // km/h
+};
+
+export type VmgStatistics = {
+  windDirection: number;
+  upwind: VmgDirectionStats;
+  downwind: VmgDirectionStats;
+  reaches: VmgReach[];
+};
+
+export type RankingResult = {
+  speed: number; // km/h
+  startIndex: number;
+  endIndex: number;
+  startTime: string;
+  endTime: string;
+  distance: number; // meters
+  durationSeconds: number;
+};
+
+export type FiveByTenResult = {
+  speed: number; // km/h, average of the runs
+  runs: RankingResult[];
+};
+
+/** GPS speedsurfing ranking categories, null when not achieved */
+export type Rankings = {
+  method: "doppler" | "position";
+  twoSeconds: RankingResult | null;
+  tenSeconds: RankingResult | null;
+  fiveByTenSeconds: FiveByTenResult | null;
+  fiveHundredMeters: RankingResult | null;
+  nauticalMile: RankingResult | null;
+  alpha500: RankingResult | null;
+  oneHour: RankingResult | null;
+};
+
+/** Part of the session between two maneuvers */
+export type RunInfo = {
+  startIndex: number;
+  endIndex: number;
+  startTime: string;
+  endTime: string;
+  distance: number; // in meters
+  durationSeconds: number;
+  avgSpeed: number; // in km/h
+  maxSpeed: number; // in km/h
+  heading: number; // mean course in degrees
+  windAngle?: number; // true wind angle of the heading, 0-180°
+  foilTime: number; // seconds above the flying threshold
+  onFoil: boolean; // never dropped below the flying threshold
+  avgHeartRate?: number; // bpm, only with heart rate data
+};
+
+export type RunStatistics = {
+  count: number;
+  runs: RunInfo[];
+  top: {
+    distance: RunInfo[];
+    speed: RunInfo[];
+    foilTime: RunInfo[];
+  };
+};
+
+export type SportProfileName =
+  | "wingfoil"
+  | "windsurf"
+  | "kitesurf"
+  | "pumpfoil"
+  | "sup";
+
+/** What the time spent above the speed threshold is called in a sport */
+export type ActivityTerm = "flying" | "planing" | "riding" | "paddling";
+
+export type ManeuverVocabulary = {
+  jibe: string;
+  tack: string;
+  flyingJibe: string; // a jibe without dropping below the speed threshold
+};
+
+export type SportInfo = {
+  profile: SportProfileName;
+  label: string;
+  activity: ActivityTerm; // key of the statistics section with the active time
+  source: "detected" | "request" | "default";
+  vocabulary: ManeuverVocabulary;
+};
+
+export type ActivityStatistics = {
+  time: number; // seconds
+  longestSequence: number; // seconds
+  percentage: number; // e.g. "59.6%"
+};
+
+export type SmoothingMethod = "none" | "kalman" | "savitzky-golay";
+
+/** Stages applied to the recorded points before any analysis */
+export type PreprocessingConfig = {
+  removeDuplicates: boolean; // points without a later timestamp
+  removeSpikes: boolean;
+  maxSpeedKmh: number; // faster jumps and speeds are spikes, default by sport
+  maxAcceleration: number; // m/s², isolated speed jumps above are repaired
+  smoothing: SmoothingMethod;
+  smoothingWindow: number; // points, odd, Savitzky–Golay only
+  resampleSeconds: number; // 0 keeps the recorded timestamps
+};
+
+export type PreprocessingStageReport = {
+  stage: "duplicates" | "spikes" | "smoothing" | "resampling";
+  pointsBefore: number;
+  pointsAfter: number;
+  removed?: number; // points dropped
+  speedsRepaired?: number; // speeds replaced by their neighbors
+  moved?: number; // points shifted by more than a meter
+  maxShift?: number; // meters
+};
+
+export type PreprocessingReport = {
+  config: PreprocessingConfig;
+  stages: PreprocessingStageReport[];
+};
+
+/** Athlete values the heart rate zones and the training load are based on */
+export type HeartRateConfig = {
+  maxHeartRate: number; // bpm
+  restingHeartRate: number; // bpm
+  zones: number[]; // lower bound of each zone in bpm, from maxHeartRate if empty
+};
+
+export type HeartRateZone = {
+  zone: number; // 1 is the easiest
+  min: number; // bpm
+  max: number | null; // bpm, null for the top zone
+  time: number; // seconds
+  percentage: number; // of the time with heart rate
+};
+
+export type HeartRateActivity = {
+  avg: number | null; // bpm
+  time: number; // seconds with heart rate
+};
+
+export type HeartRateStatistics = {
+  avg: number; // bpm, time weighted
+  max: number; // bpm
+  zones: HeartRateZone[];
+  active: HeartRateActivity; // above the speed threshold of the sport
+  inactive: HeartRateActivity;
+  crashRecovery: {
+    count: number;
+    avgPeak: number; // bpm
+    avgDrop: number; // bpm in the minute after the peak
+  } | null;
+  trimp: number; // Banister training impulse
+  config: HeartRateConfig;
+};
+
+export type SimplificationMethod = "rdp" | "visvalingam";
+
+/** How the points of a response were thinned out */
+export type SimplificationReport = {
+  method: SimplificationMethod;
+  tolerance?: number; // meters, RDP distance or the side of the Visvalingam area
+  maxPoints?: number;
+  pointsBefore: number;
+  pointsAfter: number;
 };
 
 export type Segment = {
   type: SegmentType;
-  points: TrackPoint[];
-  startSpeed: number;
-  minSpeed: number;
-  maxSpeed: number;
-  endSpeed: number;
-  avgSpeed: number;
+  startIndex: number;
+  endIndex: number;
+  startSpeed: number; // in km/h
+  minSpeed: number; // in km/h
+  maxSpeed: number; // in km/h
+  endSpeed: number; // in km/h
+  avgSpeed: number; // in km/h
   startTime: Date;
   endTime: Date;
   durationSeconds: number;
   pointCount: number;
-  bearingChange: number;
+  bearingChange: number; // degrees, positive = clockwise
   isFlyJybe?: boolean;
+  avgHeartRate?: number; // bpm, only with heart rate data
 };
 
 export type TrackPoint = {
   lat: number;
   lon: number;
   speed?: number;
+  speedFromPosition?: boolean; // speed derived from positions, not the device
   time: string;
   distance?: number;
   hr?: number;
+  ele?: number;
+  course?: number; // degrees, as reported by the device
+  segment?: number; // index of the track segment the point belongs to
 };
 
 export type SessionMetadata = {
   name: string;
   type: string;
   time: string;
+  device?: string;
+  segmentCount?: number; // number of track segments merged into the session
+  board?: string;
+  notes?: string;
   city?: string;
   district?: string;
   hamlet?: string;
@@ -56,14 +275,196 @@ export type SessionMetadata = {
   country_code?: string;
 };
 
+/** Address parts of a reverse geocoded point, named like Nominatim does */
+export type LocationAddress = {
+  city?: string;
+  city_district?: string;
+  hamlet?: string;
+  road?: string;
+  country?: string;
+  leisure?: string;
+  village?: string;
+  county?: string;
+  state?: string;
+  country_code?: string;
+};
+
+export type LocationResult = {
+  address: LocationAddress;
+};
+
+/**
+ * A riding spot geofence, the polygon is the water area in [lon, lat].
+ * Curated spots come with the address, user defined ones may not.
+ */
+export type Spot = {
+  id: string;
+  name: string;
+  kind?: "lake" | "beach";
+  polygon: [number, number][];
+  address?: LocationAddress;
+  ownerId?: string; // user who defined it, curated spots have none
+};
+
+export type SpotSource = "curated" | "user" | "cluster";
+
+/** A spot sessions are matched to, geofenced or a cluster of start points */
+export type SpotInfo = {
+  id: string;
+  name: string;
+  source: SpotSource;
+  kind?: Spot["kind"];
+  center: { lat: number; lon: number };
+};
+
+/** Best value of a metric over several sessions */
+export type SessionBest = {
+  value: number;
+  sessionId: string;
+};
+
+export type SpotStatistics = {
+  sessionCount: number;
+  activityTime: number; // seconds above the speed threshold of each sport
+  best: {
+    maxSpeed: SessionBest | null; // km/h
+    twoSeconds: SessionBest | null; // km/h
+    tenSeconds: SessionBest | null; // km/h
+  };
+  windDirection: number | null; // circular mean of the sessions, degrees
+  firstSession: string; // ISO string
+  lastSession: string; // ISO string
+};
+
+/** Key numbers of a session side by side with other sessions */
+export type ComparisonMetrics = {
+  maxSpeed: number; // km/h
+  avgSpeed: number; // km/h
+  flyingPercentage: number; // of the time, above the speed threshold of the sport
+  flyingJibePercentage: number;
+  distance: number; // km
+  jibes: number;
+  twoSeconds: number | null; // km/h, best 2 s ranking speed
+};
+
+export type ComparedSession = {
+  id: string;
+  name: string;
+  time: string; // ISO string, when the session was recorded
+  sport?: SportProfileName;
+  metrics: ComparisonMetrics;
+};
+
+/** Change of each metric to the session recorded before */
+export type ComparisonDelta = {
+  id: string;
+  previousId: string;
+  metrics: Record<keyof ComparisonMetrics, number | null>;
+};
+
+/** Counts per bin of each session, the last bin is open ended */
+export type ComparisonHistogram = {
+  unit: string;
+  bins: { min: number; max: number | null }[];
+  sessions: { id: string; counts: number[]; percentages: number[] }[];
+};
+
+export type SessionComparison = {
+  sessions: ComparedSession[]; // oldest first
+  deltas: ComparisonDelta[];
+  jibes: {
+    duration: ComparisonHistogram; // seconds
+    minSpeed: ComparisonHistogram; // km/h
+  };
+};
+
+export type SessionVisibility = "private" | "public";
+
 export type Session = {
   id?: string;
+  createdAt?: string; // ISO string, set when the session is stored
+  ownerId?: string; // user who stored it, sessions from before accounts have none
+  visibility?: SessionVisibility; // private when not set
+  shareToken?: string; // lets anyone with the link read a private session
   metadata: SessionMetadata;
-  points: TrackPoint[];
+  points: TrackPoint[]; // the analyzed points, indices refer to these
+  // Recorded points when preprocessing changed them, reanalysis starts here
+  rawPoints?: TrackPoint[];
+  preprocessing?: PreprocessingReport;
+  simplification?: SimplificationReport; // only in responses
   statistics?: TrackStatistics;
+  segments?: Segment[];
   config: Record<string, unknown>;
 };
 
+export type StoredSession = Session & { id: string; createdAt: string };
+
+/** Key numbers of an analyzed session for lists and aggregates */
+export type SessionHighlights = {
+  distance: number; // km
+  totalTime?: number; // seconds from the first to the last point
+  activityTime: number; // seconds above the speed threshold of the sport
+  longestActivity?: number; // seconds, longest time above the threshold
+  maxSpeed: number; // km/h
+  jibes?: number;
+  flyingJibes?: number;
+  flyingJibePercentage?: number;
+  twoSeconds?: number; // km/h, best 2 s ranking speed
+  tenSeconds?: number; // km/h
+  fiveByTenSeconds?: number; // km/h
+  fiveHundredMeters?: number; // km/h
+  nauticalMile?: number; // km/h
+  alpha500?: number; // km/h
+  oneHour?: number; // km/h
+  windDirection?: number; // degrees
+};
+
+export type RecordName =
+  | "maxSpeed"
+  | "longestActivity"
+  | "flyingJibes"
+  | "flyingJibePercentage"
+  | "twoSeconds"
+  | "tenSeconds"
+  | "fiveByTenSeconds"
+  | "fiveHundredMeters"
+  | "nauticalMile"
+  | "alpha500"
+  | "oneHour";
+
+/** A personal record and the session that set it */
+export type PersonalRecord = SessionBest & {
+  setAt: string; // ISO string, when the session was recorded
+  previous: SessionBest | null; // the record it broke
+};
+
+export type PersonalRecords = Record<RecordName, PersonalRecord | null>;
+
+export type TrendPeriod = "week" | "month";
+
+/** Totals of the sessions recorded in one week or month */
+export type TrendEntry = {
+  period: string; // ISO week ("2025-W40") or month ("2025-10")
+  start: string; // ISO date of the first day
+  sessionCount: number;
+  totalTime: number; // seconds on the water
+  activityTime: number; // seconds above the speed threshold of each sport
+  distance: number; // km
+  maxSpeed: number; // km/h
+};
+
+/** What session lists show, without points and statistics */
+export type SessionSummary = {
+  id: string;
+  createdAt: string;
+  ownerId?: string;
+  visibility?: SessionVisibility;
+  metadata: SessionMetadata;
+  start?: { lat: number; lon: number }; // first track point
+  sport?: SportProfileName;
+  highlights?: SessionHighlights;
+};
+
 export interface RawTrackStatistics {
   totalDistance: number; // in meters
   totalTime: number; // in seconds
@@ -78,6 +479,12 @@ export interface RawTrackStatistics {
   tackCount: number;
   flyingJibeCount: number;
   jibes: JibeInfo[];
+  wind?: WindInfo;
+  polar?: PolarDiagram;
+  vmg?: VmgStatistics;
+  rankings?: Rankings;
+  segments?: Segment[];
+  runs?: RunStatistics;
 }
 
 export interface TrackStatistics {
@@ -91,11 +498,11 @@ export interface TrackStatistics {
     avg: number; // e.g. "9.8 km/h"
     max: number; // e.g. "24.2 km/h"
   };
-  flying: {
-    time: number; // ms
-    longestSequence: number; // ms
-    percentage: number; // e.g. "59.6%"
-  };
+  // Only the section named by the sport's activity term is set
+  flying?: ActivityStatistics;
+  planing?: ActivityStatistics;
+  riding?: ActivityStatistics;
+  paddling?: ActivityStatistics;
   maneuvers: {
     jibes: number;
     tacks: number;
@@ -107,4 +514,78 @@ export interface TrackStatistics {
     total: number; // e.g. "20.54 km"
     maxFromStart: number; // e.g. "0.39 km"
   };
+  wind?: WindInfo;
+  polar?: PolarDiagram;
+  vmg?: VmgStatistics;
+  rankings?: Rankings;
+  segments?: Segment[];
+  runs?: RunStatistics;
+  sport?: SportInfo;
+  heartRate?: HeartRateStatistics; // only with heart rate data
 }
+
+export type User = {
+  id: string;
+  email: string; // lower case, unique
+  name: string;
+  passwordHash: string;
+  createdAt: string;
+};
+
+/** What the API shows of a user */
+export type PublicUser = Omit<User, "passwordHash">;
+
+export type LeaderboardMetric =
+  | RecordName
+  | "distance"
+  | "activityTime"
+  | "jibes";
+
+/** Calendar period the standings are computed for, in UTC */
+export type LeaderboardWindow = "week" | "month" | "year" | "all";
+
+export type Leaderboard = {
+  id: string;
+  name: string;
+  metric: LeaderboardMetric;
+  window: LeaderboardWindow;
+  // "best" ranks the best session of each member, "total" the sum of all
+  aggregate: "best" | "total";
+  sport?: SportProfileName;
+  spotId?: string;
+};
+
+export type Group = {
+  id: string;
+  name: string;
+  ownerId: string; // manages members, leaderboards and disqualifications
+  memberIds: string[]; // including the owner
+  inviteCode: string; // lets users join the group
+  leaderboards: Leaderboard[];
+  disqualified: string[]; // session ids left out of every leaderboard
+  createdAt: string;
+};
+
+export type LeaderboardEntry = {
+  rank: number; // members with the same value share a rank
+  userId: string;
+  name: string;
+  value: number;
+  sessionId?: string; // the best session, for "best" leaderboards
+  sessionCount: number;
+};
+
+export type ExcludedSession = {
+  sessionId: string;
+  userId: string;
+  reason: string;
+};
+
+export type LeaderboardStandings = {
+  leaderboard: Leaderboard;
+  from: string | null; // ISO start of the window, null for "all"
+  to: string | null; // ISO end of the window, exclusive
+  unit: string;
+  standings: LeaderboardEntry[];
+  excluded: ExcludedSession[];
+};
@@ -1,3 +1,5 @@
+import { TrackPoint } from "./types.ts";
+
 export function formatDateTime(isoString: string): string {
   const date = new Date(isoString);
   return date.toLocaleString("en-US", {
@@ -10,3 +12,150 @@ export function formatDateTime(isoString: string): string {
     hour12: false,
   });
 }
+
+export function toArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * True if two consecutive points belong to different track segments, i.e.
+ * the time and distance between them must not be counted.
+ */
+export function isSegmentBreak(prev: TrackPoint, curr: TrackPoint): boolean {
+  return (prev.segment ?? 0) !== (curr.segment ?? 0);
+}
+
+export function countSegments(points: TrackPoint[]): number {
+  if (points.length === 0) return 0;
+  let count = 1;
+  for (let i = 1; i < points.length; i++) {
+    if (isSegmentBreak(points[i - 1], points[i])) count++;
+  }
+  return count;
+}
+
+const toRad = (deg: number): number => (deg * Math.PI) / 180;
+const toDeg = (rad: number): number => (rad * 180) / Math.PI;
+
+/**
+ * Initial bearing from pt1 to pt2 in degrees (0-360)
+ */
+export function calculateBearing(pt1: TrackPoint, pt2: TrackPoint): number {
+  const lat1 = toRad(pt1.lat);
+  const lat2 = toRad(pt2.lat);
+  const dLon = toRad(pt2.lon - pt1.lon);
+
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+/**
+ * Distance between two points in meters (Haversine formula)
+ */
+export function calculateDistance(
+  pt1: Pick<TrackPoint, "lat" | "lon">,
+  pt2: Pick<TrackPoint, "lat" | "lon">,
+): number {
+  const R = 6371000; // Earth radius in meters
+  const dLat = toRad(pt2.lat - pt1.lat);
+  const dLon = toRad(pt2.lon - pt1.lon);
+
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(pt1.lat)) * Math.cos(toRad(pt2.lat)) *
+      Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Whether the point lies inside the polygon of [lon, lat] corners (ray
+ * casting, fine for the small areas of riding spots)
+ */
+export function isInPolygon(
+  point: { lat: number; lon: number },
+  polygon: [number, number][],
+): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [lonI, latI] = polygon[i];
+    const [lonJ, latJ] = polygon[j];
+    if (
+      (latI > point.lat) !== (latJ > point.lat) &&
+      point.lon < ((lonJ - lonI) * (point.lat - latI)) / (latJ - latI) + lonI
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Signed difference from angle1 to angle2 in degrees (-180, 180]
+ */
+export function signedAngleDifference(angle1: number, angle2: number): number {
+  const diff = (((angle2 - angle1) % 360) + 360) % 360;
+  return diff > 180 ? diff - 360 : diff;
+}
+
+export function normalizeAngle(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+export type TrackStep = {
+  index: number; // index of the point the step starts at
+  dt: number; // seconds
+  speed: number; // m/s
+  course: number; // degrees
+};
+
+/**
+ * Consecutive point pairs within a segment with their duration, speed and
+ * course. Steps longer than `maxStepSeconds` are skipped as recording gaps.
+ */
+export function getTrackSteps(
+  points: TrackPoint[],
+  maxStepSeconds = 10,
+): TrackStep[] {
+  const steps: TrackStep[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    if (isSegmentBreak(p1, p2)) continue;
+
+    const dt = (new Date(p2.time).getTime() - new Date(p1.time).getTime()) /
+      1000;
+    if (dt <= 0 || dt > maxStepSeconds) continue;
+
+    steps.push({
+      index: i,
+      dt,
+      speed: p1.speed || 0,
+      course: p1.course ?? calculateBearing(p1, p2),
+    });
+  }
+  return steps;
+}
+
+/**
+ * Time weighted percentile (0-100) of values given as [value, weight] pairs
+ */
+export function weightedPercentile(
+  values: [number, number][],
+  percentile: number,
+): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a[0] - b[0]);
+  const total = sorted.reduce((sum, [, weight]) => sum + weight, 0);
+  const target = (percentile / 100) * total;
+
+  let cumulative = 0;
+  for (const [value, weight] of sorted) {
+    cumulative += weight;
+    if (cumulative >= target) return value;
+  }
+  return sorted[sorted.length - 1][0];
+}